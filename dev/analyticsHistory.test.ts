@@ -0,0 +1,64 @@
+import type { Payload } from 'payload'
+
+import { getAnalyticsHistory } from '../src/utils/analyticsHistory.js'
+
+const createPayload = (docs: Record<string, unknown>[]) =>
+  ({
+    collections: { 'hubspot-form-analytics-snapshots': {} },
+    find: jest.fn().mockResolvedValue({ docs }),
+  }) as unknown as { find: jest.Mock } & Payload
+
+describe('Analytics history', () => {
+  it('should keep the last snapshot of each day per form', async () => {
+    const payload = createPayload([
+      {
+        conversionRate: 0.1,
+        date: '2025-01-01T06:00:00.000Z',
+        form: 1,
+        submissions: 10,
+        views: 100,
+      },
+      {
+        conversionRate: 0.2,
+        date: '2025-01-01T18:00:00.000Z',
+        form: 1,
+        submissions: 12,
+        views: 110,
+      },
+      { date: '2025-01-02T06:00:00.000Z', form: 1, submissions: 15, views: 130 },
+      { date: '2025-01-01T06:00:00.000Z', form: { id: 2 }, submissions: 1, views: 8 },
+    ])
+
+    const history = await getAnalyticsHistory(payload, [1, 2], {
+      end: '2025-01-02',
+      start: '2025-01-01',
+    })
+
+    expect(history.get('1')).toStrictEqual([
+      { conversionRate: 0.2, date: '2025-01-01', submissions: 12, views: 110 },
+      { conversionRate: undefined, date: '2025-01-02', submissions: 15, views: 130 },
+    ])
+    expect(history.get('2')).toHaveLength(1)
+    expect(payload.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sort: 'date',
+        where: {
+          and: [
+            { form: { in: [1, 2] } },
+            { date: { greater_than_equal: '2025-01-01T00:00:00.000Z' } },
+            { date: { less_than: '2025-01-03T00:00:00.000Z' } },
+          ],
+        },
+      }),
+    )
+  })
+
+  it('should not query snapshots without forms', async () => {
+    const payload = createPayload([])
+
+    await expect(getAnalyticsHistory(payload, [], { start: '2025-01-01' })).resolves.toStrictEqual(
+      new Map(),
+    )
+    expect(payload.find).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,113 @@
+import type { Payload } from 'payload'
+
+import { collectionCache, memoryCache } from '../src/utils/cache.js'
+import { getHubSpotClient, HubSpotClient } from '../src/utils/hubspotClient.js'
+
+const mockResponse = (body: unknown) =>
+  Promise.resolve(
+    new Response(JSON.stringify(body), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 200,
+    }),
+  )
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+// Mock console methods
+jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+const payload = {} as Payload
+
+describe('HubSpot cache', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useRealTimers()
+  })
+
+  it('should expire memory entries after their TTL', async () => {
+    jest.useFakeTimers({ now: 0 })
+    const cache = memoryCache().init({ payload })
+
+    await cache.set('forms', ['abc'], 1000)
+    await expect(cache.get('forms')).resolves.toStrictEqual(['abc'])
+
+    jest.setSystemTime(1000)
+    await expect(cache.get('forms')).resolves.toBeUndefined()
+  })
+
+  it('should evict the least recently used memory entry', async () => {
+    const cache = memoryCache({ maxEntries: 2 }).init({ payload })
+
+    await cache.set('a', 1, 1000)
+    await cache.set('b', 2, 1000)
+    await cache.get('a')
+    await cache.set('c', 3, 1000)
+
+    await expect(cache.get('a')).resolves.toBe(1)
+    await expect(cache.get('b')).resolves.toBeUndefined()
+    await expect(cache.get('c')).resolves.toBe(3)
+  })
+
+  it('should store entries in the cache collection', async () => {
+    const collectionPayload = {
+      create: jest.fn().mockResolvedValue({}),
+      delete: jest.fn().mockResolvedValue({ docs: [] }),
+      find: jest.fn().mockResolvedValue({
+        docs: [{ expiresAt: new Date(Date.now() + 1000).toISOString(), value: ['abc'] }],
+      }),
+      update: jest.fn().mockResolvedValue({ docs: [] }),
+    } as unknown as Payload
+    const adapter = collectionCache()
+    const cache = adapter.init({ payload: collectionPayload })
+
+    await cache.set('forms', ['abc'], 1000)
+    await expect(cache.get('forms')).resolves.toStrictEqual(['abc'])
+
+    expect(adapter.collections?.map((collection) => collection.slug)).toStrictEqual([
+      'hubspot-cache',
+    ])
+    expect(collectionPayload.create).toHaveBeenCalledWith({
+      collection: 'hubspot-cache',
+      data: expect.objectContaining({ key: 'forms', value: ['abc'] }),
+      depth: 0,
+    })
+  })
+
+  it('should serve cached forms until refreshed', async () => {
+    mockFetch.mockImplementation(() => mockResponse({ id: 'abc', name: 'Test Form' }))
+    const pluginOptions = { apiKey: 'test-api-key', cache: { ttl: { form: 1000 } } }
+    const cachedPayload = {} as Payload
+
+    await getHubSpotClient(pluginOptions, cachedPayload).getForm('abc')
+    await getHubSpotClient(pluginOptions, cachedPayload).getForm('abc')
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await getHubSpotClient(pluginOptions, cachedPayload, undefined, { refresh: true }).getForm(
+      'abc',
+    )
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should load from HubSpot when the cache fails', async () => {
+    mockFetch.mockImplementation(() => mockResponse({ totals: { submissions: 3 } }))
+    const failing = {
+      delete: jest.fn(),
+      get: jest.fn().mockRejectedValue(new Error('Cache unavailable')),
+      set: jest.fn().mockRejectedValue(new Error('Cache unavailable')),
+    }
+    const client = new HubSpotClient({
+      apiKey: 'test-api-key',
+      cache: {
+        keyPrefix: 'hubspot:default:v3',
+        store: failing,
+        ttl: { analytics: 1000, form: 1000, forms: 1000 },
+      },
+    })
+
+    await expect(client.getFormAnalytics('abc')).resolves.toEqual({
+      totals: { submissions: 3 },
+    })
+    expect(failing.get).toHaveBeenCalledWith('hubspot:default:v3:analytics:total?f=abc')
+  })
+})
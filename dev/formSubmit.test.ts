@@ -0,0 +1,112 @@
+import type { HubSpotFormField } from '../src/utils/formFields.js'
+
+import { getFormFields } from '../src/utils/formFields.js'
+import { fromHubSpotErrors, validateFormSubmission } from '../src/utils/formSubmit.js'
+
+const fields: HubSpotFormField[] = [
+  {
+    name: 'email',
+    fieldType: 'email',
+    hidden: false,
+    label: 'Email',
+    objectTypeId: '0-1',
+    options: [],
+    required: true,
+  },
+  {
+    name: 'interests',
+    fieldType: 'multiple_checkboxes',
+    hidden: false,
+    label: 'Interests',
+    options: [
+      { label: 'Product', value: 'product' },
+      { label: 'Pricing', value: 'pricing' },
+    ],
+    required: false,
+  },
+  {
+    name: 'source',
+    fieldType: 'single_line_text',
+    hidden: true,
+    label: 'Source',
+    options: [],
+    required: true,
+  },
+]
+
+describe('Form submission validation', () => {
+  it('should map valid values to HubSpot fields', () => {
+    const result = validateFormSubmission(fields, {
+      email: ' jane@example.com ',
+      interests: ['product', 'pricing'],
+    })
+
+    expect(result.errors).toHaveLength(0)
+    expect(result.fields).toStrictEqual([
+      { name: 'email', objectTypeId: '0-1', value: 'jane@example.com' },
+      { name: 'interests', objectTypeId: undefined, value: 'product;pricing' },
+    ])
+  })
+
+  it('should return field errors', () => {
+    const { errors } = validateFormSubmission(fields, {
+      company: 'Acme',
+      interests: ['support'],
+    })
+
+    expect(errors.map((error) => [error.field, error.type])).toStrictEqual([
+      ['company', 'UNKNOWN_FIELD'],
+      ['email', 'REQUIRED'],
+      ['interests', 'INVALID_OPTION'],
+    ])
+
+    expect(validateFormSubmission(fields, { email: 'jane' }).errors[0].type).toBe('INVALID_EMAIL')
+  })
+
+  it('should normalize HubSpot errors to field errors', () => {
+    expect(
+      fromHubSpotErrors([
+        { errorType: 'INVALID_EMAIL', message: "Error in 'fields.email'. Invalid email address" },
+      ]),
+    ).toStrictEqual([
+      {
+        type: 'INVALID_EMAIL',
+        field: 'email',
+        message: "Error in 'fields.email'. Invalid email address",
+      },
+    ])
+  })
+
+  it('should accept dependent fields as optional', () => {
+    const [, budget] = getFormFields({
+      name: 'Demo Request',
+      fieldGroups: [
+        {
+          fields: [
+            {
+              name: 'team_size',
+              dependentFields: [
+                {
+                  dependentCondition: { operator: 'eq', value: '51+' },
+                  dependentField: { name: 'annual_budget', fieldType: 'number', required: true },
+                },
+              ],
+              fieldType: 'dropdown',
+            },
+          ],
+        },
+      ],
+      guid: 'a',
+    })
+
+    expect(budget).toMatchObject({ name: 'annual_budget', required: false })
+  })
+
+  it('should read field definitions from v2 and v3 forms', () => {
+    const field = { name: 'email', fieldType: 'text', label: 'Email', required: true }
+
+    expect(
+      getFormFields({ name: 'v2', formFieldGroups: [{ fields: [field] }], guid: 'a' }),
+    ).toEqual(getFormFields({ name: 'v3', fieldGroups: [{ fields: [field] }], guid: 'a' }))
+  })
+})
@@ -0,0 +1,128 @@
+import type { FlattenedField, Payload, PayloadRequest } from 'payload'
+
+import { getFormReferences, indexCollectionFormUsages } from '../src/utils/formUsage.js'
+
+const payload = { blocks: {} } as unknown as Payload
+
+const formBlock = (form: unknown) => ({
+  type: 'block',
+  fields: { blockType: 'hubspotForm', form },
+  version: 2,
+})
+
+const fields = [
+  { name: 'title', type: 'text' },
+  { name: 'hubspotForm', type: 'relationship', relationTo: 'hubspot-forms' },
+  { name: 'related', type: 'relationship', hasMany: true, relationTo: ['posts', 'hubspot-forms'] },
+  { name: 'content', type: 'richText' },
+  {
+    name: 'sections',
+    type: 'array',
+    flattenedFields: [{ name: 'form', type: 'relationship', relationTo: 'hubspot-forms' }],
+  },
+  {
+    name: 'layout',
+    type: 'blocks',
+    blocks: [
+      {
+        slug: 'cta',
+        fields: [],
+        flattenedFields: [
+          {
+            name: 'meta',
+            type: 'group',
+            flattenedFields: [{ name: 'form', type: 'relationship', relationTo: 'hubspot-forms' }],
+          },
+        ],
+      },
+    ],
+  },
+] as unknown as FlattenedField[]
+
+describe('getFormReferences', () => {
+  it('finds forms referenced through fields and rich text blocks', () => {
+    const references = getFormReferences(payload, fields, {
+      content: {
+        root: {
+          type: 'root',
+          children: [
+            { type: 'paragraph', children: [{ type: 'text', text: 'Hello' }] },
+            formBlock(2),
+            formBlock({ id: 3, formId: 'form-3' }),
+            { type: 'block', fields: { blockType: 'other', form: 9 } },
+          ],
+        },
+      },
+      hubspotForm: { id: 1, formId: 'form-1' },
+      layout: [{ blockType: 'cta', meta: { form: 5 } }],
+      related: [
+        { relationTo: 'posts', value: 8 },
+        { relationTo: 'hubspot-forms', value: 6 },
+      ],
+      sections: [{ form: null }, { form: 4 }],
+      title: 'Home',
+    })
+
+    expect(references).toStrictEqual([
+      { form: 1, path: 'hubspotForm', source: 'field' },
+      { form: 6, path: 'related', source: 'field' },
+      { form: 2, path: 'content', source: 'block' },
+      { form: 3, path: 'content', source: 'block' },
+      { form: 4, path: 'sections.1.form', source: 'field' },
+      { form: 5, path: 'layout.0.meta.form', source: 'field' },
+    ])
+  })
+
+  it('returns no references for documents without forms', () => {
+    expect(getFormReferences(payload, fields, { title: 'Home' })).toStrictEqual([])
+  })
+})
+
+describe('indexCollectionFormUsages', () => {
+  it('indexes every page of documents saved before usages were tracked', async () => {
+    const find = jest.fn(({ collection, page }: { collection: string; page?: number }) =>
+      Promise.resolve(
+        collection === 'pages'
+          ? {
+              docs: [{ id: page, hubspotForm: 10 + (page || 0), title: `Page ${page}` }],
+              hasNextPage: page === 1,
+            }
+          : { docs: [] },
+      ),
+    )
+    const create = jest.fn().mockResolvedValue({})
+    const req = {
+      payload: {
+        blocks: {},
+        collections: {
+          pages: {
+            config: {
+              slug: 'pages',
+              admin: { useAsTitle: 'title' },
+              flattenedFields: fields,
+            },
+          },
+        },
+        create,
+        find,
+      },
+    } as unknown as PayloadRequest
+
+    await expect(indexCollectionFormUsages(req, 'pages')).resolves.toBe(2)
+
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({ collection: 'pages', page: 2 }))
+    expect(create).toHaveBeenCalledTimes(2)
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        collection: 'hubspot-form-usages',
+        data: {
+          document: { relationTo: 'pages', value: 2 },
+          form: 12,
+          path: 'hubspotForm',
+          source: 'field',
+          title: 'Page 2',
+        },
+      }),
+    )
+  })
+})
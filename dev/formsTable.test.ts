@@ -0,0 +1,118 @@
+import {
+  applyFormsTableState,
+  DEFAULT_FORMS_TABLE_STATE,
+  parseFormsTableState,
+  toFormsTableParams,
+} from '../src/components/formsTable.js'
+
+const now = new Date('2025-01-02T12:00:00Z').getTime()
+
+const forms = [
+  {
+    name: 'Contact Us',
+    analytics: { lastUpdated: '2025-01-02T11:00:00Z', submissions: 12, views: 400 },
+    guid: 'a1b2c3d4-contact',
+    isTracked: true,
+    usageCount: 3,
+  },
+  {
+    name: 'Newsletter',
+    analytics: { lastUpdated: '2024-12-20T11:00:00Z', submissions: 0, views: 900 },
+    guid: 'e5f6a7b8-newsletter',
+    isTracked: true,
+    usageCount: 1,
+  },
+  { name: 'Webinar Signup', guid: 'c9d0e1f2-webinar' },
+]
+
+describe('Forms table', () => {
+  it('should sort by views without changing the forms passed in', () => {
+    const original = [...forms]
+    const { rows } = applyFormsTableState(forms, DEFAULT_FORMS_TABLE_STATE, undefined, now)
+
+    expect(rows.map((form) => form.name)).toStrictEqual([
+      'Newsletter',
+      'Contact Us',
+      'Webinar Signup',
+    ])
+    expect(forms).toStrictEqual(original)
+  })
+
+  it('should keep forms without analytics last in either direction', () => {
+    const { rows } = applyFormsTableState(
+      forms,
+      { ...DEFAULT_FORMS_TABLE_STATE, sort: 'submissions', sortDirection: 'asc' },
+      undefined,
+      now,
+    )
+
+    expect(rows.map((form) => form.name)).toStrictEqual([
+      'Newsletter',
+      'Contact Us',
+      'Webinar Signup',
+    ])
+  })
+
+  it('should search by name or form ID and combine filters', () => {
+    const search = (state: Partial<typeof DEFAULT_FORMS_TABLE_STATE>) =>
+      applyFormsTableState(
+        forms,
+        { ...DEFAULT_FORMS_TABLE_STATE, ...state },
+        undefined,
+        now,
+      ).rows.map((form) => form.name)
+
+    expect(search({ search: 'NEWS' })).toStrictEqual(['Newsletter'])
+    expect(search({ search: 'c9d0' })).toStrictEqual(['Webinar Signup'])
+    expect(search({ tracking: 'untracked' })).toStrictEqual(['Webinar Signup'])
+    expect(search({ freshness: 'stale', tracking: 'tracked' })).toStrictEqual(['Newsletter'])
+    expect(search({ hasSubmissions: true })).toStrictEqual(['Contact Us'])
+  })
+
+  it('should paginate and keep the page within range', () => {
+    const manyForms = Array.from({ length: 30 }, (_, index) => ({
+      name: `Form ${String(index).padStart(2, '0')}`,
+      guid: `form-${index}`,
+    }))
+
+    const result = applyFormsTableState(
+      manyForms,
+      { ...DEFAULT_FORMS_TABLE_STATE, page: 4, sort: 'name', sortDirection: 'asc' },
+      undefined,
+      now,
+    )
+
+    expect(result).toMatchObject({ page: 2, pageCount: 2, total: 30 })
+    expect(result.rows.map((form) => form.name)).toStrictEqual([
+      'Form 25',
+      'Form 26',
+      'Form 27',
+      'Form 28',
+      'Form 29',
+    ])
+  })
+
+  it('should round-trip the state through the query string', () => {
+    const state = {
+      ...DEFAULT_FORMS_TABLE_STATE,
+      hasSubmissions: true,
+      page: 2,
+      search: 'contact',
+      sort: 'conversionRate' as const,
+      sortDirection: 'asc' as const,
+      tracking: 'tracked' as const,
+    }
+    const params = toFormsTableParams(state, new URLSearchParams('depth=1&hsFreshness=stale'))
+
+    expect(params.toString()).toBe(
+      'depth=1&hsHasSubmissions=true&hsPage=2&hsSearch=contact&hsSort=conversionRate&hsTracking=tracked',
+    )
+    expect(parseFormsTableState(params)).toStrictEqual({ ...state, freshness: undefined })
+  })
+
+  it('should ignore unknown values in the query string', () => {
+    expect(
+      parseFormsTableState(new URLSearchParams('hsPage=-1&hsSort=-secret&hsTracking=maybe')),
+    ).toStrictEqual({ ...DEFAULT_FORMS_TABLE_STATE, freshness: undefined, tracking: undefined })
+  })
+})
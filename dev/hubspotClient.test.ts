@@ -0,0 +1,167 @@
+import { getHubSpotClient, HubSpotClient } from '../src/utils/hubspotClient.js'
+import {
+  HubSpotAuthError,
+  HubSpotNotFoundError,
+  HubSpotRateLimitError,
+  HubSpotUpstreamError,
+} from '../src/utils/hubspotErrors.js'
+
+const mockResponse = (status: number, body: unknown = {}) =>
+  Promise.resolve(
+    new Response(JSON.stringify(body), {
+      headers: { 'Content-Type': 'application/json' },
+      status,
+    }),
+  )
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+// Mock console methods
+jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+describe('HubSpotClient', () => {
+  const client = new HubSpotClient({ apiKey: 'test-api-key', retry: { baseDelay: 0 } })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(Math, 'random').mockReturnValue(0)
+  })
+
+  it('should send the API key as a Bearer token', async () => {
+    mockFetch.mockImplementation(() => mockResponse(200, { id: 'abc', name: 'Test Form' }))
+
+    const form = await client.getForm('abc')
+
+    expect(form).toMatchObject({ name: 'Test Form', guid: 'abc' })
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.hubapi.com/marketing/v3/forms/abc',
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer test-api-key' }),
+      }),
+    )
+  })
+
+  it('should follow v3 paging cursors until all forms are loaded', async () => {
+    mockFetch
+      .mockImplementationOnce(() =>
+        mockResponse(200, {
+          paging: { next: { after: 'cursor-1' } },
+          results: [{ id: 'abc', name: 'First Form' }],
+        }),
+      )
+      .mockImplementationOnce(() =>
+        mockResponse(200, { results: [{ id: 'def', name: 'Second Form' }] }),
+      )
+
+    const forms = await client.listForms()
+
+    expect(forms.map((form) => form.guid)).toEqual(['abc', 'def'])
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      'https://api.hubapi.com/marketing/v3/forms?limit=100&after=cursor-1',
+      expect.anything(),
+    )
+  })
+
+  it('should use the legacy v2 forms API when configured', async () => {
+    mockFetch.mockImplementation(() => mockResponse(200, [{ name: 'Test Form', guid: 'abc' }]))
+
+    const forms = await new HubSpotClient({ apiKey: 'test-api-key', formsApi: 'v2' }).listForms()
+
+    expect(forms).toEqual([{ name: 'Test Form', guid: 'abc' }])
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.hubapi.com/forms/v2/forms',
+      expect.anything(),
+    )
+  })
+
+  it('should fall back to the v2 forms API when v3 is not available', async () => {
+    mockFetch
+      .mockImplementationOnce(() => mockResponse(403))
+      .mockImplementationOnce(() => mockResponse(200, [{ name: 'Test Form', guid: 'abc' }]))
+
+    const forms = await client.listForms()
+
+    expect(forms).toEqual([{ name: 'Test Form', guid: 'abc' }])
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      'https://api.hubapi.com/forms/v2/forms',
+      expect.anything(),
+    )
+  })
+
+  it('should not fall back when a forms API is configured', async () => {
+    mockFetch.mockImplementation(() => mockResponse(403))
+
+    await expect(
+      new HubSpotClient({ apiKey: 'test-api-key', formsApi: 'v3' }).listForms(),
+    ).rejects.toBeInstanceOf(HubSpotAuthError)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it("should use each portal's forms API", async () => {
+    mockFetch.mockImplementation(() => mockResponse(200, { results: [] }))
+    const pluginOptions = {
+      portals: [
+        { id: '111', apiKey: 'brand-a-token' },
+        { id: '222', apiKey: 'brand-b-token', formsApi: 'v2' as const },
+      ],
+    }
+
+    await getHubSpotClient(pluginOptions, undefined, '111').ping()
+    await getHubSpotClient(pluginOptions, undefined, '222').ping()
+
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.hubapi.com/marketing/v3/forms?limit=1',
+      'https://api.hubapi.com/forms/v2/forms?limit=1',
+    ])
+  })
+
+  it('should retry rate limited requests', async () => {
+    mockFetch
+      .mockImplementationOnce(() => mockResponse(429))
+      .mockImplementationOnce(() => mockResponse(200, { totals: { formViews: 10 } }))
+
+    const analytics = await client.getFormAnalytics('abc')
+
+    expect(analytics.totals?.formViews).toBe(10)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should throw typed errors', async () => {
+    mockFetch.mockImplementation(() => mockResponse(401))
+    await expect(client.listForms()).rejects.toBeInstanceOf(HubSpotAuthError)
+
+    mockFetch.mockImplementation(() => mockResponse(404))
+    await expect(client.getForm('missing')).rejects.toBeInstanceOf(HubSpotNotFoundError)
+
+    mockFetch.mockImplementation(() => mockResponse(429))
+    await expect(client.listForms()).rejects.toBeInstanceOf(HubSpotRateLimitError)
+
+    mockFetch.mockImplementation(() => mockResponse(503))
+    await expect(client.listForms()).rejects.toBeInstanceOf(HubSpotUpstreamError)
+  })
+
+  it('should not call HubSpot without an API key', async () => {
+    await expect(new HubSpotClient().listForms()).rejects.toBeInstanceOf(HubSpotAuthError)
+    expect(mockFetch).not.toHaveBeenCalled()
+  })
+
+  it('should use the token of the requested portal', async () => {
+    mockFetch.mockImplementation(() => mockResponse(200, { id: 'abc', name: 'Test Form' }))
+    const pluginOptions = {
+      portals: [
+        { id: '111', apiKey: 'brand-a-token', label: 'Brand A' },
+        { id: '222', apiKey: 'brand-b-token', label: 'Brand B' },
+      ],
+    }
+
+    await getHubSpotClient(pluginOptions, undefined, '222').getForm('abc')
+    await getHubSpotClient(pluginOptions).getForm('abc')
+
+    expect(mockFetch.mock.calls.map(([, init]) => init.headers.Authorization)).toStrictEqual([
+      'Bearer brand-b-token',
+      'Bearer brand-a-token',
+    ])
+    expect(() => getHubSpotClient(pluginOptions, undefined, '333')).toThrow(HubSpotNotFoundError)
+  })
+})
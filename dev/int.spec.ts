@@ -7,12 +7,15 @@
 
 import type { Payload } from 'payload'
 
+import { createHmac } from 'crypto'
 import dotenv from 'dotenv'
 import { MongoMemoryReplSet } from 'mongodb-memory-server'
 import path from 'path'
 import { getPayload } from 'payload'
 import { fileURLToPath } from 'url'
 
+import { getPluginOptions } from '../src/index.js'
+import { syncFormSubmissions } from '../src/utils/syncFormSubmissions.js'
 import { NextRESTClient } from './helpers/NextRESTClient.js'
 
 const dirname = path.dirname(fileURLToPath(import.meta.url))
@@ -47,6 +50,7 @@ describe('Plugin tests', () => {
 
     payload = await getPayload({ config })
     restClient = new NextRESTClient(payload.config)
+    await restClient.login({ slug: 'users' })
   })
 
   afterAll(async () => {
@@ -95,4 +99,345 @@ describe('Plugin tests', () => {
     const { docs } = await payload.find({ collection: 'hubspot-forms' })
     expect(docs).toHaveLength(1)
   })
+
+  it('tracks a form and fetches its name from the mock HubSpot server', async () => {
+    const form = await payload.create({
+      collection: 'hubspot-forms',
+      data: {
+        formId: '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+      } as { formId: string; name: string },
+    })
+
+    expect(form.name).toBe('Newsletter Signup')
+    expect(form.fieldGroups?.[0].fields?.[0]).toMatchObject({
+      name: 'email',
+      fieldType: 'email',
+      required: true,
+    })
+  })
+
+  it('rejects plugin endpoints for anonymous requests', async () => {
+    const anonymousClient = new NextRESTClient(payload.config)
+
+    const forms = await anonymousClient.GET('/hubspot/forms')
+    expect(forms.status).toBe(403)
+
+    const refresh = await anonymousClient.POST('/hubspot/refresh-analytics')
+    expect(refresh.status).toBe(403)
+  })
+
+  it('lists HubSpot forms from the mock HubSpot server', async () => {
+    const response = await restClient.GET('/hubspot/forms')
+    expect(response.status).toBe(200)
+
+    const forms = await response.json()
+    expect(forms).toHaveLength(3)
+    expect(forms).toContainEqual(
+      expect.objectContaining({
+        name: 'Newsletter Signup',
+        isTracked: true,
+      }),
+    )
+  })
+
+  it('records an analytics snapshot when analytics are refreshed', async () => {
+    const response = await restClient.POST(
+      '/hubspot/refresh-analytics/7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+    )
+    expect(response.status).toBe(202)
+
+    // The progress stream reports the form, then ends once the job is done
+    const { jobId } = await response.json()
+    const progress = await restClient.GET(`/hubspot/refresh-analytics/jobs/${jobId}`, {
+      headers: { Accept: 'text/event-stream' },
+    })
+    const events = await progress.text()
+    expect(events).toContain('event: form')
+    expect(events).toContain('"formId":"7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02"')
+    expect(events).toContain('event: done')
+
+    const job = await restClient.GET(`/hubspot/refresh-analytics/jobs/${jobId}`)
+    expect(await job.json()).toMatchObject({ failed: 0, processed: 1, status: 'succeeded' })
+
+    const { docs: snapshots } = await payload.find({
+      collection: 'hubspot-form-analytics-snapshots',
+      where: {
+        formId: {
+          equals: '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+        },
+      },
+    })
+
+    expect(snapshots).toHaveLength(1)
+    expect(snapshots[0]).toMatchObject({
+      submissions: 612,
+      views: 5400,
+    })
+  })
+
+  it('returns the analytics history recorded by the snapshots', async () => {
+    const response = await restClient.GET(
+      '/hubspot/form-analytics/7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02/history',
+    )
+    expect(response.status).toBe(200)
+
+    const data = await response.json()
+    expect(data.history).toHaveLength(1)
+    expect(data.history[0]).toMatchObject({
+      date: new Date().toISOString().slice(0, 10),
+      submissions: 612,
+      views: 5400,
+    })
+
+    const untracked = await restClient.GET('/hubspot/form-analytics/not-a-tracked-form/history')
+    expect(untracked.status).toBe(404)
+  })
+
+  it('returns bucketed analytics for a date range', async () => {
+    const response = await restClient.GET(
+      '/hubspot/form-analytics/7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02?start=2025-01-01&end=2025-01-07&granularity=daily',
+    )
+    expect(response.status).toBe(200)
+
+    const data = await response.json()
+    expect(data.series).toHaveLength(7)
+    expect(data.series[0].date).toBe('2025-01-01')
+
+    const invalid = await restClient.GET(
+      '/hubspot/form-analytics/7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02?granularity=hourly',
+    )
+    expect(invalid.status).toBe(400)
+  })
+
+  it('streams analytics for a batch of forms', async () => {
+    const response = await restClient.POST('/hubspot/form-analytics/batch', {
+      body: JSON.stringify({
+        formGuids: ['7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02', '3f1c2a9e-6b1d-4c1e-9a57-2d0f6b8e1a01'],
+      }),
+    })
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+
+    const results = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line))
+    expect(results.map((result) => result.guid).sort()).toStrictEqual([
+      '3f1c2a9e-6b1d-4c1e-9a57-2d0f6b8e1a01',
+      '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+    ])
+    expect(results.every((result) => result.stats)).toBe(true)
+
+    const invalid = await restClient.POST('/hubspot/form-analytics/batch', {
+      body: JSON.stringify({ formGuids: [] }),
+    })
+    expect(invalid.status).toBe(400)
+  })
+
+  it('runs the queued analytics sync and records the run', async () => {
+    await payload.jobs.run({ queue: 'hubspot' })
+
+    const { docs: runs } = await payload.find({
+      collection: 'hubspot-sync-runs',
+    })
+
+    expect(runs[0]).toMatchObject({ failed: 0, status: 'succeeded', submissions: 2 })
+
+    const { docs: submissions } = await payload.find({
+      collection: 'hubspot-form-submissions',
+    })
+    expect(submissions.map((submission) => submission.email)).toStrictEqual([
+      'jordan.smith@example.com',
+      'taylor.brown@example.com',
+    ])
+
+    // The task queues its own follow-up run
+    const { totalDocs } = await payload.count({
+      collection: 'payload-jobs',
+      where: {
+        completedAt: {
+          exists: false,
+        },
+      },
+    })
+    expect(totalDocs).toBe(1)
+  })
+
+  it('only syncs submissions received since the previous sync', async () => {
+    const result = await syncFormSubmissions(payload, getPluginOptions()!)
+    expect(result).toStrictEqual({ created: 0, createdByForm: {}, failed: 0 })
+  })
+
+  it('submits tracked forms through the proxy endpoint', async () => {
+    const anonymousClient = new NextRESTClient(payload.config)
+
+    const response = await anonymousClient.POST(
+      '/hubspot/forms/7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02/submit',
+      {
+        body: JSON.stringify({
+          context: { pageName: 'Home', pageUri: 'https://example.com/' },
+          fields: { email: 'jane@example.com' },
+        }),
+      },
+    )
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ success: true })
+
+    const invalid = await anonymousClient.POST(
+      '/hubspot/forms/7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02/submit',
+      {
+        body: JSON.stringify({ fields: {} }),
+      },
+    )
+    expect(invalid.status).toBe(400)
+    expect((await invalid.json()).errors).toStrictEqual([
+      { type: 'REQUIRED', field: 'email', message: 'Email is required' },
+    ])
+  })
+
+  it('populates the HubSpot form on documents with a hubspotForm field', async () => {
+    const { docs } = await payload.find({
+      collection: 'hubspot-forms',
+      where: {
+        formId: {
+          equals: '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+        },
+      },
+    })
+
+    const post = await payload.create({
+      collection: 'posts',
+      data: {
+        hubspotForm: docs[0].id,
+      },
+    })
+
+    const response = await restClient.GET(`/posts/${post.id}`)
+    const { hubspotForm } = await response.json()
+
+    expect(hubspotForm).toMatchObject({
+      formId: '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+      portalId: '12345678',
+    })
+    expect(hubspotForm.fieldGroups[0].fields[0].name).toBe('email')
+  })
+
+  it('indexes the documents that use each form', async () => {
+    const { docs: forms } = await payload.find({
+      collection: 'hubspot-forms',
+      sort: 'createdAt',
+    })
+    const [fieldForm, blockForm] = forms
+
+    const post = await payload.create({
+      collection: 'posts',
+      data: {
+        content: {
+          root: {
+            type: 'root',
+            children: [
+              {
+                type: 'block',
+                fields: { blockType: 'hubspotForm', form: blockForm.id },
+                format: '',
+                version: 2,
+              },
+            ],
+            direction: null,
+            format: '',
+            indent: 0,
+            version: 1,
+          },
+        },
+        hubspotForm: fieldForm.id,
+      },
+    })
+
+    const findUsages = () =>
+      payload.find({
+        collection: 'hubspot-form-usages',
+        depth: 0,
+        sort: 'path',
+        where: {
+          'document.value': {
+            equals: post.id,
+          },
+        },
+      })
+
+    expect((await findUsages()).docs).toMatchObject([
+      { form: blockForm.id, path: 'content', source: 'block' },
+      { form: fieldForm.id, path: 'hubspotForm', source: 'field' },
+    ])
+
+    const { usedIn } = await payload.findByID({ id: blockForm.id, collection: 'hubspot-forms' })
+    expect(usedIn?.docs).toHaveLength(1)
+
+    await payload.update({ id: post.id, collection: 'posts', data: { hubspotForm: null } })
+    expect((await findUsages()).docs).toHaveLength(1)
+
+    await payload.delete({ id: post.id, collection: 'posts' })
+    expect((await findUsages()).totalDocs).toBe(0)
+  })
+
+  it('accepts signed HubSpot webhooks and rejects unsigned ones', async () => {
+    const body = JSON.stringify([
+      {
+        eventId: 1,
+        objectId: 101,
+        occurredAt: Date.now(),
+        portalId: 12345678,
+        propertyName: 'num_conversion_events',
+        propertyValue: '3',
+        subscriptionType: 'contact.propertyChange',
+      },
+    ])
+    const timestamp = String(Date.now())
+    const signature = createHmac('sha256', 'mock-client-secret')
+      .update(`POSThttp://localhost:3000/api/hubspot/webhooks${body}${timestamp}`)
+      .digest('base64')
+
+    const unsigned = await restClient.POST('/hubspot/webhooks', { body })
+    expect(unsigned.status).toBe(401)
+
+    const response = await restClient.POST('/hubspot/webhooks', {
+      body,
+      headers: {
+        'X-HubSpot-Request-Timestamp': timestamp,
+        'X-HubSpot-Signature-v3': signature,
+      },
+    })
+    expect(response.status).toBe(200)
+    expect((await response.json()).received).toBe(1)
+  })
+
+  it('connects and disconnects a portal through the OAuth flow', async () => {
+    const install = await restClient.GET('/hubspot/oauth/install')
+    expect(install.status).toBe(302)
+    const cookie = String(install.headers.get('Set-Cookie')).split(';')[0]
+
+    // The mock install page approves right away and redirects back with a code
+    const authorize = await fetch(String(install.headers.get('Location')), { redirect: 'manual' })
+    const callbackUrl = new URL(String(authorize.headers.get('Location')))
+
+    const forged = await restClient.GET(
+      `/hubspot/oauth/callback?code=mock-auth-code&state=forged`,
+      { headers: { Cookie: cookie } },
+    )
+    expect(forged.status).toBe(400)
+
+    const callback = await restClient.GET(`/hubspot/oauth/callback${callbackUrl.search}`, {
+      headers: { Cookie: cookie },
+    })
+    expect(callback.status).toBe(302)
+
+    const connection = await payload.findGlobal({ slug: 'hubspot-connection' })
+    expect(connection.portalId).toBe('12345678')
+    expect(connection.hubDomain).toBe('mock-portal.hubspot.com')
+    expect(connection.accessToken).not.toMatch(/^mock-access-token/)
+
+    const disconnect = await restClient.POST('/hubspot/oauth/disconnect')
+    expect(disconnect.status).toBe(200)
+    expect((await payload.findGlobal({ slug: 'hubspot-connection' })).portalId).toBeFalsy()
+  })
 })
@@ -0,0 +1,71 @@
+import { toHubSpotFormEmbed, toHubSpotFormEmbedHTML } from '../src/lexical/embed.js'
+
+const form = {
+  id: 1,
+  name: 'Contact',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  formId: 'form-1',
+  portalId: '12345678',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+}
+
+describe('HubSpot form block embed', () => {
+  it('returns null when the form is not populated', () => {
+    expect(toHubSpotFormEmbed({ blockType: 'hubspotForm', form: 1 })).toBeNull()
+    expect(
+      toHubSpotFormEmbed({ blockType: 'hubspotForm', form: { ...form, portalId: undefined } }),
+    ).toBeNull()
+  })
+
+  it('builds embed options from the block fields', () => {
+    expect(
+      toHubSpotFormEmbed(
+        {
+          blockType: 'hubspotForm',
+          className: 'contact-form',
+          form,
+          inlineMessage: 'Thanks!',
+        },
+        { region: 'eu1' },
+      ),
+    ).toStrictEqual({
+      cssClass: 'contact-form',
+      formId: 'form-1',
+      inlineMessage: 'Thanks!',
+      portalId: '12345678',
+      redirectUrl: undefined,
+      region: 'eu1',
+    })
+  })
+
+  it('prefers the redirect URL over the thank-you message', () => {
+    const embed = toHubSpotFormEmbed({
+      blockType: 'hubspotForm',
+      form,
+      inlineMessage: 'Thanks!',
+      redirectUrl: 'https://example.com/thanks',
+    })
+
+    expect(embed?.inlineMessage).toBeUndefined()
+    expect(embed?.redirectUrl).toBe('https://example.com/thanks')
+    expect(embed?.region).toBe('na1')
+  })
+
+  it('renders escaped embed markup', () => {
+    const html = toHubSpotFormEmbedHTML(
+      {
+        cssClass: '"><script>',
+        formId: 'form-1',
+        inlineMessage: '</script><script>alert(1)</script>',
+        portalId: '12345678',
+        region: 'na1',
+      },
+      'hubspot-form-1',
+    )
+
+    expect(html).toContain('class="hubspot-form &quot;>&lt;script>"')
+    expect(html).toContain('id="hubspot-form-1"')
+    expect(html).toContain('"target":"#hubspot-form-1"')
+    expect(html).not.toContain('</script><script>alert(1)')
+  })
+})
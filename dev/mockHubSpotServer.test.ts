@@ -0,0 +1,192 @@
+import type { MockHubSpotServer } from '../src/mock/mockHubSpotServer.js'
+
+import { startMockHubSpotServer } from '../src/mock/mockHubSpotServer.js'
+import { getFormFieldGroups } from '../src/utils/formFields.js'
+import { HubSpotClient } from '../src/utils/hubspotClient.js'
+import {
+  HubSpotAuthError,
+  HubSpotNotFoundError,
+  HubSpotValidationError,
+} from '../src/utils/hubspotErrors.js'
+import { requestOAuthTokens } from '../src/utils/oauth.js'
+
+describe('Mock HubSpot server', () => {
+  let mock: MockHubSpotServer
+  let client: HubSpotClient
+
+  beforeAll(async () => {
+    mock = await startMockHubSpotServer()
+    client = new HubSpotClient({ apiKey: 'mock-api-key', baseUrl: mock.url })
+  })
+
+  afterAll(async () => {
+    await mock.close()
+  })
+
+  it('should serve forms from fixtures', async () => {
+    const forms = await client.listForms()
+    expect(forms).toHaveLength(3)
+
+    const form = await client.getForm(forms[0].guid)
+    expect(form.name).toBe(forms[0].name)
+  })
+
+  it('should serve the legacy v2 forms API', async () => {
+    const v2Client = new HubSpotClient({
+      apiKey: 'mock-api-key',
+      baseUrl: mock.url,
+      formsApi: 'v2',
+    })
+    const forms = await v2Client.listForms()
+
+    expect(forms.map((form) => form.guid)).toEqual(
+      (await client.listForms()).map((form) => form.guid),
+    )
+  })
+
+  it('should serve the same field definitions on v2 and v3', async () => {
+    const v2Client = new HubSpotClient({
+      apiKey: 'mock-api-key',
+      baseUrl: mock.url,
+      formsApi: 'v2',
+    })
+    const v2Groups = getFormFieldGroups(
+      await v2Client.getForm('c9d8e7f6-a5b4-4c3d-2e1f-0a9b8c7d6e03'),
+    )
+    const v3Groups = getFormFieldGroups(
+      await client.getForm('c9d8e7f6-a5b4-4c3d-2e1f-0a9b8c7d6e03'),
+    )
+
+    expect(v3Groups.map((group) => group.fields.map((field) => field.name))).toStrictEqual(
+      v2Groups.map((group) => group.fields.map((field) => field.name)),
+    )
+
+    const teamSize = v3Groups[0].fields.find((field) => field.name === 'team_size')
+    expect(teamSize?.options).toHaveLength(3)
+    expect(teamSize?.dependentFields[0].field.name).toBe('annual_budget')
+    expect(v3Groups[0].fields[0].validation).toMatchObject({ useDefaultBlockList: true })
+  })
+
+  it('should page through v3 forms with cursors', async () => {
+    const response = await fetch(`${mock.url}/marketing/v3/forms?limit=2`, {
+      headers: { Authorization: 'Bearer mock-api-key' },
+    })
+    const page = await response.json()
+
+    expect(page.results).toHaveLength(2)
+    expect(page.paging.next.after).toBe('2')
+  })
+
+  it('should serve form analytics from fixtures', async () => {
+    const analytics = await client.getFormAnalytics('7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02')
+    expect(analytics.totals?.formViews).toBe(5400)
+  })
+
+  it('should serve bucketed form analytics reports for a date range', async () => {
+    const range = { end: '2025-01-31', start: '2025-01-01' }
+    const daily = await client.getFormAnalyticsReport(
+      '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+      'daily',
+      range,
+    )
+    const monthly = await client.getFormAnalyticsReport(
+      '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+      'monthly',
+      range,
+    )
+
+    expect(Object.keys(daily)).toHaveLength(31)
+    expect(Object.keys(monthly)).toEqual(['2025-01-01'])
+    expect(monthly['2025-01-01'][0]).toMatchObject({
+      breakdown: '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02',
+      formViews: 5400,
+    })
+  })
+
+  it('should page through form submissions newest first', async () => {
+    const first = await client.getFormSubmissions('3f1c2a9e-6b1d-4c1e-9a57-2d0f6b8e1a01')
+    expect(first.results).toHaveLength(3)
+    expect(first.results[0].submittedAt).toBeGreaterThan(first.results[1].submittedAt)
+
+    const response = await fetch(
+      `${mock.url}/form-integrations/v1/submissions/forms/3f1c2a9e-6b1d-4c1e-9a57-2d0f6b8e1a01?limit=2`,
+      { headers: { Authorization: 'Bearer mock-api-key' } },
+    )
+    const page = await response.json()
+    expect(page.results).toHaveLength(2)
+    expect(page.paging.next.after).toBe('2')
+  })
+
+  it('should accept form submissions and reject invalid emails', async () => {
+    const result = await client.submitForm('12345678', '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02', {
+      fields: [{ name: 'email', value: 'jane@example.com' }],
+    })
+    expect(result.inlineMessage).toBeDefined()
+
+    const error = await client
+      .submitForm('12345678', '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02', {
+        fields: [{ name: 'email', value: 'jane@example' }],
+      })
+      .catch((error: unknown) => error)
+    expect(error).toBeInstanceOf(HubSpotValidationError)
+    expect((error as HubSpotValidationError).errors[0].errorType).toBe('INVALID_EMAIL')
+  })
+
+  it('should respond like HubSpot for unknown forms and missing credentials', async () => {
+    await expect(client.getForm('unknown')).rejects.toBeInstanceOf(HubSpotNotFoundError)
+
+    const response = await fetch(`${mock.url}/forms/v2/forms`)
+    expect(response.status).toBe(401)
+    await expect(
+      new HubSpotClient({ apiKey: '', baseUrl: mock.url }).listForms(),
+    ).rejects.toBeInstanceOf(HubSpotAuthError)
+  })
+
+  it('should exchange and refresh OAuth tokens', async () => {
+    const oauth = { clientId: 'mock-client-id', clientSecret: 'mock-client-secret' }
+    const tokens = await requestOAuthTokens(
+      { baseUrl: mock.url, oauth },
+      { code: 'mock-auth-code', grant_type: 'authorization_code' },
+    )
+    expect(tokens.accessToken).toMatch(/^mock-access-token-/)
+    expect(tokens.expiresAt).toBeGreaterThan(Date.now())
+
+    const refreshed = await requestOAuthTokens(
+      { baseUrl: mock.url, oauth },
+      { grant_type: 'refresh_token', refresh_token: tokens.refreshToken },
+    )
+    expect(refreshed.refreshToken).toBe(tokens.refreshToken)
+
+    await expect(
+      requestOAuthTokens(
+        { baseUrl: mock.url, oauth },
+        { code: 'wrong-code', grant_type: 'authorization_code' },
+      ),
+    ).rejects.toBeInstanceOf(HubSpotAuthError)
+
+    const oauthClient = new HubSpotClient({
+      baseUrl: mock.url,
+      getAccessToken: () => Promise.resolve(tokens.accessToken),
+    })
+    await expect(oauthClient.listForms()).resolves.toHaveLength(3)
+  })
+  it('should reject installs without a valid redirect URI', async () => {
+    const missing = await fetch(`${mock.url}/oauth/authorize?state=abc`, { redirect: 'manual' })
+    expect(missing.status).toBe(400)
+
+    const approved = await fetch(
+      `${mock.url}/oauth/authorize?state=abc&redirect_uri=${encodeURIComponent('https://example.com/callback')}`,
+      { redirect: 'manual' },
+    )
+    expect(approved.status).toBe(302)
+    expect(approved.headers.get('location')).toBe(
+      'https://example.com/callback?code=mock-auth-code&state=abc',
+    )
+  })
+
+  it('should reject when the port is already in use', async () => {
+    const port = Number(new URL(mock.url).port)
+
+    await expect(startMockHubSpotServer({ port })).rejects.toMatchObject({ code: 'EADDRINUSE' })
+  })
+})
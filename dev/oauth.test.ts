@@ -0,0 +1,34 @@
+import type { Payload } from 'payload'
+
+import { resolvePortalId } from '../src/utils/oauth.js'
+
+const createPayload = (portalId: null | string) =>
+  ({
+    findGlobal: jest.fn().mockResolvedValue({ portalId }),
+  }) as unknown as { findGlobal: jest.Mock } & Payload
+
+describe('Portal ID resolution', () => {
+  it('should prefer the configured portal ID', async () => {
+    const payload = createPayload('999')
+
+    await expect(resolvePortalId(payload, { oauth: {}, portalId: '12345678' })).resolves.toBe(
+      '12345678',
+    )
+    expect(payload.findGlobal).not.toHaveBeenCalled()
+  })
+
+  it('should fall back to the portal connected through OAuth', async () => {
+    const payload = createPayload('87654321')
+
+    await expect(resolvePortalId(payload, { oauth: {} })).resolves.toBe('87654321')
+    await expect(resolvePortalId(payload, { oauth: {} })).resolves.toBe('87654321')
+    expect(payload.findGlobal).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not read the connection without OAuth', async () => {
+    const payload = createPayload('87654321')
+
+    await expect(resolvePortalId(payload, {})).resolves.toBeUndefined()
+    expect(payload.findGlobal).not.toHaveBeenCalled()
+  })
+})
@@ -70,17 +70,35 @@ export interface Config {
     posts: Post
     media: Media
     'hubspot-forms': HubspotForm
+    'hubspot-form-analytics-snapshots': HubspotFormAnalyticsSnapshot
+    'hubspot-form-submissions': HubspotFormSubmission
+    'hubspot-sync-runs': HubspotSyncRun
+    'hubspot-form-usages': HubspotFormUsage
     users: User
+    'payload-jobs': PayloadJob
     'payload-locked-documents': PayloadLockedDocument
     'payload-preferences': PayloadPreference
     'payload-migrations': PayloadMigration
   }
-  collectionsJoins: {}
+  collectionsJoins: {
+    'hubspot-forms': {
+      usedIn: 'hubspot-form-usages'
+    }
+  }
   collectionsSelect: {
     posts: PostsSelect<false> | PostsSelect<true>
     media: MediaSelect<false> | MediaSelect<true>
     'hubspot-forms': HubspotFormsSelect<false> | HubspotFormsSelect<true>
+    'hubspot-form-analytics-snapshots':
+      | HubspotFormAnalyticsSnapshotsSelect<false>
+      | HubspotFormAnalyticsSnapshotsSelect<true>
+    'hubspot-form-submissions':
+      | HubspotFormSubmissionsSelect<false>
+      | HubspotFormSubmissionsSelect<true>
+    'hubspot-sync-runs': HubspotSyncRunsSelect<false> | HubspotSyncRunsSelect<true>
+    'hubspot-form-usages': HubspotFormUsagesSelect<false> | HubspotFormUsagesSelect<true>
     users: UsersSelect<false> | UsersSelect<true>
+    'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>
     'payload-locked-documents':
       | PayloadLockedDocumentsSelect<false>
       | PayloadLockedDocumentsSelect<true>
@@ -90,14 +108,27 @@ export interface Config {
   db: {
     defaultIDType: string
   }
-  globals: {}
-  globalsSelect: {}
+  globals: {
+    'hubspot-connection': HubspotConnection
+  }
+  globalsSelect: {
+    'hubspot-connection': HubspotConnectionSelect<false> | HubspotConnectionSelect<true>
+  }
   locale: null
   user: User & {
     collection: 'users'
   }
   jobs: {
-    tasks: unknown
+    tasks: {
+      hubspotSyncAnalytics: TaskHubspotSyncAnalytics
+      hubspotRefreshAnalytics: TaskHubspotRefreshAnalytics
+      hubspotSyncSubmissions: TaskHubspotSyncSubmissions
+      hubspotIndexFormUsages: TaskHubspotIndexFormUsages
+      inline: {
+        input: unknown
+        output: unknown
+      }
+    }
     workflows: unknown
   }
 }
@@ -125,31 +156,142 @@ export interface UserAuthOperations {
  */
 export interface Post {
   id: string
-  /**
-   * Link this content to a HubSpot form
-   */
-  hubspotFormId?: (string | null) | HubspotForm
+  content?: {
+    root: {
+      type: string
+      children: {
+        type: string
+        version: number
+        [k: string]: unknown
+      }[]
+      direction: ('ltr' | 'rtl') | null
+      format: 'left' | 'start' | 'center' | 'right' | 'end' | 'justify' | ''
+      indent: number
+      version: number
+    }
+    [k: string]: unknown
+  } | null
+  hubspotForm?: (string | null) | HubspotForm
   updatedAt: string
   createdAt: string
 }
 /**
- * Manage your HubSpot forms
+ * Add HubSpot forms you want to track. Enter the Form ID and the name will be fetched automatically. No forms are added without your action.
  *
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "hubspot-forms".
  */
 export interface HubspotForm {
   id: string
-  name: string
+  /**
+   * Enter the HubSpot form GUID. The form name will be automatically fetched.
+   */
   formId: string
   /**
-   * Last time form fields were synced with HubSpot
+   * Form name from HubSpot (automatically fetched when you enter the Form ID)
+   */
+  name: string
+  /**
+   * Cached analytics data from HubSpot
+   */
+  analytics?: {
+    views?: number | null
+    submissions?: number | null
+    conversionRate?: number | null
+    clickThroughRate?: number | null
+    interactions?: number | null
+    submissionRate?: number | null
+    nonContactSubmissions?: number | null
+    lastUpdated?: string | null
+  }
+  /**
+   * Fields collected by this form, synced from HubSpot
+   */
+  fieldGroups?:
+    | {
+        fields?:
+          | {
+              name: string
+              label?: string | null
+              fieldType?: string | null
+              objectTypeId?: string | null
+              required?: boolean | null
+              hidden?: boolean | null
+              options?:
+                | {
+                    label?: string | null
+                    value: string
+                    id?: string | null
+                  }[]
+                | null
+              /**
+               * Validation rules as returned by HubSpot
+               */
+              validation?:
+                | {
+                    [k: string]: unknown
+                  }
+                | unknown[]
+                | string
+                | number
+                | boolean
+                | null
+              /**
+               * Fields shown when a condition on this field is met
+               */
+              dependentFields?:
+                | {
+                    [k: string]: unknown
+                  }
+                | unknown[]
+                | string
+                | number
+                | boolean
+                | null
+              id?: string | null
+            }[]
+          | null
+        id?: string | null
+      }[]
+    | null
+  portalId?: string | null
+  /**
+   * Submission time (epoch ms) of the newest synced submission
    */
-  lastSync?: string | null
+  submissionsCursor?: number | null
   /**
-   * Total number of form submissions
+   * Documents that embed this form
    */
-  submissionCount?: number | null
+  usedIn?: {
+    docs?: (string | HubspotFormUsage)[]
+    hasNextPage?: boolean
+    totalDocs?: number
+  }
+  updatedAt: string
+  createdAt: string
+}
+/**
+ * Documents that embed a HubSpot form, updated automatically when they change.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-form-usages".
+ */
+export interface HubspotFormUsage {
+  id: string
+  form: string | HubspotForm
+  document: {
+    relationTo: 'posts'
+    value: string | Post
+  }
+  /**
+   * Title of the document when it was last saved
+   */
+  title?: string | null
+  source: 'field' | 'block'
+  /**
+   * Field the form is referenced from
+   */
+  path?: string | null
   updatedAt: string
   createdAt: string
 }
@@ -171,6 +313,108 @@ export interface Media {
   focalX?: number | null
   focalY?: number | null
 }
+/**
+ * Historical analytics captured from HubSpot each time form analytics are synced.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-form-analytics-snapshots".
+ */
+export interface HubspotFormAnalyticsSnapshot {
+  id: string
+  form: string | HubspotForm
+  /**
+   * HubSpot form GUID at the time of the snapshot
+   */
+  formId: string
+  date: string
+  views?: number | null
+  submissions?: number | null
+  interactions?: number | null
+  nonContactSubmissions?: number | null
+  conversionRate?: number | null
+  clickThroughRate?: number | null
+  submissionRate?: number | null
+  updatedAt: string
+  createdAt: string
+}
+/**
+ * Form submissions synced from HubSpot.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-form-submissions".
+ */
+export interface HubspotFormSubmission {
+  id: string
+  form: string | HubspotForm
+  formId: string
+  /**
+   * HubSpot submission ID
+   */
+  conversionId: string
+  submittedAt: string
+  email?: string | null
+  /**
+   * Page the form was submitted from
+   */
+  pageUrl?: string | null
+  values?:
+    | {
+        name: string
+        value?: string | null
+        id?: string | null
+      }[]
+    | null
+  updatedAt: string
+  createdAt: string
+}
+/**
+ * Outcome of each HubSpot analytics sync and refresh.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-sync-runs".
+ */
+export interface HubspotSyncRun {
+  id: string
+  status: 'running' | 'succeeded' | 'partial' | 'failed'
+  trigger?: ('schedule' | 'refresh') | null
+  /**
+   * Tenants a refresh covers, every tenant when empty
+   */
+  tenants?: string[] | null
+  startedAt: string
+  finishedAt?: string | null
+  /**
+   * Forms whose analytics were updated
+   */
+  processed?: number | null
+  /**
+   * Forms whose analytics or submissions could not be fetched
+   */
+  failed?: number | null
+  /**
+   * Stale forms left for the next run
+   */
+  remaining?: number | null
+  /**
+   * New form submissions synced, when submissions sync is enabled
+   */
+  submissions?: number | null
+  /**
+   * Outcome per form of refreshes, in the order the forms finished
+   */
+  results?:
+    | {
+        [k: string]: unknown
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null
+  error?: string | null
+  updatedAt: string
+  createdAt: string
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "users".
@@ -188,6 +432,111 @@ export interface User {
   lockUntil?: string | null
   password?: string | null
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs".
+ */
+export interface PayloadJob {
+  id: string
+  /**
+   * Input data provided to the job
+   */
+  input?:
+    | {
+        [k: string]: unknown
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null
+  taskStatus?:
+    | {
+        [k: string]: unknown
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null
+  completedAt?: string | null
+  totalTried?: number | null
+  /**
+   * If hasError is true this job will not be retried
+   */
+  hasError?: boolean | null
+  /**
+   * If hasError is true, this is the error that caused it
+   */
+  error?:
+    | {
+        [k: string]: unknown
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null
+  /**
+   * Task execution log
+   */
+  log?:
+    | {
+        executedAt: string
+        completedAt: string
+        taskSlug:
+          | 'inline'
+          | 'hubspotSyncAnalytics'
+          | 'hubspotRefreshAnalytics'
+          | 'hubspotSyncSubmissions'
+          | 'hubspotIndexFormUsages'
+        taskID: string
+        input?:
+          | {
+              [k: string]: unknown
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null
+        output?:
+          | {
+              [k: string]: unknown
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null
+        state: 'failed' | 'succeeded'
+        error?:
+          | {
+              [k: string]: unknown
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null
+        id?: string | null
+      }[]
+    | null
+  taskSlug?:
+    | (
+        | 'inline'
+        | 'hubspotSyncAnalytics'
+        | 'hubspotRefreshAnalytics'
+        | 'hubspotSyncSubmissions'
+        | 'hubspotIndexFormUsages'
+      )
+    | null
+  queue?: string | null
+  waitUntil?: string | null
+  processing?: boolean | null
+  updatedAt: string
+  createdAt: string
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents".
@@ -207,10 +556,30 @@ export interface PayloadLockedDocument {
         relationTo: 'hubspot-forms'
         value: string | HubspotForm
       } | null)
+    | ({
+        relationTo: 'hubspot-form-analytics-snapshots'
+        value: string | HubspotFormAnalyticsSnapshot
+      } | null)
+    | ({
+        relationTo: 'hubspot-form-submissions'
+        value: string | HubspotFormSubmission
+      } | null)
+    | ({
+        relationTo: 'hubspot-sync-runs'
+        value: string | HubspotSyncRun
+      } | null)
+    | ({
+        relationTo: 'hubspot-form-usages'
+        value: string | HubspotFormUsage
+      } | null)
     | ({
         relationTo: 'users'
         value: string | User
       } | null)
+    | ({
+        relationTo: 'payload-jobs'
+        value: string | PayloadJob
+      } | null)
   globalSlug?: string | null
   user: {
     relationTo: 'users'
@@ -258,7 +627,8 @@ export interface PayloadMigration {
  * via the `definition` "posts_select".
  */
 export interface PostsSelect<T extends boolean = true> {
-  hubspotFormId?: T
+  content?: T
+  hubspotForm?: T
   updatedAt?: T
   createdAt?: T
 }
@@ -284,29 +654,122 @@ export interface MediaSelect<T extends boolean = true> {
  * via the `definition` "hubspot-forms_select".
  */
 export interface HubspotFormsSelect<T extends boolean = true> {
-  name?: T
   formId?: T
-  status?: T
-  fields?:
+  name?: T
+  analytics?:
     | T
     | {
-        name?: T
-        label?: T
-        type?: T
-        required?: T
+        views?: T
+        submissions?: T
+        conversionRate?: T
+        clickThroughRate?: T
+        interactions?: T
+        submissionRate?: T
+        nonContactSubmissions?: T
+        lastUpdated?: T
+      }
+  fieldGroups?:
+    | T
+    | {
+        fields?:
+          | T
+          | {
+              name?: T
+              label?: T
+              fieldType?: T
+              objectTypeId?: T
+              required?: T
+              hidden?: T
+              options?:
+                | T
+                | {
+                    label?: T
+                    value?: T
+                    id?: T
+                  }
+              validation?: T
+              dependentFields?: T
+              id?: T
+            }
         id?: T
       }
-  lastSync?: T
-  submissionCount?: T
-  settings?:
+  portalId?: T
+  submissionsCursor?: T
+  usedIn?: T
+  updatedAt?: T
+  createdAt?: T
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-form-analytics-snapshots_select".
+ */
+export interface HubspotFormAnalyticsSnapshotsSelect<T extends boolean = true> {
+  form?: T
+  formId?: T
+  date?: T
+  views?: T
+  submissions?: T
+  interactions?: T
+  nonContactSubmissions?: T
+  conversionRate?: T
+  clickThroughRate?: T
+  submissionRate?: T
+  updatedAt?: T
+  createdAt?: T
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-form-submissions_select".
+ */
+export interface HubspotFormSubmissionsSelect<T extends boolean = true> {
+  form?: T
+  formId?: T
+  conversionId?: T
+  submittedAt?: T
+  email?: T
+  pageUrl?: T
+  values?:
     | T
     | {
-        redirectUrl?: T
-        notificationEmail?: T
+        name?: T
+        value?: T
+        id?: T
       }
   updatedAt?: T
   createdAt?: T
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-sync-runs_select".
+ */
+export interface HubspotSyncRunsSelect<T extends boolean = true> {
+  status?: T
+  trigger?: T
+  tenants?: T
+  startedAt?: T
+  finishedAt?: T
+  processed?: T
+  failed?: T
+  remaining?: T
+  submissions?: T
+  results?: T
+  error?: T
+  updatedAt?: T
+  createdAt?: T
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-form-usages_select".
+ */
+export interface HubspotFormUsagesSelect<T extends boolean = true> {
+  form?: T
+  document?: T
+  title?: T
+  source?: T
+  path?: T
+  updatedAt?: T
+  createdAt?: T
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "users_select".
@@ -322,6 +785,37 @@ export interface UsersSelect<T extends boolean = true> {
   loginAttempts?: T
   lockUntil?: T
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs_select".
+ */
+export interface PayloadJobsSelect<T extends boolean = true> {
+  input?: T
+  taskStatus?: T
+  completedAt?: T
+  totalTried?: T
+  hasError?: T
+  error?: T
+  log?:
+    | T
+    | {
+        executedAt?: T
+        completedAt?: T
+        taskSlug?: T
+        taskID?: T
+        input?: T
+        output?: T
+        state?: T
+        error?: T
+        id?: T
+      }
+  taskSlug?: T
+  queue?: T
+  waitUntil?: T
+  processing?: T
+  updatedAt?: T
+  createdAt?: T
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-locked-documents_select".
@@ -354,6 +848,121 @@ export interface PayloadMigrationsSelect<T extends boolean = true> {
   updatedAt?: T
   createdAt?: T
 }
+/**
+ * HubSpot portal connected through the HubSpot app.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-connection".
+ */
+export interface HubspotConnection {
+  id: string
+  portalId?: string | null
+  hubDomain?: string | null
+  /**
+   * HubSpot user who connected the portal
+   */
+  connectedBy?: string | null
+  connectedAt?: string | null
+  scopes?: string[] | null
+  accessToken?: string | null
+  refreshToken?: string | null
+  /**
+   * Access token expiry (epoch ms)
+   */
+  expiresAt?: number | null
+  updatedAt?: string | null
+  createdAt?: string | null
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "hubspot-connection_select".
+ */
+export interface HubspotConnectionSelect<T extends boolean = true> {
+  portalId?: T
+  hubDomain?: T
+  connectedBy?: T
+  connectedAt?: T
+  scopes?: T
+  accessToken?: T
+  refreshToken?: T
+  expiresAt?: T
+  updatedAt?: T
+  createdAt?: T
+  globalType?: T
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskHubspotSyncAnalytics".
+ */
+export interface TaskHubspotSyncAnalytics {
+  input: {
+    forceRefresh?: boolean | null
+  }
+  output: {
+    processed: number
+    failed: number
+    remaining: number
+    submissions?: number | null
+  }
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskHubspotRefreshAnalytics".
+ */
+export interface TaskHubspotRefreshAnalytics {
+  input: {
+    formId?: string | null
+    portal?: string | null
+    run?: (string | null) | HubspotSyncRun
+    tenants?: string[] | null
+  }
+  output: {
+    processed: number
+    failed: number
+  }
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskHubspotSyncSubmissions".
+ */
+export interface TaskHubspotSyncSubmissions {
+  input: {
+    portal?: string | null
+  }
+  output: {
+    submissions: number
+    failed: number
+  }
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskHubspotIndexFormUsages".
+ */
+export interface TaskHubspotIndexFormUsages {
+  input?: unknown
+  output: {
+    documents: number
+  }
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "HubSpotFormBlock".
+ */
+export interface HubSpotFormBlock {
+  form: string | HubspotForm
+  /**
+   * Send visitors to this URL after they submit the form
+   */
+  redirectUrl?: string | null
+  /**
+   * Shown in place of the form after it is submitted, unless a redirect URL is set
+   */
+  inlineMessage?: string | null
+  className?: string | null
+  id?: string | null
+  blockName?: string | null
+  blockType: 'hubspotForm'
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
@@ -3,6 +3,8 @@ import { lexicalEditor } from '@payloadcms/richtext-lexical'
 import path from 'path'
 import { buildConfig } from 'payload'
 import { payloadHubspot } from 'payload-hubspot'
+import { HubSpotFormFeature } from 'payload-hubspot/lexical'
+import { startMockHubSpotServer } from 'payload-hubspot/mock'
 import sharp from 'sharp'
 import { fileURLToPath } from 'url'
 
@@ -17,6 +19,12 @@ if (!process.env.ROOT_DIR) {
   process.env.ROOT_DIR = dirname
 }
 
+// Serve HubSpot from local fixtures unless a real portal key is configured
+const hubspotMock =
+  !process.env.HUBSPOT_API_KEY || process.env.HUBSPOT_MOCK === 'true'
+    ? await startMockHubSpotServer()
+    : undefined
+
 export default buildConfig({
   admin: {
     autoLogin: devUser,
@@ -27,7 +35,12 @@ export default buildConfig({
   collections: [
     {
       slug: 'posts',
-      fields: [],
+      fields: [
+        {
+          name: 'content',
+          type: 'richText',
+        },
+      ],
     },
     {
       slug: 'media',
@@ -40,14 +53,29 @@ export default buildConfig({
   db: mongooseAdapter({
     url: process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017/payload-hubspot',
   }),
-  editor: lexicalEditor(),
+  editor: lexicalEditor({
+    features: ({ defaultFeatures }) => [...defaultFeatures, HubSpotFormFeature()],
+  }),
   email: testEmailAdapter,
   onInit: async (payload) => {
     await seed(payload)
   },
   plugins: [
     payloadHubspot({
-      apiKey: process.env.HUBSPOT_API_KEY,
+      apiKey: hubspotMock ? 'mock-api-key' : process.env.HUBSPOT_API_KEY,
+      baseUrl: hubspotMock?.url,
+      collections: {
+        posts: true,
+      },
+      oauth: {
+        clientId: hubspotMock ? 'mock-client-id' : process.env.HUBSPOT_CLIENT_ID,
+        clientSecret: hubspotMock ? 'mock-client-secret' : process.env.HUBSPOT_CLIENT_SECRET,
+      },
+      portalId: hubspotMock ? '12345678' : process.env.HUBSPOT_PORTAL_ID,
+      submissions: true,
+      webhooks: {
+        clientSecret: hubspotMock ? 'mock-client-secret' : process.env.HUBSPOT_CLIENT_SECRET,
+      },
     }),
   ],
   secret: process.env.PAYLOAD_SECRET || 'test-secret_key',
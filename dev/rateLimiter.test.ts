@@ -0,0 +1,105 @@
+import { HubSpotClient } from '../src/utils/hubspotClient.js'
+import { HubSpotRateLimitError } from '../src/utils/hubspotErrors.js'
+import { getRateLimiter, HubSpotRateLimiter } from '../src/utils/rateLimiter.js'
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+// Mock console methods
+jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+describe('HubSpotRateLimiter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: new Date('2025-01-01T12:00:00Z') })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it("should share a portal's limiter until its budgets change", () => {
+    const limiter = getRateLimiter('limiter-test-portal', { burst: 10 })
+
+    expect(getRateLimiter('limiter-test-portal', { burst: 10 })).toBe(limiter)
+    expect(getRateLimiter('other-test-portal', { burst: 10 })).not.toBe(limiter)
+
+    const updated = getRateLimiter('limiter-test-portal', { burst: 20 })
+    expect(updated).not.toBe(limiter)
+    expect(getRateLimiter('limiter-test-portal', { burst: 20 })).toBe(updated)
+  })
+
+  it('should wait for the burst budget to refill', async () => {
+    const limiter = new HubSpotRateLimiter({ burst: 2, burstInterval: 1000 })
+    const started: number[] = []
+
+    const requests = [1, 2, 3].map(async (request) => {
+      const release = await limiter.acquire()
+      started.push(request)
+      release()
+    })
+
+    await jest.advanceTimersByTimeAsync(0)
+    expect(started).toStrictEqual([1, 2])
+
+    await jest.advanceTimersByTimeAsync(500)
+    await Promise.all(requests)
+    expect(started).toStrictEqual([1, 2, 3])
+  })
+
+  it('should run no more requests at once than the concurrency allows', async () => {
+    const limiter = new HubSpotRateLimiter({ concurrency: 1 })
+
+    const first = await limiter.acquire()
+    let secondStarted = false
+    const second = limiter.acquire().then(() => {
+      secondStarted = true
+    })
+
+    await jest.advanceTimersByTimeAsync(0)
+    expect(secondStarted).toBe(false)
+
+    first()
+    await second
+    expect(secondStarted).toBe(true)
+  })
+
+  it('should follow the budgets reported by HubSpot', async () => {
+    const limiter = new HubSpotRateLimiter()
+    limiter.update(
+      new Headers({
+        'X-HubSpot-RateLimit-Daily': '250000',
+        'X-HubSpot-RateLimit-Daily-Remaining': '0',
+      }),
+    )
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(HubSpotRateLimitError)
+  })
+
+  it('should hold back every request after a 429', async () => {
+    const limiter = new HubSpotRateLimiter()
+    const client = new HubSpotClient({ apiKey: 'test-api-key', rateLimiter: limiter })
+    mockFetch
+      .mockResolvedValueOnce(new Response('{}', { headers: { 'Retry-After': '2' }, status: 429 }))
+      .mockImplementation(() =>
+        Promise.resolve(
+          new Response(JSON.stringify({ id: 'abc', name: 'Test Form' }), {
+            headers: {
+              'Content-Type': 'application/json',
+              'X-HubSpot-RateLimit-Interval-Milliseconds': '10000',
+              'X-HubSpot-RateLimit-Remaining': '99',
+            },
+            status: 200,
+          }),
+        ),
+      )
+
+    const form = client.getForm('abc')
+    await jest.advanceTimersByTimeAsync(0)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+
+    await jest.advanceTimersByTimeAsync(2000)
+    await expect(form).resolves.toMatchObject({ guid: 'abc' })
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,247 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import type { PayloadHubspotConfig } from '../src/index.js'
+import type { RefreshAnalyticsTaskIO } from '../src/tasks/refreshAnalyticsTask.js'
+
+import { createRefreshAnalyticsTask } from '../src/tasks/refreshAnalyticsTask.js'
+import { refreshJobHandler, startAnalyticsRefresh } from '../src/utils/refreshJobs.js'
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+// Mock console methods
+jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+const formId = '7a4b9c2d-1e3f-4a5b-8c6d-0e1f2a3b4c02'
+
+// Local API backed by an in-memory list of sync runs, queued jobs run the refresh task
+const createPayload = (pluginOptions: PayloadHubspotConfig = { apiKey: 'test-api-key' }) => {
+  const runs = new Map<string, Record<string, unknown>>()
+  const jobs = new Map<string, RefreshAnalyticsTaskIO['input']>()
+  const task = createRefreshAnalyticsTask(pluginOptions)
+
+  const payload = {
+    create: jest.fn(({ collection, data }) => {
+      const doc = { ...data, id: String(runs.size + 1) }
+      if (collection === 'hubspot-sync-runs') {
+        runs.set(doc.id, doc)
+      }
+      return Promise.resolve(doc)
+    }),
+    find: jest.fn(() =>
+      Promise.resolve({ docs: [{ id: 'form-1', name: 'Contact Us', analytics: {}, formId }] }),
+    ),
+    findByID: jest.fn(({ id }) => Promise.resolve(runs.get(id))),
+    jobs: {
+      queue: jest.fn(({ input }: { input: RefreshAnalyticsTaskIO['input'] }) => {
+        const id = `job-${jobs.size + 1}`
+        jobs.set(id, input)
+        return Promise.resolve({ id, input })
+      }),
+      runByID: jest.fn(async ({ id }: { id: string }) => {
+        if (typeof task.handler === 'function') {
+          await task.handler({
+            input: jobs.get(id),
+            req: { payload },
+          } as unknown as Parameters<typeof task.handler>[0])
+        }
+      }),
+    },
+    logger: { error: jest.fn() },
+    runs,
+    update: jest.fn(({ id, collection, data }) => {
+      if (collection === 'hubspot-sync-runs') {
+        runs.set(id, { ...runs.get(id), ...data })
+      }
+      return Promise.resolve(runs.get(id) || {})
+    }),
+  }
+
+  return payload
+}
+
+const waitForJob = async (payload: ReturnType<typeof createPayload>, id: number | string) => {
+  while (payload.runs.get(String(id))?.status === 'running') {
+    await new Promise((resolve) => setTimeout(resolve, 5))
+  }
+}
+
+const mockHubSpot = (analyticsStatus: number) =>
+  mockFetch.mockImplementation((url: string) =>
+    Promise.resolve(
+      url.includes('/analytics/')
+        ? new Response(JSON.stringify({ totals: { formViews: 5400, submissions: 612 } }), {
+            status: analyticsStatus,
+          })
+        : new Response(JSON.stringify({ id: formId, name: 'Contact Us' }), { status: 200 }),
+    ),
+  )
+
+describe('Analytics refresh jobs', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should record the outcome of each form on the job', async () => {
+    mockHubSpot(200)
+    const payload = createPayload()
+
+    const job = await startAnalyticsRefresh(
+      payload as unknown as Payload,
+      { apiKey: 'test-api-key' },
+      formId,
+    )
+    expect(job.status).toBe('running')
+    expect(payload.jobs.queue).toHaveBeenCalledWith({
+      input: { formId, run: job.id },
+      queue: 'hubspot',
+      task: 'hubspotRefreshAnalytics',
+    })
+
+    await waitForJob(payload, job.id)
+    expect(payload.runs.get(String(job.id))).toMatchObject({
+      failed: 0,
+      processed: 1,
+      results: [{ analytics: { submissions: 612, views: 5400 }, formId, status: 'succeeded' }],
+      status: 'succeeded',
+      trigger: 'refresh',
+    })
+  })
+
+  it('should stream each form and the outcome of the job', async () => {
+    mockHubSpot(404)
+    const payload = createPayload()
+
+    const job = await startAnalyticsRefresh(
+      payload as unknown as Payload,
+      { apiKey: 'test-api-key' },
+      formId,
+    )
+    await waitForJob(payload, job.id)
+
+    const response = await refreshJobHandler(
+      {
+        headers: new Headers({ Accept: 'text/event-stream' }),
+        payload,
+        routeParams: { jobId: job.id },
+      } as unknown as PayloadRequest,
+      { apiKey: 'test-api-key' },
+    )
+    const events = await response.text()
+
+    expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+    expect(events).toContain(`event: form\ndata: {"error":`)
+    expect(events).toContain('"status":"failed"')
+    expect(events).toMatch(/event: done\ndata: .*"status":"failed"/)
+  })
+
+  it('should not report on scheduled sync runs', async () => {
+    const payload = createPayload()
+    payload.runs.set('1', { id: '1', status: 'succeeded', trigger: 'schedule' })
+
+    const response = await refreshJobHandler(
+      {
+        headers: new Headers(),
+        payload,
+        routeParams: { jobId: '1' },
+      } as unknown as PayloadRequest,
+      { apiKey: 'test-api-key' },
+    )
+
+    expect(response.status).toBe(404)
+  })
+
+  it("should only report on refreshes of the user's tenants", async () => {
+    const payload = createPayload()
+    const pluginOptions = { apiKey: 'test-api-key', tenants: {} }
+    payload.runs.set('1', {
+      id: '1',
+      status: 'succeeded',
+      tenants: ['tenant-a'],
+      trigger: 'refresh',
+    })
+    payload.runs.set('2', { id: '2', status: 'succeeded', trigger: 'refresh' })
+
+    const request = (jobId: string) =>
+      refreshJobHandler(
+        {
+          headers: new Headers(),
+          payload,
+          routeParams: { jobId },
+          user: { id: 1, tenants: [{ tenant: 'tenant-a' }] },
+        } as unknown as PayloadRequest,
+        pluginOptions,
+      )
+
+    expect((await request('1')).status).toBe(200)
+    expect((await request('2')).status).toBe(404)
+  })
+
+  it('should refresh every form when refreshing all', async () => {
+    mockHubSpot(200)
+    const payload = createPayload()
+    payload.find.mockResolvedValueOnce({
+      docs: Array.from({ length: 25 }, (_, i) => ({
+        id: `form-${i}`,
+        name: `Form ${i}`,
+        analytics: {},
+        formId,
+      })),
+    })
+
+    const job = await startAnalyticsRefresh(payload as unknown as Payload, {
+      apiKey: 'test-api-key',
+    })
+    await waitForJob(payload, job.id)
+
+    expect(payload.runs.get(String(job.id))).toMatchObject({
+      processed: 25,
+      remaining: 0,
+      status: 'succeeded',
+    })
+  })
+
+  it('should record failures of the whole refresh on the job', async () => {
+    const payload = createPayload({ apiKey: 'test-api-key', tenants: {} })
+    payload.find.mockRejectedValueOnce(new Error('Database unavailable'))
+
+    const job = await startAnalyticsRefresh(
+      payload as unknown as Payload,
+      { apiKey: 'test-api-key' },
+      undefined,
+      { tenant: 'tenant-a' },
+    )
+    await waitForJob(payload, job.id)
+
+    expect(payload.runs.get(String(job.id))).toMatchObject({
+      error: 'Database unavailable',
+      status: 'failed',
+      tenants: ['tenant-a'],
+    })
+    expect(payload.logger.error).toHaveBeenCalled()
+  })
+
+  it('should report jobs that stopped making progress as failed', async () => {
+    const payload = createPayload()
+    payload.runs.set('1', {
+      id: '1',
+      status: 'running',
+      trigger: 'refresh',
+      updatedAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    })
+
+    const response = await refreshJobHandler(
+      {
+        headers: new Headers(),
+        payload,
+        routeParams: { jobId: '1' },
+      } as unknown as PayloadRequest,
+      { apiKey: 'test-api-key' },
+    )
+
+    expect(await response.json()).toMatchObject({
+      error: 'The refresh stopped before finishing',
+      status: 'failed',
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import type { Payload } from 'payload'
+
+import { syncFormSubmissions } from '../src/utils/syncFormSubmissions.js'
+
+const mockFetch = jest.fn()
+global.fetch = mockFetch
+
+// Mock console methods
+jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+const submissionsPage = (results: unknown[]) =>
+  Promise.resolve(new Response(JSON.stringify({ results }), { status: 200 }))
+
+// Local API with pages of tracked forms, submissions are counted without being stored
+const createPayload = (formPages: Record<string, unknown>[][]) => {
+  let created = 0
+
+  return {
+    create: () => {
+      created++
+      return Promise.resolve({})
+    },
+    find: jest.fn(({ collection, page = 1 }: { collection: string; page?: number }) =>
+      Promise.resolve(
+        collection === 'hubspot-forms'
+          ? { docs: formPages[page - 1] || [], hasNextPage: page < formPages.length }
+          : { docs: [] },
+      ),
+    ),
+    getCreated: () => created,
+    update: jest.fn().mockResolvedValue({}),
+  }
+}
+
+describe('Form submissions sync', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it("should save the cursor after syncing a busy form's whole history", async () => {
+    const submissions = Array.from({ length: 200_000 }, (_, i) => ({
+      conversionId: `conversion-${i}`,
+      submittedAt: 1735689600000 - i,
+      values: [],
+    }))
+    mockFetch.mockImplementation(() => submissionsPage(submissions))
+    const payload = createPayload([[{ id: 1, formId: 'busy-form' }]])
+
+    const result = await syncFormSubmissions(payload as unknown as Payload, {
+      apiKey: 'test-api-key',
+    })
+
+    expect(result).toMatchObject({ created: 200_000, failed: 0 })
+    expect(payload.update).toHaveBeenCalledWith({
+      id: 1,
+      collection: 'hubspot-forms',
+      data: { submissionsCursor: 1735689600000 },
+    })
+  })
+
+  it('should sync every page of tracked forms', async () => {
+    mockFetch.mockImplementation(() => submissionsPage([]))
+    const payload = createPayload([
+      Array.from({ length: 100 }, (_, i) => ({ id: i, formId: `form-${i}` })),
+      [{ id: 100, formId: 'form-100' }],
+    ])
+
+    const result = await syncFormSubmissions(payload as unknown as Payload, {
+      apiKey: 'test-api-key',
+    })
+
+    expect(result.failed).toBe(0)
+    expect(payload.find).toHaveBeenCalledWith(
+      expect.objectContaining({ collection: 'hubspot-forms', page: 2 }),
+    )
+    expect(mockFetch).toHaveBeenCalledTimes(101)
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      expect.stringContaining('/submissions/forms/form-100'),
+      expect.anything(),
+    )
+  })
+})
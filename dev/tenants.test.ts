@@ -0,0 +1,141 @@
+import type { Payload, PayloadRequest, TypedUser } from 'payload'
+
+import type { PayloadHubspotConfig } from '../src/index.js'
+
+import {
+  canAssignTenant,
+  getRequestTenant,
+  getTenantPortal,
+  resolveTenant,
+  tenantAccess,
+  tenantWhere,
+  validateTenantFormId,
+} from '../src/utils/tenants.js'
+
+const pluginOptions: PayloadHubspotConfig = {
+  portals: [
+    { id: '111', apiKey: 'brand-a-token' },
+    { id: '222', apiKey: 'brand-b-token' },
+  ],
+  tenants: {},
+}
+
+const editor = {
+  id: 1,
+  tenants: [{ tenant: 'tenant-a' }, { tenant: { id: 'tenant-b' } }],
+} as unknown as TypedUser
+
+describe('Tenant scoping', () => {
+  it('should limit users with tenants to their own tenants', () => {
+    expect(resolveTenant(pluginOptions, editor)).toStrictEqual(['tenant-a', 'tenant-b'])
+    expect(resolveTenant(pluginOptions, editor, 'tenant-b')).toBe('tenant-b')
+    expect(resolveTenant(pluginOptions, editor, 'tenant-c')).toBeNull()
+  })
+
+  it('should let users without tenants see every tenant', () => {
+    const admin = { id: 2 } as unknown as TypedUser
+
+    expect(resolveTenant(pluginOptions, admin)).toBeUndefined()
+    expect(resolveTenant(pluginOptions, admin, 'tenant-c')).toBe('tenant-c')
+    expect(
+      resolveTenant(
+        { ...pluginOptions, tenants: { userHasAccessToAllTenants: (user) => user.id === 1 } },
+        editor,
+        'tenant-c',
+      ),
+    ).toBe('tenant-c')
+  })
+
+  it('should read the tenant selected in the multi-tenant plugin', () => {
+    const req = {
+      headers: new Headers({ Cookie: 'payload-tenant=tenant-a' }),
+      searchParams: new URLSearchParams(),
+      user: editor,
+    } as unknown as PayloadRequest
+
+    expect(getRequestTenant(pluginOptions, req)).toBe('tenant-a')
+    expect(getRequestTenant({ ...pluginOptions, tenants: undefined }, req)).toBeUndefined()
+  })
+
+  it('should build tenant queries', () => {
+    expect(tenantWhere(pluginOptions, 'tenant-a')).toStrictEqual({
+      tenant: { equals: 'tenant-a' },
+    })
+    expect(
+      tenantWhere({ ...pluginOptions, tenants: { field: 'site' } }, ['tenant-a']),
+    ).toStrictEqual({ site: { in: ['tenant-a'] } })
+    expect(tenantWhere(pluginOptions)).toStrictEqual({})
+  })
+
+  it("should map a tenant to its portal's credentials", async () => {
+    const payload = {
+      findByID: jest.fn().mockResolvedValue({ id: 'tenant-a', hubspotPortal: '222' }),
+    } as unknown as Payload
+
+    await expect(getTenantPortal(payload, pluginOptions, 'tenant-a')).resolves.toBe('222')
+    await expect(getTenantPortal(payload, pluginOptions, ['tenant-a'])).resolves.toBeUndefined()
+    expect(payload.findByID).toHaveBeenCalledWith({
+      id: 'tenant-a',
+      collection: 'tenants',
+      depth: 0,
+    })
+  })
+  it("should limit collection access to the user's tenants", async () => {
+    const access = tenantAccess(pluginOptions, () => true)
+    const req = (user: TypedUser) => ({ req: { user } }) as unknown as Parameters<typeof access>[0]
+
+    await expect(access(req(editor))).resolves.toStrictEqual({
+      tenant: { in: ['tenant-a', 'tenant-b'] },
+    })
+    await expect(access(req({ id: 2 } as unknown as TypedUser))).resolves.toBe(true)
+    await expect(tenantAccess(pluginOptions, () => false)(req(editor))).resolves.toBe(false)
+  })
+
+  it("should limit submissions to the forms of the user's tenants", async () => {
+    const access = tenantAccess(pluginOptions, () => true, 'form')
+    const req = (user: TypedUser) => ({ req: { user } }) as unknown as Parameters<typeof access>[0]
+
+    await expect(access(req(editor))).resolves.toStrictEqual({
+      'form.tenant': { in: ['tenant-a', 'tenant-b'] },
+    })
+    await expect(access(req({ id: 2 } as unknown as TypedUser))).resolves.toBe(true)
+  })
+
+  it("should only assign forms to the user's tenants", () => {
+    expect(canAssignTenant(pluginOptions, editor, 'tenant-a')).toBe(true)
+    expect(canAssignTenant(pluginOptions, editor, { id: 'tenant-b' })).toBe(true)
+    expect(canAssignTenant(pluginOptions, editor, 'tenant-c')).toBe(false)
+    expect(canAssignTenant(pluginOptions, editor, undefined)).toBe(false)
+    expect(canAssignTenant(pluginOptions, { id: 2 } as unknown as TypedUser, 'tenant-c')).toBe(true)
+  })
+
+  it('should keep form IDs unique per tenant', async () => {
+    const count = jest.fn().mockResolvedValueOnce({ totalDocs: 1 }).mockResolvedValueOnce({
+      totalDocs: 0,
+    })
+    const validate = validateTenantFormId(pluginOptions)
+    const options = (tenant: string) =>
+      ({
+        id: 5,
+        data: { tenant },
+        req: { payload: { count } },
+        required: true,
+      }) as unknown as Parameters<typeof validate>[1]
+
+    await expect(validate('form-guid', options('tenant-a'))).resolves.toBe(
+      'This form is already tracked for this tenant.',
+    )
+    await expect(validate('form-guid', options('tenant-b'))).resolves.toBe(true)
+    expect(count).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: {
+          and: [
+            { formId: { equals: 'form-guid' } },
+            { tenant: { equals: 'tenant-b' } },
+            { id: { not_equals: 5 } },
+          ],
+        },
+      }),
+    )
+  })
+})
@@ -0,0 +1,323 @@
+import type { PayloadRequest } from 'payload'
+
+import { createHmac } from 'crypto'
+
+import type { PayloadHubspotConfig } from '../src/index.js'
+
+import { verifyHubSpotSignature, webhookHandler } from '../src/utils/webhooks.js'
+
+const clientSecret = 'test-client-secret'
+const url = 'https://example.com/api/hubspot/webhooks'
+
+const sign = (body: string, timestamp: string, signedUrl = url) =>
+  createHmac('sha256', clientSecret).update(`POST${signedUrl}${body}${timestamp}`).digest('base64')
+
+const contactCreated = {
+  eventId: 1,
+  objectId: 101,
+  occurredAt: 1735689600000,
+  portalId: 12345678,
+  subscriptionType: 'contact.creation',
+}
+
+type QueuedJob = { id: string; input: Record<string, unknown>; taskSlug: string }
+
+// Jobs queue backed by an in-memory list, finds return the waiting jobs of the queried task
+const createJobs = (jobs: QueuedJob[] = []) => ({
+  find: jest.fn(({ where }: { where: { and: [{ taskSlug: { equals: string } }] } }) =>
+    Promise.resolve({ docs: jobs.filter((job) => job.taskSlug === where.and[0].taskSlug.equals) }),
+  ),
+  jobs: {
+    queue: jest.fn(({ input, task }: { input: Record<string, unknown>; task: string }) => {
+      const job = { id: `job-${jobs.length + 1}`, input, taskSlug: task }
+      jobs.push(job)
+      return Promise.resolve(job)
+    }),
+    runByID: jest.fn(() => new Promise(() => undefined)),
+  },
+})
+
+const createRequest = (body: string, headers: Record<string, string>) => {
+  const logger = { error: jest.fn() }
+  const req = {
+    headers: new Headers(headers),
+    method: 'POST',
+    payload: { logger, ...createJobs() },
+    text: () => Promise.resolve(body),
+    url,
+  } as unknown as PayloadRequest
+  return { logger, req }
+}
+
+const signedRequest = (events: unknown) => {
+  const body = JSON.stringify(events)
+  const timestamp = String(Date.now())
+  return createRequest(body, {
+    'x-hubspot-request-timestamp': timestamp,
+    'x-hubspot-signature-v3': sign(body, timestamp),
+  })
+}
+
+describe('verifyHubSpotSignature', () => {
+  const body = JSON.stringify([contactCreated])
+  const timestamp = '1735689600000'
+
+  it('accepts a valid signature', () => {
+    expect(
+      verifyHubSpotSignature({
+        body,
+        clientSecret,
+        method: 'post',
+        now: 1735689600000 + 1000,
+        signature: sign(body, timestamp),
+        timestamp,
+        url,
+      }),
+    ).toBe(true)
+  })
+
+  it('signs the URI with the characters HubSpot decodes', () => {
+    const encodedUrl = `${url}?redirect=https%3A%2F%2Fexample.com&q=a%20b`
+    const decodedUrl = `${url}?redirect=https://example.com&q=a%20b`
+
+    expect(
+      verifyHubSpotSignature({
+        body,
+        clientSecret,
+        method: 'POST',
+        now: 1735689600000,
+        signature: sign(body, timestamp, decodedUrl),
+        timestamp,
+        url: encodedUrl,
+      }),
+    ).toBe(true)
+  })
+
+  it('rejects tampered bodies, other secrets and missing headers', () => {
+    const input = {
+      body,
+      clientSecret,
+      method: 'POST',
+      now: 1735689600000,
+      signature: sign(body, timestamp),
+      timestamp,
+      url,
+    }
+
+    expect(verifyHubSpotSignature({ ...input, body: '[]' })).toBe(false)
+    expect(verifyHubSpotSignature({ ...input, clientSecret: 'other-secret' })).toBe(false)
+    expect(verifyHubSpotSignature({ ...input, signature: null })).toBe(false)
+    expect(verifyHubSpotSignature({ ...input, timestamp: 'yesterday' })).toBe(false)
+  })
+
+  it('rejects requests older than the maximum age', () => {
+    const input = {
+      body,
+      clientSecret,
+      method: 'POST',
+      signature: sign(body, timestamp),
+      timestamp,
+      url,
+    }
+
+    expect(verifyHubSpotSignature({ ...input, now: 1735689600000 + 6 * 60 * 1000 })).toBe(false)
+    expect(
+      verifyHubSpotSignature({
+        ...input,
+        maxAge: 10 * 60 * 1000,
+        now: 1735689600000 + 6 * 60 * 1000,
+      }),
+    ).toBe(true)
+  })
+})
+
+describe('webhookHandler', () => {
+  const onHubspotEvent = jest.fn()
+  const pluginOptions: PayloadHubspotConfig = {
+    portalId: '12345678',
+    webhooks: { clientSecret, onHubspotEvent },
+  }
+
+  beforeEach(() => {
+    onHubspotEvent.mockReset()
+  })
+
+  it('rejects unsigned requests', async () => {
+    const { req } = createRequest(JSON.stringify([contactCreated]), {})
+    const response = await webhookHandler(req, pluginOptions)
+
+    expect(response.status).toBe(401)
+    expect(onHubspotEvent).not.toHaveBeenCalled()
+  })
+
+  it('passes events from the configured portal to onHubspotEvent', async () => {
+    const otherPortal = { ...contactCreated, eventId: 2, portalId: 999 }
+    const { req } = signedRequest([contactCreated, otherPortal])
+    const response = await webhookHandler(req, pluginOptions)
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).received).toBe(1)
+    expect(onHubspotEvent).toHaveBeenCalledTimes(1)
+    expect(onHubspotEvent).toHaveBeenCalledWith(contactCreated, req.payload)
+  })
+
+  it('logs handler failures without failing the request', async () => {
+    onHubspotEvent.mockRejectedValueOnce(new Error('Handler failed'))
+    const { logger, req } = signedRequest([contactCreated, { ...contactCreated, eventId: 2 }])
+    const response = await webhookHandler(req, pluginOptions)
+
+    expect(response.status).toBe(200)
+    expect(onHubspotEvent).toHaveBeenCalledTimes(2)
+    expect(logger.error).toHaveBeenCalledTimes(1)
+  })
+
+  it('queues one submissions sync per portal and responds without waiting for it', async () => {
+    const { req } = signedRequest([
+      {
+        ...contactCreated,
+        propertyName: 'num_conversion_events',
+        subscriptionType: 'contact.propertyChange',
+      },
+      {
+        ...contactCreated,
+        eventId: 2,
+        propertyName: 'num_conversion_events',
+        subscriptionType: 'contact.propertyChange',
+      },
+    ])
+
+    const response = await webhookHandler(req, { ...pluginOptions, submissions: true })
+
+    expect(response.status).toBe(200)
+    expect(req.payload.jobs.queue).toHaveBeenCalledTimes(2)
+    expect(req.payload.jobs.queue).toHaveBeenCalledWith({
+      input: {},
+      queue: 'hubspot',
+      task: 'hubspotSyncSubmissions',
+    })
+    expect(req.payload.jobs.runByID).toHaveBeenCalledWith({ id: 'job-1' })
+  })
+
+  it('does not queue another sync while one is waiting', async () => {
+    const { req } = signedRequest([
+      {
+        ...contactCreated,
+        propertyName: 'num_conversion_events',
+        subscriptionType: 'contact.propertyChange',
+      },
+    ])
+    Object.assign(
+      req.payload,
+      createJobs([
+        { id: 'job-1', input: {}, taskSlug: 'hubspotSyncSubmissions' },
+        { id: 'job-2', input: { portal: null }, taskSlug: 'hubspotRefreshAnalytics' },
+      ]),
+    )
+
+    const response = await webhookHandler(req, { ...pluginOptions, submissions: true })
+
+    expect(response.status).toBe(200)
+    expect(req.payload.jobs.queue).not.toHaveBeenCalled()
+    expect(req.payload.jobs.runByID).not.toHaveBeenCalled()
+  })
+
+  it('drops its sync when another instance queued one at the same time', async () => {
+    const { req } = signedRequest([
+      {
+        ...contactCreated,
+        propertyName: 'num_conversion_events',
+        subscriptionType: 'contact.propertyChange',
+      },
+    ])
+    const deleteJobs = jest.fn().mockResolvedValue({ docs: [] })
+    Object.assign(req.payload, {
+      delete: deleteJobs,
+      find: jest
+        .fn()
+        .mockResolvedValue({ docs: [] })
+        .mockResolvedValueOnce({ docs: [] })
+        .mockResolvedValueOnce({
+          docs: [
+            { id: 'job-2', createdAt: '2025-01-01T00:00:01.000Z', input: {} },
+            { id: 'job-1', createdAt: '2025-01-01T00:00:00.000Z', input: {} },
+          ],
+        }),
+      jobs: { queue: jest.fn().mockResolvedValue({ id: 'job-2' }), runByID: jest.fn() },
+    })
+
+    const response = await webhookHandler(req, { ...pluginOptions, submissions: true })
+
+    expect(response.status).toBe(200)
+    expect(deleteJobs).toHaveBeenCalledWith({
+      collection: 'payload-jobs',
+      where: { id: { in: ['job-2'] } },
+    })
+    expect(req.payload.jobs.runByID).not.toHaveBeenCalled()
+  })
+
+  it.each([
+    ['contact creation', contactCreated],
+    [
+      'form submission',
+      {
+        ...contactCreated,
+        propertyName: 'num_conversion_events',
+        subscriptionType: 'contact.propertyChange',
+      },
+    ],
+    [
+      'property change',
+      {
+        ...contactCreated,
+        propertyName: 'lifecyclestage',
+        subscriptionType: 'contact.propertyChange',
+      },
+    ],
+  ])('refreshes the analytics of the portal on %s events', async (_, event) => {
+    const { req } = signedRequest([event, { ...event, eventId: 2 }])
+
+    const response = await webhookHandler(req, pluginOptions)
+
+    expect(response.status).toBe(200)
+    expect(req.payload.jobs.queue).toHaveBeenCalledTimes(1)
+    expect(req.payload.jobs.queue).toHaveBeenCalledWith({
+      input: {},
+      queue: 'hubspot',
+      task: 'hubspotRefreshAnalytics',
+    })
+    expect(req.payload.jobs.runByID).toHaveBeenCalledWith({ id: 'job-1' })
+  })
+
+  it('refreshes only the portal the events came from', async () => {
+    const { req } = signedRequest([contactCreated])
+
+    await webhookHandler(req, {
+      portals: [
+        { id: '12345678', apiKey: 'brand-a-token' },
+        { id: '87654321', apiKey: 'brand-b-token' },
+      ],
+      webhooks: { clientSecret },
+    })
+
+    expect(req.payload.jobs.queue).toHaveBeenCalledWith({
+      input: { portal: '12345678' },
+      queue: 'hubspot',
+      task: 'hubspotRefreshAnalytics',
+    })
+  })
+
+  it('ignores events that cannot change form analytics', async () => {
+    const { req } = signedRequest([{ ...contactCreated, subscriptionType: 'deal.creation' }])
+
+    await webhookHandler(req, pluginOptions)
+
+    expect(req.payload.jobs.queue).not.toHaveBeenCalled()
+  })
+
+  it('requires a client secret', async () => {
+    const { req } = signedRequest([contactCreated])
+    const response = await webhookHandler(req, { webhooks: {} })
+
+    expect(response.status).toBe(500)
+  })
+})
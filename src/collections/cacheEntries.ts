@@ -0,0 +1,53 @@
+import type { CollectionConfig } from 'payload'
+
+import { isAdminUser } from '../utils/access.js'
+
+export const CACHE_ENTRIES_SLUG = 'hubspot-cache'
+
+/**
+ * HubSpot responses cached by `collectionCache()`, shared by every instance using the database.
+ */
+export const cacheEntriesCollection: CollectionConfig = {
+  slug: CACHE_ENTRIES_SLUG,
+  access: {
+    create: isAdminUser,
+    delete: isAdminUser,
+    read: isAdminUser,
+    update: isAdminUser,
+  },
+  admin: {
+    defaultColumns: ['key', 'expiresAt', 'updatedAt'],
+    description: 'HubSpot API responses cached by the plugin.',
+    group: 'Integrations',
+    hidden: true,
+    useAsTitle: 'key',
+  },
+  fields: [
+    {
+      name: 'key',
+      type: 'text',
+      index: true,
+      required: true,
+      unique: true,
+    },
+    {
+      name: 'value',
+      type: 'json',
+    },
+    {
+      name: 'expiresAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+      },
+      index: true,
+      required: true,
+    },
+  ],
+  labels: {
+    plural: 'HubSpot Cache Entries',
+    singular: 'HubSpot Cache Entry',
+  },
+}
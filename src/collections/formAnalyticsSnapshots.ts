@@ -0,0 +1,116 @@
+import type { CollectionConfig } from 'payload'
+
+import { isAdminUser } from '../utils/access.js'
+
+export const FORM_ANALYTICS_SNAPSHOTS_SLUG = 'hubspot-form-analytics-snapshots'
+
+// Dated analytics rows written on every sync, the `analytics` group on hubspot-forms only keeps the latest values
+export const formAnalyticsSnapshotsCollection: CollectionConfig = {
+  slug: FORM_ANALYTICS_SNAPSHOTS_SLUG,
+  access: {
+    create: isAdminUser,
+    delete: isAdminUser,
+    read: isAdminUser,
+    update: isAdminUser,
+  },
+  admin: {
+    defaultColumns: ['form', 'date', 'views', 'submissions', 'conversionRate'],
+    description: 'Historical analytics captured from HubSpot each time form analytics are synced.',
+    group: 'Integrations',
+  },
+  defaultSort: '-date',
+  fields: [
+    {
+      name: 'form',
+      type: 'relationship',
+      admin: {
+        readOnly: true,
+      },
+      index: true,
+      relationTo: 'hubspot-forms',
+      required: true,
+    },
+    {
+      name: 'formId',
+      type: 'text',
+      admin: {
+        description: 'HubSpot form GUID at the time of the snapshot',
+        readOnly: true,
+      },
+      index: true,
+      label: 'HubSpot Form ID',
+      required: true,
+    },
+    {
+      name: 'date',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        readOnly: true,
+      },
+      index: true,
+      required: true,
+    },
+    {
+      name: 'views',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'submissions',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'interactions',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'nonContactSubmissions',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'conversionRate',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'clickThroughRate',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'submissionRate',
+      type: 'number',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+  ],
+  labels: {
+    plural: 'HubSpot Analytics Snapshots',
+    singular: 'HubSpot Analytics Snapshot',
+  },
+}
@@ -0,0 +1,106 @@
+import type { CollectionConfig } from 'payload'
+
+import { isAdminUser } from '../utils/access.js'
+
+export const FORM_SUBMISSIONS_SLUG = 'hubspot-form-submissions'
+
+// Submissions pulled from HubSpot by the background sync, read-only copies for reviewing leads
+export const formSubmissionsCollection: CollectionConfig = {
+  slug: FORM_SUBMISSIONS_SLUG,
+  access: {
+    create: isAdminUser,
+    delete: isAdminUser,
+    read: isAdminUser,
+    update: isAdminUser,
+  },
+  admin: {
+    defaultColumns: ['email', 'form', 'submittedAt', 'pageUrl'],
+    description: 'Form submissions synced from HubSpot.',
+    group: 'Integrations',
+    listSearchableFields: ['email', 'conversionId', 'pageUrl'],
+    useAsTitle: 'email',
+  },
+  defaultSort: '-submittedAt',
+  fields: [
+    {
+      name: 'form',
+      type: 'relationship',
+      admin: {
+        readOnly: true,
+      },
+      index: true,
+      relationTo: 'hubspot-forms',
+      required: true,
+    },
+    {
+      name: 'formId',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+      index: true,
+      label: 'HubSpot Form ID',
+      required: true,
+    },
+    {
+      name: 'conversionId',
+      type: 'text',
+      admin: {
+        description: 'HubSpot submission ID',
+        readOnly: true,
+      },
+      required: true,
+      unique: true,
+    },
+    {
+      name: 'submittedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        readOnly: true,
+      },
+      index: true,
+      required: true,
+    },
+    {
+      name: 'email',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+      index: true,
+    },
+    {
+      name: 'pageUrl',
+      type: 'text',
+      admin: {
+        description: 'Page the form was submitted from',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'values',
+      type: 'array',
+      admin: {
+        readOnly: true,
+      },
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          required: true,
+        },
+        {
+          name: 'value',
+          type: 'textarea',
+        },
+      ],
+    },
+  ],
+  labels: {
+    plural: 'HubSpot Form Submissions',
+    singular: 'HubSpot Form Submission',
+  },
+}
@@ -0,0 +1,82 @@
+import type { CollectionConfig, CollectionSlug } from 'payload'
+
+import { isAdminUser } from '../utils/access.js'
+
+export const FORM_USAGES_SLUG = 'hubspot-form-usages'
+
+/**
+ * Reverse index of the documents that embed each HubSpot form, through a HubSpot form field or
+ * the rich text block. Kept up to date by hooks on the tracked collections.
+ */
+export const createFormUsagesCollection = (
+  collectionSlugs: CollectionSlug[],
+): CollectionConfig => ({
+  slug: FORM_USAGES_SLUG,
+  access: {
+    create: isAdminUser,
+    delete: isAdminUser,
+    read: isAdminUser,
+    update: isAdminUser,
+  },
+  admin: {
+    defaultColumns: ['title', 'document', 'form', 'source'],
+    description: 'Documents that embed a HubSpot form, updated automatically when they change.',
+    group: 'Integrations',
+    hidden: true,
+    useAsTitle: 'title',
+  },
+  fields: [
+    {
+      name: 'form',
+      type: 'relationship',
+      admin: {
+        readOnly: true,
+      },
+      index: true,
+      relationTo: 'hubspot-forms',
+      required: true,
+    },
+    {
+      name: 'document',
+      type: 'relationship',
+      admin: {
+        readOnly: true,
+      },
+      index: true,
+      relationTo: collectionSlugs,
+      required: true,
+    },
+    {
+      name: 'title',
+      type: 'text',
+      admin: {
+        description: 'Title of the document when it was last saved',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'source',
+      type: 'select',
+      admin: {
+        readOnly: true,
+      },
+      options: [
+        { label: 'HubSpot form field', value: 'field' },
+        { label: 'Rich text block', value: 'block' },
+      ],
+      required: true,
+    },
+    {
+      name: 'path',
+      type: 'text',
+      admin: {
+        description: 'Field the form is referenced from',
+        readOnly: true,
+      },
+    },
+  ],
+  labels: {
+    plural: 'HubSpot Form Usages',
+    singular: 'HubSpot Form Usage',
+  },
+})
@@ -0,0 +1,138 @@
+import type { CollectionConfig } from 'payload'
+
+import { isAdminUser } from '../utils/access.js'
+
+export const SYNC_RUNS_SLUG = 'hubspot-sync-runs'
+
+// One row per analytics sync run, written by the hubspotSyncAnalytics job and by dashboard refreshes
+export const syncRunsCollection: CollectionConfig = {
+  slug: SYNC_RUNS_SLUG,
+  access: {
+    create: isAdminUser,
+    delete: isAdminUser,
+    read: isAdminUser,
+    update: isAdminUser,
+  },
+  admin: {
+    defaultColumns: ['startedAt', 'trigger', 'status', 'processed', 'failed', 'remaining'],
+    description: 'Outcome of each HubSpot analytics sync and refresh.',
+    group: 'Integrations',
+    useAsTitle: 'startedAt',
+  },
+  defaultSort: '-startedAt',
+  fields: [
+    {
+      name: 'status',
+      type: 'select',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 'running',
+      options: [
+        { label: 'Running', value: 'running' },
+        { label: 'Succeeded', value: 'succeeded' },
+        { label: 'Partially failed', value: 'partial' },
+        { label: 'Failed', value: 'failed' },
+      ],
+      required: true,
+    },
+    {
+      name: 'trigger',
+      type: 'select',
+      admin: {
+        readOnly: true,
+      },
+      defaultValue: 'schedule',
+      options: [
+        { label: 'Schedule', value: 'schedule' },
+        { label: 'Refresh', value: 'refresh' },
+      ],
+    },
+    {
+      name: 'tenants',
+      type: 'text',
+      admin: {
+        description: 'Tenants a refresh covers, every tenant when empty',
+        readOnly: true,
+      },
+      hasMany: true,
+    },
+    {
+      name: 'startedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        readOnly: true,
+      },
+      index: true,
+      required: true,
+    },
+    {
+      name: 'finishedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        readOnly: true,
+      },
+    },
+    {
+      name: 'processed',
+      type: 'number',
+      admin: {
+        description: 'Forms whose analytics were updated',
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'failed',
+      type: 'number',
+      admin: {
+        description: 'Forms whose analytics or submissions could not be fetched',
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'remaining',
+      type: 'number',
+      admin: {
+        description: 'Stale forms left for the next run',
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'submissions',
+      type: 'number',
+      admin: {
+        description: 'New form submissions synced, when submissions sync is enabled',
+        readOnly: true,
+      },
+      defaultValue: 0,
+    },
+    {
+      name: 'results',
+      type: 'json',
+      admin: {
+        description: 'Outcome per form of refreshes, in the order the forms finished',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        readOnly: true,
+      },
+    },
+  ],
+  labels: {
+    plural: 'HubSpot Sync Runs',
+    singular: 'HubSpot Sync Run',
+  },
+}
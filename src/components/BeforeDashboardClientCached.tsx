@@ -1,8 +1,25 @@
 'use client'
 
+import { useSearchParams } from 'next/navigation.js'
 import React, { useEffect, useState } from 'react'
 
+import type { AnalyticsHistoryPoint } from '../utils/analyticsHistory.js'
+import type { HubSpotPortalOption } from '../utils/portals.js'
+import type { DateRange } from './DateRangePicker.js'
+import type { FormsSortField, FormsTableState } from './formsTable.js'
+
 import styles from './BeforeDashboardClient.module.css'
+import { DateRangePicker, toDateRangeQuery } from './DateRangePicker.js'
+import {
+  applyFormsTableState,
+  FORMS_PAGE_SIZE,
+  isAnalyticsStale,
+  parseFormsTableState,
+  toFormsTableParams,
+} from './formsTable.js'
+import { FormTrendPanel } from './FormTrendPanel.js'
+import { HubSpotConnectButton } from './HubSpotConnectButton.js'
+import { Sparkline, toDailyChanges } from './TrendChart.js'
 
 type HubSpotFormAnalytics = {
   clickThroughRate: number
@@ -18,21 +35,172 @@ type HubSpotFormAnalytics = {
 type HubSpotForm = {
   analytics?: HubSpotFormAnalytics
   guid: string
+  history?: AnalyticsHistoryPoint[] // Daily totals of the last 30 days, for tracked forms
   isTracked?: boolean
   name: string
+  refreshError?: string // Why the last refresh of the form failed
   refreshing?: boolean
+  usageCount?: number // Distinct documents embedding the form
+}
+
+// Outcome of one form, streamed by the refresh job
+type RefreshResult = {
+  analytics?: HubSpotFormAnalytics
+  error?: string
+  formId: string
+  status: 'failed' | 'succeeded'
+}
+
+type RefreshJobSummary = {
+  error?: string
+  status: 'failed' | 'partial' | 'running' | 'succeeded'
 }
 
 type BeforeDashboardClientCachedProps = {
   forms: HubSpotForm[]
+  portal?: string // Portal the forms belong to, when several are configured
+  portals?: HubSpotPortalOption[]
+  showConnection?: boolean // Show the HubSpot app connection, when connected through OAuth
 }
 
+const RANGE_BATCH_SIZE = 500 // Forms per batch analytics request, the endpoint's limit
+
+// Error message of a failed endpoint response
+const getErrorMessage = async (response: Response): Promise<string> => {
+  const data = (await response.json().catch(() => ({}))) as { details?: string; error?: string }
+  return data.details || data.error || `HTTP error! status: ${response.status}`
+}
+
+// Scope an endpoint URL to the selected portal
+const withPortal = (url: string, portal?: string): string =>
+  portal ? `${url}${url.includes('?') ? '&' : '?'}portal=${encodeURIComponent(portal)}` : url
+
 export const BeforeDashboardClientCached = ({
   forms: initialForms,
+  portal: initialPortal,
+  portals = [],
+  showConnection,
 }: BeforeDashboardClientCachedProps) => {
   const [forms, setForms] = useState<HubSpotForm[]>(initialForms)
+  const [portalForms, setPortalForms] = useState<HubSpotForm[]>(initialForms)
+  const [portal, setPortal] = useState(initialPortal)
+  const [portalLoading, setPortalLoading] = useState(false)
+  const [portalError, setPortalError] = useState<null | string>(null)
   const [copiedId, setCopiedId] = useState<null | string>(null)
+  const [expandedId, setExpandedId] = useState<null | string>(null)
   const [globalRefreshing, setGlobalRefreshing] = useState(false)
+  const [refreshProgress, setRefreshProgress] = useState<{ done: number; total: number } | null>(
+    null,
+  )
+  const [refreshError, setRefreshError] = useState<null | string>(null)
+  const [dateRange, setDateRange] = useState<DateRange>({ preset: 'all' })
+  const [rangeAnalytics, setRangeAnalytics] = useState<Record<string, HubSpotFormAnalytics | null>>(
+    {},
+  )
+  const [rangeLoading, setRangeLoading] = useState(false)
+  const searchParams = useSearchParams()
+  const [tableState, setTableState] = useState<FormsTableState>(() =>
+    parseFormsTableState(new URLSearchParams(searchParams?.toString())),
+  )
+
+  // Keep the search, filters, sort and page in the URL so filtered views can be shared
+  useEffect(() => {
+    const current = new URLSearchParams(window.location.search)
+    const params = toFormsTableParams(tableState, current)
+    if (params.toString() !== current.toString()) {
+      const query = params.toString()
+      window.history.replaceState(
+        window.history.state,
+        '',
+        `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`,
+      )
+    }
+  }, [tableState])
+
+  // Load analytics for the selected date range (tracked forms only), rows fill in as the batch
+  // endpoint streams them back
+  useEffect(() => {
+    const query = toDateRangeQuery(dateRange)
+    setRangeAnalytics({})
+
+    const guids = portalForms.filter((form) => form.isTracked).map((form) => form.guid)
+    if (!query || guids.length === 0) {
+      setRangeLoading(false)
+      return
+    }
+
+    let isCancelled = false
+
+    const loadBatch = async (batch: string[]) => {
+      const pending = new Set(batch)
+
+      try {
+        const response = await fetch(
+          withPortal(`/api/hubspot/form-analytics/batch${query}`, portal),
+          {
+            body: JSON.stringify({ formGuids: batch }),
+            headers: { 'Content-Type': 'application/json' },
+            method: 'POST',
+          },
+        )
+
+        if (!response.ok || !response.body) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        // One JSON line per form, a read can end in the middle of a line
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+        let buffer = ''
+
+        while (!isCancelled) {
+          const { done, value } = await reader.read()
+          if (done) {
+            break
+          }
+
+          const lines = (buffer + value).split('\n')
+          buffer = lines.pop() || ''
+
+          for (const line of lines.filter(Boolean)) {
+            const result = JSON.parse(line) as { guid: string; stats?: HubSpotFormAnalytics }
+            pending.delete(result.guid)
+            setRangeAnalytics((prev) => ({ ...prev, [result.guid]: result.stats || null }))
+          }
+        }
+
+        if (isCancelled) {
+          await reader.cancel()
+        }
+      } catch (_error) {
+        // Error loading range analytics - shown as no data
+      }
+
+      if (!isCancelled && pending.size > 0) {
+        setRangeAnalytics((prev) => ({
+          ...prev,
+          ...Object.fromEntries([...pending].map((guid) => [guid, null])),
+        }))
+      }
+    }
+
+    const loadRangeAnalytics = async () => {
+      setRangeLoading(true)
+
+      for (let i = 0; i < guids.length && !isCancelled; i += RANGE_BATCH_SIZE) {
+        await loadBatch(guids.slice(i, i + RANGE_BATCH_SIZE))
+      }
+
+      if (!isCancelled) {
+        setRangeLoading(false)
+      }
+    }
+
+    void loadRangeAnalytics()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [dateRange, portal, portalForms])
 
   // Cleanup timeout for copied ID
   useEffect(() => {
@@ -46,20 +214,30 @@ export const BeforeDashboardClientCached = ({
     return <div>No HubSpot forms available</div>
   }
 
+  // Cached all-time analytics, or the analytics loaded for the selected date range
+  const isRangeSelected = !!toDateRangeQuery(dateRange)
+  const getAnalytics = (form: HubSpotForm): HubSpotFormAnalytics | undefined =>
+    isRangeSelected ? rangeAnalytics[form.guid] || undefined : form.analytics
+
   // Calculate totals from all forms with analytics
-  const formsWithAnalytics = forms.filter((form) => form.analytics)
+  const formsWithAnalytics = forms.filter((form) => getAnalytics(form))
   const totalSubmissions = formsWithAnalytics.reduce(
-    (sum, form) => sum + (form.analytics?.submissions || 0),
+    (sum, form) => sum + (getAnalytics(form)?.submissions || 0),
+    0,
+  )
+  const totalViews = formsWithAnalytics.reduce(
+    (sum, form) => sum + (getAnalytics(form)?.views || 0),
     0,
   )
-  const totalViews = formsWithAnalytics.reduce((sum, form) => sum + (form.analytics?.views || 0), 0)
   const validConversionRates = formsWithAnalytics.filter(
-    (form) => form.analytics?.conversionRate !== undefined,
+    (form) => getAnalytics(form)?.conversionRate !== undefined,
   )
   const averageConversionRate =
     validConversionRates.length > 0
-      ? validConversionRates.reduce((sum, form) => sum + (form.analytics?.conversionRate || 0), 0) /
-        validConversionRates.length
+      ? validConversionRates.reduce(
+          (sum, form) => sum + (getAnalytics(form)?.conversionRate || 0),
+          0,
+        ) / validConversionRates.length
       : undefined
 
   const copyToClipboard = (text: string) => {
@@ -67,48 +245,122 @@ export const BeforeDashboardClientCached = ({
     setCopiedId(text)
   }
 
+  // Load the forms of a portal, replacing the ones shown
+  const loadPortalForms = async (nextPortal: string) => {
+    setPortalLoading(true)
+    setPortalError(null)
+    try {
+      const response = await fetch(withPortal('/api/hubspot/forms', nextPortal))
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      const data: Array<{ analytics: HubSpotFormAnalytics | null } & HubSpotForm> =
+        await response.json()
+      const nextForms = data.map((form) => ({ ...form, analytics: form.analytics || undefined }))
+
+      setPortal(nextPortal)
+      setPortalForms(nextForms)
+      setForms(nextForms)
+    } catch (err) {
+      setPortalError(err instanceof Error ? err.message : 'Failed to load portal forms')
+    } finally {
+      setPortalLoading(false)
+    }
+  }
+
+  // Update a row in place, keeping the table's order and scroll position
+  const updateForm = (guid: string, update: Partial<HubSpotForm>) => {
+    setForms((prevForms) =>
+      prevForms.map((form) => (form.guid === guid ? { ...form, ...update } : form)),
+    )
+  }
+
+  // Follow a refresh job's progress stream, updating each form as soon as it is refreshed
+  const followRefreshJob = (jobId: number | string) =>
+    new Promise<RefreshJobSummary>((resolve, reject) => {
+      const events = new EventSource(`/api/hubspot/refresh-analytics/jobs/${jobId}`)
+
+      events.addEventListener('form', (event) => {
+        const result = JSON.parse((event as MessageEvent<string>).data) as RefreshResult
+        updateForm(
+          result.formId,
+          result.status === 'succeeded'
+            ? { analytics: result.analytics, refreshError: undefined, refreshing: false }
+            : { refreshError: result.error || 'Refresh failed', refreshing: false },
+        )
+        setRefreshProgress((progress) => progress && { ...progress, done: progress.done + 1 })
+      })
+
+      events.addEventListener('done', (event) => {
+        events.close()
+        resolve(JSON.parse((event as MessageEvent<string>).data) as RefreshJobSummary)
+      })
+
+      events.onerror = () => {
+        events.close()
+        reject(new Error('Lost the refresh progress, reload the page to see the latest analytics'))
+      }
+    })
+
   const refreshAllAnalytics = async () => {
+    const trackedForms = forms.filter((form) => form.isTracked)
+
     setGlobalRefreshing(true)
+    setRefreshError(null)
+    setRefreshProgress({ done: 0, total: trackedForms.length })
+    setForms((prevForms) =>
+      prevForms.map((form) =>
+        form.isTracked ? { ...form, refreshError: undefined, refreshing: true } : form,
+      ),
+    )
+
     try {
-      const response = await fetch('/api/hubspot/refresh-analytics', {
+      const response = await fetch(withPortal('/api/hubspot/refresh-analytics', portal), {
         method: 'POST',
       })
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response))
+      }
 
-      if (response.ok) {
-        // Reload the page to get fresh data
-        window.location.reload()
-      } else {
-        // Failed to refresh analytics - silently handled
+      const { jobId } = await response.json()
+      const job = await followRefreshJob(jobId)
+      if (job.status === 'failed') {
+        setRefreshError(job.error || 'Failed to refresh analytics')
       }
-    } catch (_error) {
-      // Error refreshing analytics - silently handled
+    } catch (err) {
+      setRefreshError(err instanceof Error ? err.message : 'Failed to refresh analytics')
     } finally {
+      // Forms left for the next sync keep their previous analytics
+      setForms((prevForms) =>
+        prevForms.map((form) => (form.refreshing ? { ...form, refreshing: false } : form)),
+      )
+      setRefreshProgress(null)
       setGlobalRefreshing(false)
     }
   }
 
   const refreshFormAnalytics = async (formId: string) => {
-    setForms((prevForms) =>
-      prevForms.map((form) => (form.guid === formId ? { ...form, refreshing: true } : form)),
-    )
+    updateForm(formId, { refreshError: undefined, refreshing: true })
 
     try {
       const response = await fetch(`/api/hubspot/refresh-analytics/${formId}`, {
         method: 'POST',
       })
+      if (!response.ok) {
+        throw new Error(await getErrorMessage(response))
+      }
 
-      if (response.ok) {
-        // Reload the page to get fresh data
-        window.location.reload()
-      } else {
-        // Failed to refresh analytics for form - silently handled
+      const { jobId } = await response.json()
+      const job = await followRefreshJob(jobId)
+      if (job.status === 'failed') {
+        updateForm(formId, { refreshError: job.error || 'Refresh failed' })
       }
-    } catch (_error) {
-      // Error refreshing analytics for form - silently handled
+    } catch (err) {
+      updateForm(formId, {
+        refreshError: err instanceof Error ? err.message : 'Refresh failed',
+      })
     } finally {
-      setForms((prevForms) =>
-        prevForms.map((form) => (form.guid === formId ? { ...form, refreshing: false } : form)),
-      )
+      updateForm(formId, { refreshing: false })
     }
   }
 
@@ -132,35 +384,79 @@ export const BeforeDashboardClientCached = ({
     }
   }
 
-  const isAnalyticsStale = (lastUpdated?: string): boolean => {
-    if (!lastUpdated) {
-      return true
-    }
+  // Changing the search or a filter goes back to the first page
+  const updateTableState = (update: Partial<FormsTableState>) => {
+    setTableState((prev) => ({ ...prev, page: 1, ...update }))
+  }
 
-    const now = new Date()
-    const updated = new Date(lastUpdated)
-    const diffMs = now.getTime() - updated.getTime()
-    const staleThreshold = 24 * 60 * 60 * 1000 // 24 hours
+  // Sort by a column, or reverse the order when it is already sorted by it
+  const toggleSort = (sort: FormsSortField) => {
+    updateTableState(
+      tableState.sort === sort
+        ? { sortDirection: tableState.sortDirection === 'desc' ? 'asc' : 'desc' }
+        : { sort, sortDirection: sort === 'name' ? 'asc' : 'desc' },
+    )
+  }
 
-    return diffMs > staleThreshold
+  const renderSortableHeader = (sort: FormsSortField, label: string) => {
+    const isSorted = tableState.sort === sort
+    return (
+      <th
+        aria-sort={
+          isSorted ? (tableState.sortDirection === 'desc' ? 'descending' : 'ascending') : 'none'
+        }
+      >
+        <button className={styles.sortButton} onClick={() => toggleSort(sort)} type="button">
+          {label}
+          <span aria-hidden="true" className={styles.sortIndicator}>
+            {isSorted ? (tableState.sortDirection === 'desc' ? '▼' : '▲') : ''}
+          </span>
+        </button>
+      </th>
+    )
   }
 
+  const { page, pageCount, rows, total } = applyFormsTableState(forms, tableState, getAnalytics)
+
   return (
     <div className="gutter--left gutter--right collection-list__wrap">
       <div className={styles.hubspotDashboardHeader}>
         <h1>HubSpot Forms Overview</h1>
         <div className={styles.headerControls}>
+          {rangeLoading && <span className={styles.loadingText}>Loading date range...</span>}
+          {portals.length > 1 && (
+            <select
+              aria-label="HubSpot portal"
+              className={styles.portalSelect}
+              disabled={globalRefreshing || portalLoading}
+              onChange={(e) => void loadPortalForms(e.target.value)}
+              value={portal}
+            >
+              {portals.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+          <DateRangePicker disabled={globalRefreshing} onChange={setDateRange} value={dateRange} />
           <button
             className={styles.refreshButton}
             disabled={globalRefreshing}
             onClick={refreshAllAnalytics}
             type="button"
           >
-            {globalRefreshing ? 'Refreshing...' : 'Refresh All Analytics'}
+            {globalRefreshing
+              ? `Refreshing${refreshProgress ? ` ${refreshProgress.done}/${refreshProgress.total}` : ''}...`
+              : 'Refresh All Analytics'}
           </button>
         </div>
       </div>
 
+      {showConnection && <HubSpotConnectButton />}
+      {portalError && <p className={styles.errorText}>{portalError}</p>}
+      {refreshError && <p className={styles.errorText}>{refreshError}</p>}
+
       <div className={styles.hubspotDashboardStats}>
         <div className={styles.statCard}>
           <h3>Total Forms</h3>
@@ -192,147 +488,291 @@ export const BeforeDashboardClientCached = ({
           Showing all forms from your HubSpot account. Only "Tracked" forms have cached analytics
           data.
         </p>
+        <div className={styles.tableFilters}>
+          <input
+            aria-label="Search forms by name or ID"
+            className={styles.tableSearch}
+            onChange={(e) => updateTableState({ search: e.target.value })}
+            placeholder="Search by name or form ID"
+            type="search"
+            value={tableState.search}
+          />
+          <select
+            aria-label="Tracking status"
+            className={styles.portalSelect}
+            onChange={(e) =>
+              updateTableState({
+                tracking: (e.target.value || undefined) as FormsTableState['tracking'],
+              })
+            }
+            value={tableState.tracking || ''}
+          >
+            <option value="">All forms</option>
+            <option value="tracked">Tracked</option>
+            <option value="untracked">Not tracked</option>
+          </select>
+          <select
+            aria-label="Analytics freshness"
+            className={styles.portalSelect}
+            onChange={(e) =>
+              updateTableState({
+                freshness: (e.target.value || undefined) as FormsTableState['freshness'],
+              })
+            }
+            value={tableState.freshness || ''}
+          >
+            <option value="">Any update time</option>
+            <option value="fresh">Updated in the last 24h</option>
+            <option value="stale">Stale or never updated</option>
+          </select>
+          <label className={styles.tableFilterCheckbox}>
+            <input
+              aria-label="Has submissions"
+              checked={tableState.hasSubmissions}
+              onChange={(e) => updateTableState({ hasSubmissions: e.target.checked })}
+              type="checkbox"
+            />
+            Has submissions
+          </label>
+        </div>
         <div className={styles.tableContainer}>
           <table>
             <thead>
               <tr>
-                <th>Form Name</th>
+                {renderSortableHeader('name', 'Form Name')}
                 <th>Form ID</th>
                 <th>Tracking Status</th>
-                <th>Views</th>
-                <th>Submissions</th>
-                <th>Conversion Rate</th>
-                <th>Last Updated</th>
+                {renderSortableHeader('usage', 'Usage')}
+                {renderSortableHeader('views', 'Views')}
+                {renderSortableHeader('submissions', 'Submissions')}
+                {renderSortableHeader('conversionRate', 'Conversion Rate')}
+                <th>Submissions (30d)</th>
+                {renderSortableHeader('lastUpdated', 'Last Updated')}
                 <th>Actions</th>
               </tr>
             </thead>
             <tbody>
-              {forms
-                .sort((a, b) => (b.analytics?.views || 0) - (a.analytics?.views || 0))
-                .map((form) => (
-                  <tr key={form.guid}>
-                    <td>{form.name}</td>
-                    <td>
-                      <div className={styles.copyContainer}>
-                        <span className={styles.formId}>{form.guid}</span>
-                        <button
-                          aria-label={`Copy form ID ${form.guid} to clipboard`}
-                          className={styles.copyButton}
-                          onClick={() => copyToClipboard(form.guid)}
-                          title="Copy to clipboard"
-                          type="button"
+              {rows.length === 0 && (
+                <tr>
+                  <td className={styles.noData} colSpan={10}>
+                    No forms match the search and filters
+                  </td>
+                </tr>
+              )}
+              {rows.map((form) => {
+                const analytics = getAnalytics(form)
+                const isExpanded = expandedId === form.guid
+                return (
+                  <React.Fragment key={form.guid}>
+                    <tr>
+                      <td>
+                        {form.isTracked ? (
+                          <button
+                            aria-expanded={isExpanded}
+                            className={styles.expandButton}
+                            onClick={() => setExpandedId(isExpanded ? null : form.guid)}
+                            title="Show analytics over time"
+                            type="button"
+                          >
+                            <span aria-hidden="true">{isExpanded ? '▾' : '▸'}</span>
+                            {form.name}
+                          </button>
+                        ) : (
+                          form.name
+                        )}
+                        {form.refreshError && (
+                          <div className={styles.errorText} role="alert">
+                            {form.refreshError}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        <div className={styles.copyContainer}>
+                          <span className={styles.formId}>{form.guid}</span>
+                          <button
+                            aria-label={`Copy form ID ${form.guid} to clipboard`}
+                            className={styles.copyButton}
+                            onClick={() => copyToClipboard(form.guid)}
+                            title="Copy to clipboard"
+                            type="button"
+                          >
+                            {copiedId === form.guid ? (
+                              <svg
+                                fill="none"
+                                height="16"
+                                stroke="currentColor"
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth="2"
+                                viewBox="0 0 24 24"
+                                width="16"
+                                xmlns="http://www.w3.org/2000/svg"
+                              >
+                                <polyline points="20 6 9 17 4 12"></polyline>
+                              </svg>
+                            ) : (
+                              <svg
+                                fill="none"
+                                height="16"
+                                stroke="currentColor"
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth="2"
+                                viewBox="0 0 24 24"
+                                width="16"
+                                xmlns="http://www.w3.org/2000/svg"
+                              >
+                                <rect height="13" rx="2" ry="2" width="13" x="9" y="9"></rect>
+                                <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
+                              </svg>
+                            )}
+                          </button>
+                        </div>
+                      </td>
+                      <td>
+                        <span
+                          className={form.isTracked ? styles.trackedBadge : styles.notTrackedBadge}
                         >
-                          {copiedId === form.guid ? (
-                            <svg
-                              fill="none"
-                              height="16"
-                              stroke="currentColor"
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth="2"
-                              viewBox="0 0 24 24"
-                              width="16"
-                              xmlns="http://www.w3.org/2000/svg"
-                            >
-                              <polyline points="20 6 9 17 4 12"></polyline>
-                            </svg>
-                          ) : (
-                            <svg
-                              fill="none"
-                              height="16"
-                              stroke="currentColor"
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth="2"
-                              viewBox="0 0 24 24"
-                              width="16"
-                              xmlns="http://www.w3.org/2000/svg"
-                            >
-                              <rect height="13" rx="2" ry="2" width="13" x="9" y="9"></rect>
-                              <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path>
-                            </svg>
-                          )}
-                        </button>
-                      </div>
-                    </td>
-                    <td>
-                      <span
-                        className={form.isTracked ? styles.trackedBadge : styles.notTrackedBadge}
-                      >
-                        {form.isTracked ? 'Tracked' : 'Not Tracked'}
-                      </span>
-                    </td>
-                    <td>
-                      {form.analytics ? (
-                        form.analytics.views.toLocaleString()
-                      ) : (
-                        <span className={styles.noData}>No data</span>
-                      )}
-                    </td>
-                    <td>
-                      {form.analytics ? (
-                        form.analytics.submissions.toLocaleString()
-                      ) : (
-                        <span className={styles.noData}>No data</span>
-                      )}
-                    </td>
-                    <td>
-                      {form.analytics?.conversionRate !== undefined ? (
-                        `${(form.analytics.conversionRate * 100).toFixed(1)}%`
-                      ) : (
-                        <span className={styles.noData}>N/A</span>
-                      )}
-                    </td>
-                    <td>
-                      <span
-                        className={
-                          isAnalyticsStale(form.analytics?.lastUpdated)
-                            ? styles.staleData
-                            : styles.freshData
-                        }
-                      >
-                        {getAnalyticsAge(form.analytics?.lastUpdated)}
-                      </span>
-                    </td>
-                    <td>
-                      {form.isTracked ? (
-                        <button
-                          className={styles.refreshFormButton}
-                          disabled={form.refreshing || globalRefreshing}
-                          onClick={() => refreshFormAnalytics(form.guid)}
-                          title="Refresh analytics for this form"
-                          type="button"
+                          {form.isTracked ? 'Tracked' : 'Not Tracked'}
+                        </span>
+                      </td>
+                      <td>
+                        {form.isTracked ? (
+                          <span className={form.usageCount ? undefined : styles.noData}>
+                            {form.usageCount
+                              ? `Used on ${form.usageCount} ${form.usageCount === 1 ? 'page' : 'pages'}`
+                              : 'Not used'}
+                          </span>
+                        ) : (
+                          <span className={styles.noData}>-</span>
+                        )}
+                      </td>
+                      <td>
+                        {analytics ? (
+                          analytics.views.toLocaleString()
+                        ) : (
+                          <span className={styles.noData}>No data</span>
+                        )}
+                      </td>
+                      <td>
+                        {analytics ? (
+                          analytics.submissions.toLocaleString()
+                        ) : (
+                          <span className={styles.noData}>No data</span>
+                        )}
+                      </td>
+                      <td>
+                        {analytics?.conversionRate !== undefined ? (
+                          `${(analytics.conversionRate * 100).toFixed(1)}%`
+                        ) : (
+                          <span className={styles.noData}>N/A</span>
+                        )}
+                      </td>
+                      <td>
+                        {form.isTracked ? (
+                          <Sparkline
+                            label={`Submissions per day of ${form.name}, last 30 days`}
+                            values={toDailyChanges(
+                              (form.history || []).map((point) => ({
+                                date: point.date,
+                                value: point.submissions,
+                              })),
+                            ).map((point) => point.value)}
+                          />
+                        ) : (
+                          <span className={styles.noData}>-</span>
+                        )}
+                      </td>
+                      <td>
+                        <span
+                          className={
+                            isAnalyticsStale(form.analytics?.lastUpdated)
+                              ? styles.staleData
+                              : styles.freshData
+                          }
                         >
-                          {form.refreshing ? (
-                            <div className={styles.loadingSpinner} />
-                          ) : (
-                            <svg
-                              fill="none"
-                              height="14"
-                              stroke="currentColor"
-                              strokeLinecap="round"
-                              strokeLinejoin="round"
-                              strokeWidth="2"
-                              viewBox="0 0 24 24"
-                              width="14"
-                              xmlns="http://www.w3.org/2000/svg"
-                            >
-                              <path d="M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8"></path>
-                              <path d="M21 3v5h-5"></path>
-                              <path d="M21 12a9 9 0 0 1-9 9 9.75 9.75 0 0 1-6.74-2.74L3 16"></path>
-                              <path d="M3 21v-5h5"></path>
-                            </svg>
-                          )}
-                        </button>
-                      ) : (
-                        <span className={styles.noData}>-</span>
-                      )}
-                    </td>
-                  </tr>
-                ))}
+                          {getAnalyticsAge(form.analytics?.lastUpdated)}
+                        </span>
+                      </td>
+                      <td>
+                        {form.isTracked ? (
+                          <button
+                            className={styles.refreshFormButton}
+                            disabled={form.refreshing || globalRefreshing}
+                            onClick={() => refreshFormAnalytics(form.guid)}
+                            title="Refresh analytics for this form"
+                            type="button"
+                          >
+                            {form.refreshing ? (
+                              <div className={styles.loadingSpinner} />
+                            ) : (
+                              <svg
+                                fill="none"
+                                height="14"
+                                stroke="currentColor"
+                                strokeLinecap="round"
+                                strokeLinejoin="round"
+                                strokeWidth="2"
+                                viewBox="0 0 24 24"
+                                width="14"
+                                xmlns="http://www.w3.org/2000/svg"
+                              >
+                                <path d="M3 12a9 9 0 0 1 9-9 9.75 9.75 0 0 1 6.74 2.74L21 8"></path>
+                                <path d="M21 3v5h-5"></path>
+                                <path d="M21 12a9 9 0 0 1-9 9 9.75 9.75 0 0 1-6.74-2.74L3 16"></path>
+                                <path d="M3 21v-5h5"></path>
+                              </svg>
+                            )}
+                          </button>
+                        ) : (
+                          <span className={styles.noData}>-</span>
+                        )}
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={10}>
+                          <FormTrendPanel
+                            dateRange={dateRange}
+                            formGuid={form.guid}
+                            portal={portal}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                )
+              })}
             </tbody>
           </table>
         </div>
+        {pageCount > 1 && (
+          <div className={styles.pagination}>
+            <span className={styles.loadingText}>
+              Showing {(page - 1) * FORMS_PAGE_SIZE + 1}-{Math.min(page * FORMS_PAGE_SIZE, total)}{' '}
+              of {total} forms
+            </span>
+            <button
+              className={styles.refreshButton}
+              disabled={page <= 1}
+              onClick={() => setTableState((prev) => ({ ...prev, page: page - 1 }))}
+              type="button"
+            >
+              Previous
+            </button>
+            <span className={styles.loadingText}>
+              Page {page} of {pageCount}
+            </span>
+            <button
+              className={styles.refreshButton}
+              disabled={page >= pageCount}
+              onClick={() => setTableState((prev) => ({ ...prev, page: page + 1 }))}
+              type="button"
+            >
+              Next
+            </button>
+          </div>
+        )}
       </div>
     </div>
   )
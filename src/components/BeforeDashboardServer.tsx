@@ -1,9 +1,18 @@
+import type { ServerProps } from 'payload'
+
+import { cookies } from 'next/headers.js'
 import { getPayload } from 'payload'
 
+import { HUBSPOT_CONNECTION_SLUG } from '../globals/hubspotConnection.js'
 import { getPluginOptions } from '../index.js'
+import { getDashboardForms } from '../utils/dashboardForms.js'
+import { isHubSpotConfigured } from '../utils/hubspotClient.js'
+import { getPortalConfig, getPortalOptions } from '../utils/portals.js'
+import { getTenantPortal, resolveTenant, TENANT_COOKIE } from '../utils/tenants.js'
 import { BeforeDashboardClientCached } from './BeforeDashboardClientCached.js'
+import { HubSpotConnectButton } from './HubSpotConnectButton.js'
 
-export const BeforeDashboardServer = async () => {
+export const BeforeDashboardServer = async ({ user }: Partial<ServerProps>) => {
   const pluginOptions = getPluginOptions()
 
   if (!pluginOptions) {
@@ -12,59 +21,50 @@ export const BeforeDashboardServer = async () => {
 
   try {
     // Fetch ALL HubSpot forms and merge with cached analytics from manually added forms
-    const apiKey = pluginOptions.apiKey || process.env.HUBSPOT_API_KEY
-    if (!apiKey) {
+    if (!isHubSpotConfigured(pluginOptions)) {
       return <div>HubSpot API key not configured</div>
     }
 
-    // Get all forms from HubSpot
-    const response = await fetch('https://api.hubapi.com/forms/v2/forms', {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-    })
+    const payload = await getPayload({ config: {} as never })
 
-    if (!response.ok) {
-      throw new Error(`HubSpot API failed with status ${response.status}`)
+    // Without an API key, a portal has to be connected through the HubSpot app first
+    if (pluginOptions.oauth && !(pluginOptions.apiKey || process.env.HUBSPOT_API_KEY)) {
+      const connection = await payload.findGlobal({ slug: HUBSPOT_CONNECTION_SLUG, depth: 0 })
+      if (!connection.portalId) {
+        return (
+          <div className="gutter--left gutter--right">
+            <HubSpotConnectButton />
+          </div>
+        )
+      }
     }
 
-    const allHubSpotForms = await response.json()
-
-    // Get manually added forms from database to merge analytics
-    const payload = await getPayload({ config: {} as never })
-    const { docs: manuallyAddedForms } = await payload.find({
-      collection: 'hubspot-forms',
-      limit: 1000,
-    })
-
-    // Create a map of manually added forms for quick lookup
-    const manualFormsMap = new Map(manuallyAddedForms.map((form) => [form.formId, form]))
+    // Forms of the tenant picked in the multi-tenant plugin's selector, or of all the user's tenants
+    const tenant = pluginOptions.tenants
+      ? resolveTenant(pluginOptions, user, (await cookies()).get(TENANT_COOKIE)?.value)
+      : undefined
+    if (tenant === null) {
+      return <div>You are not allowed to access this tenant's HubSpot forms</div>
+    }
 
-    // Transform ALL HubSpot forms with analytics where available
-    const transformedForms = allHubSpotForms.map((hubspotForm: { guid: string; name: string }) => {
-      const manualForm = manualFormsMap.get(hubspotForm.guid)
+    // With several portals, the tenant's own portal or the first one is shown until another is
+    // picked in the switcher
+    const tenantPortal = await getTenantPortal(payload, pluginOptions, tenant)
+    const portal = tenantPortal || getPortalConfig(pluginOptions)?.id
 
-      return {
-        name: hubspotForm.name,
-        analytics: manualForm?.analytics
-          ? {
-              clickThroughRate: manualForm.analytics.clickThroughRate,
-              conversionRate: manualForm.analytics.conversionRate,
-              interactions: manualForm.analytics.interactions,
-              lastUpdated: manualForm.analytics.lastUpdated,
-              nonContactSubmissions: manualForm.analytics.nonContactSubmissions,
-              submissionRate: manualForm.analytics.submissionRate,
-              submissions: manualForm.analytics.submissions,
-              views: manualForm.analytics.views,
-            }
-          : undefined,
-        guid: hubspotForm.guid,
-        isTracked: !!manualForm, // Whether this form is manually added for tracking
-      }
-    })
+    // All forms of the portal, with the analytics and history of the tracked ones
+    const transformedForms = await getDashboardForms(payload, pluginOptions, { portal, tenant })
 
-    return <BeforeDashboardClientCached forms={transformedForms} />
+    return (
+      <BeforeDashboardClientCached
+        forms={transformedForms}
+        portal={portal}
+        portals={
+          tenantPortal ? [] : getPortalOptions(pluginOptions) // A tenant's portal is fixed
+        }
+        showConnection={Boolean(pluginOptions.oauth)}
+      />
+    )
   } catch (_err) {
     return <div>Failed to load HubSpot forms. Please check your API configuration.</div>
   }
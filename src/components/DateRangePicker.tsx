@@ -0,0 +1,88 @@
+'use client'
+
+import React from 'react'
+
+import styles from './BeforeDashboardClient.module.css'
+
+export type DateRangePreset = '7d' | '30d' | '90d' | 'all' | 'custom'
+
+export type DateRange = {
+  end?: string // YYYY-MM-DD
+  preset: DateRangePreset
+  start?: string // YYYY-MM-DD
+}
+
+type DateRangePickerProps = {
+  disabled?: boolean
+  onChange: (range: DateRange) => void
+  value: DateRange
+}
+
+const PRESET_DAYS: Partial<Record<DateRangePreset, number>> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+}
+
+const toDateString = (date: Date): string => date.toISOString().slice(0, 10)
+
+// Resolve a preset to concrete start/end dates, ending today
+export const resolveDateRange = (preset: DateRangePreset, custom?: DateRange): DateRange => {
+  const days = PRESET_DAYS[preset]
+  if (days) {
+    const end = new Date()
+    const start = new Date(end.getTime() - (days - 1) * 24 * 60 * 60 * 1000)
+    return { end: toDateString(end), preset, start: toDateString(start) }
+  }
+  if (preset === 'custom') {
+    return { end: custom?.end, preset, start: custom?.start }
+  }
+  return { preset: 'all' }
+}
+
+// Query string for the form analytics endpoint, empty for all-time totals
+export const toDateRangeQuery = (range: DateRange): string =>
+  range.start && range.end ? `?start=${range.start}&end=${range.end}` : ''
+
+export const DateRangePicker = ({ disabled, onChange, value }: DateRangePickerProps) => {
+  return (
+    <div className={styles.dateRangePicker}>
+      <select
+        aria-label="Analytics date range"
+        className={styles.dateRangeSelect}
+        disabled={disabled}
+        onChange={(e) => onChange(resolveDateRange(e.target.value as DateRangePreset, value))}
+        value={value.preset}
+      >
+        <option value="all">All time</option>
+        <option value="7d">Last 7 days</option>
+        <option value="30d">Last 30 days</option>
+        <option value="90d">Last 90 days</option>
+        <option value="custom">Custom range</option>
+      </select>
+      {value.preset === 'custom' && (
+        <>
+          <input
+            aria-label="Start date"
+            className={styles.dateInput}
+            disabled={disabled}
+            max={value.end}
+            onChange={(e) => onChange({ ...value, start: e.target.value || undefined })}
+            type="date"
+            value={value.start || ''}
+          />
+          <span>to</span>
+          <input
+            aria-label="End date"
+            className={styles.dateInput}
+            disabled={disabled}
+            min={value.start}
+            onChange={(e) => onChange({ ...value, end: e.target.value || undefined })}
+            type="date"
+            value={value.end || ''}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+
+import type { AnalyticsHistoryPoint } from '../utils/analyticsHistory.js'
+import type { DateRange } from './DateRangePicker.js'
+
+import styles from './BeforeDashboardClient.module.css'
+import { toDateRangeQuery } from './DateRangePicker.js'
+import { toDailyChanges, TrendChart } from './TrendChart.js'
+
+type FormTrendPanelProps = {
+  dateRange: DateRange
+  formGuid: string
+  portal?: string
+}
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`
+
+// Views, submissions and conversion rate over time for an expanded row of the forms table
+export const FormTrendPanel = ({ dateRange, formGuid, portal }: FormTrendPanelProps) => {
+  const [history, setHistory] = useState<AnalyticsHistoryPoint[] | null>(null)
+  const [error, setError] = useState<null | string>(null)
+
+  // The dashboard's date range, or the last 90 days for all-time totals
+  useEffect(() => {
+    let isCancelled = false
+    const query = new URLSearchParams(toDateRangeQuery(dateRange))
+    if (portal) {
+      query.set('portal', portal)
+    }
+
+    setHistory(null)
+    setError(null)
+
+    const loadHistory = async () => {
+      try {
+        const response = await fetch(
+          `/api/hubspot/form-analytics/${formGuid}/history${query.size ? `?${query}` : ''}`,
+        )
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+        const data: { history: AnalyticsHistoryPoint[] } = await response.json()
+        if (!isCancelled) {
+          setHistory(data.history)
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load analytics history')
+        }
+      }
+    }
+
+    void loadHistory()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [dateRange, formGuid, portal])
+
+  if (error) {
+    return <p className={styles.errorText}>{error}</p>
+  }
+
+  if (!history) {
+    return <p className={styles.loadingText}>Loading analytics history...</p>
+  }
+
+  return (
+    <div className={styles.trendPanel}>
+      <TrendChart
+        format={(value) => value.toLocaleString()}
+        label="Views per day"
+        points={toDailyChanges(history.map((point) => ({ date: point.date, value: point.views })))}
+      />
+      <TrendChart
+        format={(value) => value.toLocaleString()}
+        label="Submissions per day"
+        points={toDailyChanges(
+          history.map((point) => ({ date: point.date, value: point.submissions })),
+        )}
+      />
+      <TrendChart
+        format={formatPercent}
+        label="Conversion rate"
+        points={history
+          .filter((point) => point.conversionRate !== undefined)
+          .map((point) => ({ date: point.date, value: point.conversionRate ?? 0 }))}
+      />
+    </div>
+  )
+}
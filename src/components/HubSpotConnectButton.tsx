@@ -0,0 +1,90 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+
+import styles from './BeforeDashboardClient.module.css'
+
+type HubSpotConnection = {
+  connectedAt?: null | string
+  hubDomain?: null | string
+  portalId?: null | string
+}
+
+// Connect or disconnect the HubSpot portal used through the HubSpot app
+export const HubSpotConnectButton = () => {
+  const [connection, setConnection] = useState<HubSpotConnection | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<null | string>(null)
+
+  useEffect(() => {
+    const loadConnection = async () => {
+      try {
+        const response = await fetch('/api/globals/hubspot-connection?depth=0')
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+        setConnection(await response.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load HubSpot connection')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    void loadConnection()
+  }, [])
+
+  const disconnect = async () => {
+    if (!window.confirm('Disconnect HubSpot? Syncing stops until it is connected again.')) {
+      return
+    }
+
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/hubspot/oauth/disconnect', { method: 'POST' })
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+      }
+      setConnection(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disconnect HubSpot')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (loading && !connection) {
+    return <p className={styles.loadingText}>Loading HubSpot connection...</p>
+  }
+
+  return (
+    <div className={styles.connection}>
+      {connection?.portalId ? (
+        <>
+          <span className={styles.trackedBadge}>Connected</span>
+          <span>
+            {connection.hubDomain || 'HubSpot'}
+            <span className={styles.formId}> (portal {connection.portalId})</span>
+          </span>
+          <button
+            className={styles.refreshFormButton}
+            disabled={loading}
+            onClick={() => void disconnect()}
+            type="button"
+          >
+            {loading ? 'Disconnecting...' : 'Disconnect'}
+          </button>
+        </>
+      ) : (
+        <>
+          <span className={styles.notTrackedBadge}>Not connected</span>
+          <a className={styles.refreshButton} href="/api/hubspot/oauth/install">
+            Connect HubSpot
+          </a>
+        </>
+      )}
+      {error && <span className={styles.errorText}>{error}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+import type { JsonObject, ServerProps } from 'payload'
+
+import { cookies } from 'next/headers.js'
+import React from 'react'
+
+import { getPluginOptions } from '../index.js'
+import { resolveTenant, TENANT_COOKIE, tenantWhere } from '../utils/tenants.js'
+import styles from './BeforeDashboardClient.module.css'
+import { isAnalyticsStale } from './formsTable.js'
+
+const TOP_FORMS = 5
+
+// Compact summary of the tracked forms for the main admin dashboard, from the cached analytics
+export const HubSpotDashboardWidget = async ({ payload, user }: Partial<ServerProps>) => {
+  const pluginOptions = getPluginOptions()
+
+  if (!pluginOptions || !payload) {
+    return null
+  }
+
+  const tenant = pluginOptions.tenants
+    ? resolveTenant(pluginOptions, user, (await cookies()).get(TENANT_COOKIE)?.value)
+    : undefined
+  if (tenant === null) {
+    return null
+  }
+
+  // Users who can't read the forms don't get the widget
+  let forms: JsonObject[]
+  try {
+    const result = await payload.find({
+      collection: 'hubspot-forms',
+      depth: 0,
+      overrideAccess: false,
+      pagination: false,
+      user,
+      where: tenantWhere(pluginOptions, tenant),
+    })
+    forms = result.docs
+  } catch {
+    return null
+  }
+
+  const adminRoute = payload.config.routes.admin
+  const overviewUrl = `${adminRoute}/collections/hubspot-forms`
+
+  const totalViews = forms.reduce((sum, form) => sum + (form.analytics?.views || 0), 0)
+  const totalSubmissions = forms.reduce((sum, form) => sum + (form.analytics?.submissions || 0), 0)
+  const staleForms = forms.filter((form) => isAnalyticsStale(form.analytics?.lastUpdated)).length
+  const topForms = [...forms]
+    .sort((a, b) => (b.analytics?.submissions || 0) - (a.analytics?.submissions || 0))
+    .slice(0, TOP_FORMS)
+
+  return (
+    <div className={`gutter--left gutter--right ${styles.dashboardWidget}`}>
+      <div className={styles.hubspotDashboardHeader}>
+        <h2>HubSpot Forms</h2>
+        <a className={styles.refreshButton} href={overviewUrl}>
+          View full overview
+        </a>
+      </div>
+
+      {forms.length === 0 ? (
+        <p className={styles.noData}>
+          No forms tracked yet. <a href={`${overviewUrl}/create`}>Track a HubSpot form</a>
+        </p>
+      ) : (
+        <>
+          <div className={styles.hubspotDashboardStats}>
+            <div className={styles.statCard}>
+              <h3>Tracked Forms</h3>
+              <p>{forms.length}</p>
+            </div>
+            <div className={styles.statCard}>
+              <h3>Total Views</h3>
+              <p>{totalViews.toLocaleString()}</p>
+            </div>
+            <div className={styles.statCard}>
+              <h3>Total Submissions</h3>
+              <p>{totalSubmissions.toLocaleString()}</p>
+            </div>
+          </div>
+
+          {staleForms > 0 && (
+            <p className={styles.staleData} role="status">
+              {staleForms} {staleForms === 1 ? 'form has' : 'forms have'} analytics older than 24
+              hours.{' '}
+              <a href={`${overviewUrl}?hsFreshness=stale&hsTracking=tracked`}>Review stale forms</a>
+            </p>
+          )}
+
+          <div className={styles.tableContainer}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Top Forms</th>
+                  <th>Views</th>
+                  <th>Submissions</th>
+                  <th>Conversion Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topForms.map((form) => (
+                  <tr key={form.id}>
+                    <td>
+                      <a href={`${overviewUrl}/${form.id}/profile`}>{form.name}</a>
+                    </td>
+                    <td>{(form.analytics?.views || 0).toLocaleString()}</td>
+                    <td>{(form.analytics?.submissions || 0).toLocaleString()}</td>
+                    <td>
+                      {typeof form.analytics?.conversionRate === 'number'
+                        ? `${(form.analytics.conversionRate * 100).toFixed(1)}%`
+                        : 'N/A'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+'use client'
+
+import React, { useEffect, useId } from 'react'
+
+import type { HubSpotFormEmbed as HubSpotFormEmbedOptions } from '../lexical/embed.js'
+
+import { HUBSPOT_EMBED_SCRIPT_URL } from '../lexical/embed.js'
+
+type HubSpotFormsGlobal = {
+  forms: {
+    create: (options: { target: string } & HubSpotFormEmbedOptions) => void
+  }
+}
+
+let embedScript: null | Promise<void> = null
+
+// Load the HubSpot embed script once per page
+const loadEmbedScript = (): Promise<void> => {
+  if (!embedScript) {
+    embedScript = new Promise((resolve, reject) => {
+      const script = document.createElement('script')
+      script.async = true
+      script.charset = 'utf-8'
+      script.onerror = () => {
+        embedScript = null
+        reject(new Error('Failed to load the HubSpot forms embed script'))
+      }
+      script.onload = () => resolve()
+      script.src = HUBSPOT_EMBED_SCRIPT_URL
+      document.body.appendChild(script)
+    })
+  }
+  return embedScript
+}
+
+export type HubSpotFormEmbedProps = HubSpotFormEmbedOptions
+
+export const HubSpotFormEmbed = (props: HubSpotFormEmbedProps) => {
+  const { cssClass, formId, inlineMessage, portalId, redirectUrl, region } = props
+  const targetId = `hubspot-form-${useId().replace(/[^\w-]/g, '')}`
+
+  useEffect(() => {
+    let isCancelled = false
+
+    loadEmbedScript()
+      .then(() => {
+        const hbspt = (window as { hbspt?: HubSpotFormsGlobal } & Window).hbspt
+        if (!isCancelled && hbspt) {
+          hbspt.forms.create({
+            cssClass,
+            formId,
+            inlineMessage,
+            portalId,
+            redirectUrl,
+            region,
+            target: `#${targetId}`,
+          })
+        }
+      })
+      .catch((error) => {
+        // eslint-disable-next-line no-console
+        console.error('[HubSpot Plugin]', error)
+      })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [cssClass, formId, inlineMessage, portalId, redirectUrl, region, targetId])
+
+  return <div className={['hubspot-form', cssClass].filter(Boolean).join(' ')} id={targetId} />
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import type { RelationshipFieldClientComponent } from 'payload'
+
+import { FieldDescription, FieldError, FieldLabel, useField } from '@payloadcms/ui'
+import React, { useEffect, useState } from 'react'
+
+import type { HubSpotPortalOption } from '../utils/portals.js'
+
+import styles from './BeforeDashboardClient.module.css'
+
+type LiveHubSpotForm = {
+  guid: string
+  isTracked?: boolean
+  name: string
+  portal?: string // Set when several portals are configured
+}
+
+type TrackedHubSpotForm = {
+  formId: string
+  id: number | string
+  name: string
+}
+
+// Find the hubspot-forms document for a HubSpot form, tracking the form first if needed
+const findOrTrackForm = async (form: LiveHubSpotForm): Promise<TrackedHubSpotForm> => {
+  if (form.isTracked) {
+    const response = await fetch(
+      `/api/hubspot-forms?where[formId][equals]=${encodeURIComponent(form.guid)}&limit=1&depth=0`,
+    )
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    const { docs } = await response.json()
+    if (docs.length > 0) {
+      return docs[0]
+    }
+  }
+
+  const response = await fetch('/api/hubspot-forms', {
+    body: JSON.stringify({ formId: form.guid, portal: form.portal }),
+    headers: { 'Content-Type': 'application/json' },
+    method: 'POST',
+  })
+  const result = await response.json()
+  if (!response.ok) {
+    throw new Error(result.errors?.[0]?.message || `HTTP error! status: ${response.status}`)
+  }
+  return result.doc
+}
+
+export const HubSpotFormPicker: RelationshipFieldClientComponent = ({ field, path, readOnly }) => {
+  const { setValue, showError, value } = useField<null | number | string>({ path })
+  const [selected, setSelected] = useState<null | TrackedHubSpotForm>(null)
+  const [forms, setForms] = useState<LiveHubSpotForm[] | null>(null)
+  const [portals, setPortals] = useState<HubSpotPortalOption[] | null>(null)
+  const [portal, setPortal] = useState<string | undefined>(undefined)
+  const [search, setSearch] = useState('')
+  const [isOpen, setIsOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<null | string>(null)
+
+  const disabled = readOnly || field.admin?.readOnly
+
+  // Show the name of the currently selected form
+  useEffect(() => {
+    if (!value) {
+      setSelected(null)
+      return
+    }
+    if (selected?.id === value) {
+      return
+    }
+
+    let isCancelled = false
+
+    const loadSelected = async () => {
+      try {
+        const response = await fetch(`/api/hubspot-forms/${value}?depth=0`)
+        if (response.ok && !isCancelled) {
+          setSelected(await response.json())
+        }
+      } catch {
+        // Keep showing the ID if the form can't be loaded
+      }
+    }
+
+    void loadSelected()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [value, selected?.id])
+
+  // Load the configured portals the first time the picker is opened
+  useEffect(() => {
+    if (!isOpen || portals) {
+      return
+    }
+
+    const loadPortals = async () => {
+      try {
+        const response = await fetch('/api/hubspot/portals')
+        setPortals(response.ok ? (await response.json()).docs : [])
+      } catch {
+        setPortals([])
+      }
+    }
+
+    void loadPortals()
+  }, [isOpen, portals])
+
+  // Load live forms from HubSpot the first time the picker is opened, or another portal is picked
+  useEffect(() => {
+    if (!isOpen || forms) {
+      return
+    }
+
+    const loadForms = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const response = await fetch(
+          portal ? `/api/hubspot/forms?portal=${encodeURIComponent(portal)}` : '/api/hubspot/forms',
+        )
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+        setForms(await response.json())
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load HubSpot forms')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    void loadForms()
+  }, [isOpen, forms, portal])
+
+  const selectForm = async (form: LiveHubSpotForm) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const tracked = await findOrTrackForm(form)
+      setSelected(tracked)
+      setValue(tracked.id)
+      setIsOpen(false)
+      setSearch('')
+      // The form is tracked now, keep the list in sync without reloading it
+      setForms(
+        (prev) => prev?.map((f) => (f.guid === form.guid ? { ...f, isTracked: true } : f)) || null,
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to select form')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const query = search.trim().toLowerCase()
+  const matchingForms = (forms || []).filter(
+    (form) => form.name.toLowerCase().includes(query) || form.guid.toLowerCase().includes(query),
+  )
+
+  return (
+    <div className={`field-type relationship ${styles.formPicker}`}>
+      <FieldLabel label={field.label} path={path} required={field.required} />
+      <FieldError path={path} showError={showError} />
+      <div className={styles.formPickerSelected}>
+        {value ? (
+          <span>
+            {selected?.name || value}
+            {selected?.formId && <span className={styles.formId}> ({selected.formId})</span>}
+          </span>
+        ) : (
+          <span className={styles.noData}>No form selected</span>
+        )}
+        {!disabled && (
+          <div className={styles.headerControls}>
+            <button
+              className={styles.refreshFormButton}
+              onClick={() => setIsOpen(!isOpen)}
+              type="button"
+            >
+              {isOpen ? 'Close' : value ? 'Change' : 'Choose form'}
+            </button>
+            {Boolean(value) && (
+              <button
+                className={styles.refreshFormButton}
+                onClick={() => {
+                  setValue(null)
+                  setSelected(null)
+                }}
+                type="button"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+      {isOpen && !disabled && (
+        <div className={styles.formPickerDropdown}>
+          <input
+            aria-label="Search HubSpot forms"
+            className={styles.formPickerSearch}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search forms by name or ID"
+            type="search"
+            value={search}
+          />
+          {portals && portals.length > 1 && (
+            <select
+              aria-label="HubSpot portal"
+              className={styles.portalSelect}
+              disabled={loading}
+              onChange={(e) => {
+                setPortal(e.target.value)
+                setForms(null)
+              }}
+              value={portal || portals[0].id}
+            >
+              {portals.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {error && <p className={styles.errorText}>{error}</p>}
+          {loading && <p className={styles.loadingText}>Loading...</p>}
+          {forms && (
+            <ul className={styles.formPickerList}>
+              {matchingForms.map((form) => (
+                <li key={form.guid}>
+                  <button
+                    className={styles.formPickerOption}
+                    disabled={loading}
+                    onClick={() => void selectForm(form)}
+                    type="button"
+                  >
+                    <span>{form.name}</span>
+                    <span className={form.isTracked ? styles.trackedBadge : styles.notTrackedBadge}>
+                      {form.isTracked ? 'Tracked' : 'Not tracked'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+              {matchingForms.length === 0 && <li className={styles.noData}>No forms found</li>}
+            </ul>
+          )}
+        </div>
+      )}
+      <FieldDescription description={field.admin?.description} path={path} />
+    </div>
+  )
+}
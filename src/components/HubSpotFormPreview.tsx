@@ -0,0 +1,100 @@
+'use client'
+
+import type { UIFieldClientComponent } from 'payload'
+
+import { useFormFields } from '@payloadcms/ui'
+import React, { useEffect, useState } from 'react'
+
+import styles from './BeforeDashboardClient.module.css'
+
+type PreviewField = {
+  fieldType?: string
+  label?: string
+  name: string
+  required?: boolean
+}
+
+type PreviewForm = {
+  fieldGroups?: Array<{ fields?: PreviewField[] }>
+  formId: string
+  name: string
+}
+
+// Preview of the fields collected by the form selected in the sibling `form` field
+export const HubSpotFormPreview: UIFieldClientComponent = ({ path }) => {
+  const formPath = path.includes('.') ? path.replace(/[^.]+$/, 'form') : 'form'
+  const formValue = useFormFields(([fields]) => fields[formPath]?.value) as
+    | null
+    | number
+    | string
+    | undefined
+  const [form, setForm] = useState<null | PreviewForm>(null)
+  const [error, setError] = useState<null | string>(null)
+
+  useEffect(() => {
+    setForm(null)
+    setError(null)
+
+    if (!formValue) {
+      return
+    }
+
+    let isCancelled = false
+
+    const loadForm = async () => {
+      try {
+        const response = await fetch(`/api/hubspot-forms/${formValue}?depth=0`)
+        if (!response.ok) {
+          throw new Error(`HTTP error! status: ${response.status}`)
+        }
+        const data = await response.json()
+        if (!isCancelled) {
+          setForm(data)
+        }
+      } catch (err) {
+        if (!isCancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load form')
+        }
+      }
+    }
+
+    void loadForm()
+
+    return () => {
+      isCancelled = true
+    }
+  }, [formValue])
+
+  if (!formValue) {
+    return null
+  }
+
+  if (error) {
+    return <p className={styles.errorText}>{error}</p>
+  }
+
+  if (!form) {
+    return <p className={styles.loadingText}>Loading form preview...</p>
+  }
+
+  const fields = (form.fieldGroups || []).flatMap((group) => group.fields || [])
+
+  return (
+    <div className={styles.formPreview}>
+      <h4>{form.name}</h4>
+      {fields.length > 0 ? (
+        <ul>
+          {fields.map((field) => (
+            <li key={field.name}>
+              {field.label || field.name}
+              {field.required && <span className={styles.formPreviewRequired}> *</span>}
+              <span className={styles.formId}> {field.fieldType}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.noData}>No fields synced yet</p>
+      )}
+    </div>
+  )
+}
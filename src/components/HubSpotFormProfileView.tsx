@@ -0,0 +1,261 @@
+import type { DocumentViewServerProps, JsonObject, Payload, TypedUser } from 'payload'
+
+import React from 'react'
+
+import { FORM_ANALYTICS_SNAPSHOTS_SLUG } from '../collections/formAnalyticsSnapshots.js'
+import { FORM_SUBMISSIONS_SLUG } from '../collections/formSubmissions.js'
+import { FORM_USAGES_SLUG } from '../collections/formUsages.js'
+import { getPluginOptions } from '../index.js'
+import { resolvePortalId } from '../utils/oauth.js'
+import styles from './BeforeDashboardClient.module.css'
+
+const RECENT_LIMIT = 10 // Submissions and syncs listed
+
+type ProfileField = {
+  fieldType?: string
+  hidden?: boolean
+  id?: string
+  label?: string
+  name: string
+  options?: Array<{ label?: string; value: string }>
+  required?: boolean
+}
+
+const formatPercent = (value?: null | number): string =>
+  typeof value === 'number' ? `${(value * 100).toFixed(1)}%` : 'N/A'
+
+const formatNumber = (value?: null | number): string => (value || 0).toLocaleString()
+
+const formatDate = (value?: null | string): string =>
+  value ? new Date(value).toLocaleString() : 'Never'
+
+const toID = (value: unknown): number | string | undefined =>
+  value && typeof value === 'object' ? (value as { id?: number | string }).id : (value as string)
+
+/**
+ * Rows of a plugin collection related to the form, read with the user's access. Null when the
+ * collection isn't enabled or the user can't read it.
+ */
+const findRelated = async (
+  payload: Payload,
+  user: null | TypedUser,
+  collection: string,
+  formId: number | string,
+  sort: string,
+): Promise<JsonObject[] | null> => {
+  if (!payload.collections[collection]) {
+    return null
+  }
+
+  try {
+    const { docs } = await payload.find({
+      collection,
+      depth: 0,
+      limit: collection === FORM_USAGES_SLUG ? 100 : RECENT_LIMIT,
+      overrideAccess: false,
+      sort,
+      user,
+      where: { form: { equals: formId } },
+    })
+    return docs
+  } catch {
+    return null
+  }
+}
+
+// "Profile" tab of a tracked form, everything known about the form on one page
+export const HubSpotFormProfileView = async ({ doc, initPageResult }: DocumentViewServerProps) => {
+  const { payload, user } = initPageResult.req
+  const pluginOptions = getPluginOptions()
+
+  if (!doc?.id) {
+    return <div className="gutter--left gutter--right">Save the form to see its profile</div>
+  }
+
+  const [usages, submissions, snapshots] = await Promise.all([
+    findRelated(payload, user, FORM_USAGES_SLUG, doc.id, 'title'),
+    findRelated(payload, user, FORM_SUBMISSIONS_SLUG, doc.id, '-submittedAt'),
+    findRelated(payload, user, FORM_ANALYTICS_SNAPSHOTS_SLUG, doc.id, '-date'),
+  ])
+
+  const adminRoute = payload.config.routes.admin
+  const analytics = doc.analytics || {}
+  const fields: ProfileField[] = (doc.fieldGroups || []).flatMap(
+    (group: { fields?: ProfileField[] }) => group.fields || [],
+  )
+  const portalId =
+    doc.portalId || (pluginOptions && (await resolvePortalId(payload, pluginOptions, doc.portal)))
+
+  const metrics: Array<[string, string]> = [
+    ['Views', formatNumber(analytics.views)],
+    ['Submissions', formatNumber(analytics.submissions)],
+    ['Conversion Rate', formatPercent(analytics.conversionRate)],
+    ['Click-through Rate', formatPercent(analytics.clickThroughRate)],
+    ['Interactions', formatNumber(analytics.interactions)],
+    ['Submission Rate', formatPercent(analytics.submissionRate)],
+    ['Non-contact Submissions', formatNumber(analytics.nonContactSubmissions)],
+  ]
+
+  return (
+    <div className="gutter--left gutter--right">
+      <div className={styles.hubspotDashboardHeader}>
+        <div>
+          <h2>{doc.name}</h2>
+          <span className={styles.formId}>{doc.formId}</span>
+        </div>
+        {portalId && (
+          <a
+            className={styles.refreshButton}
+            href={`https://app.hubspot.com/forms/${portalId}/editor/${doc.formId}/edit/form`}
+            rel="noopener noreferrer"
+            target="_blank"
+          >
+            Open in HubSpot
+          </a>
+        )}
+      </div>
+
+      <section className={styles.profileSection}>
+        <h3>Analytics</h3>
+        <p className={styles.loadingText}>Last updated: {formatDate(analytics.lastUpdated)}</p>
+        <div className={styles.hubspotDashboardStats}>
+          {metrics.map(([label, value]) => (
+            <div className={styles.statCard} key={label}>
+              <h3>{label}</h3>
+              <p>{value}</p>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className={styles.profileSection}>
+        <h3>Fields</h3>
+        {fields.length > 0 ? (
+          <div className={styles.tableContainer}>
+            <table>
+              <thead>
+                <tr>
+                  <th>Label</th>
+                  <th>Name</th>
+                  <th>Type</th>
+                  <th>Required</th>
+                  <th>Options</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((field) => (
+                  <tr key={field.id || field.name}>
+                    <td>
+                      {field.label || field.name}
+                      {field.hidden && <span className={styles.noData}> (hidden)</span>}
+                    </td>
+                    <td className={styles.formId}>{field.name}</td>
+                    <td>{field.fieldType || '-'}</td>
+                    <td>{field.required ? 'Yes' : 'No'}</td>
+                    <td>
+                      {field.options?.length
+                        ? field.options.map((option) => option.label || option.value).join(', ')
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className={styles.noData}>No fields synced from HubSpot yet</p>
+        )}
+      </section>
+
+      {usages && (
+        <section className={styles.profileSection}>
+          <h3>Used in</h3>
+          {usages.length > 0 ? (
+            <ul className={styles.profileList}>
+              {usages.map((usage) => (
+                <li key={usage.id}>
+                  <a
+                    href={`${adminRoute}/collections/${usage.document.relationTo}/${toID(usage.document.value)}`}
+                  >
+                    {usage.title || `${usage.document.relationTo} ${toID(usage.document.value)}`}
+                  </a>{' '}
+                  <span className={styles.noData}>({usage.path})</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className={styles.noData}>Not embedded in any document</p>
+          )}
+        </section>
+      )}
+
+      {submissions && (
+        <section className={styles.profileSection}>
+          <h3>Recent submissions</h3>
+          {submissions.length > 0 ? (
+            <div className={styles.tableContainer}>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Submitted</th>
+                    <th>Email</th>
+                    <th>Page</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {submissions.map((submission) => (
+                    <tr key={submission.id}>
+                      <td>
+                        <a
+                          href={`${adminRoute}/collections/${FORM_SUBMISSIONS_SLUG}/${submission.id}`}
+                        >
+                          {formatDate(submission.submittedAt)}
+                        </a>
+                      </td>
+                      <td>{submission.email || '-'}</td>
+                      <td>{submission.pageUrl || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className={styles.noData}>No submissions synced yet</p>
+          )}
+        </section>
+      )}
+
+      {snapshots && (
+        <section className={styles.profileSection}>
+          <h3>Sync history</h3>
+          {snapshots.length > 0 ? (
+            <div className={styles.tableContainer}>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Synced</th>
+                    <th>Views</th>
+                    <th>Submissions</th>
+                    <th>Conversion Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {snapshots.map((snapshot) => (
+                    <tr key={snapshot.id}>
+                      <td>{formatDate(snapshot.date)}</td>
+                      <td>{formatNumber(snapshot.views)}</td>
+                      <td>{formatNumber(snapshot.submissions)}</td>
+                      <td>{formatPercent(snapshot.conversionRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className={styles.noData}>Analytics haven't been synced yet</p>
+          )}
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+'use client'
+
+import React from 'react'
+
+import styles from './BeforeDashboardClient.module.css'
+
+export type TrendPoint = {
+  date: string // YYYY-MM-DD
+  value: number
+}
+
+type SparklineProps = {
+  height?: number
+  label: string
+  values: number[]
+  width?: number
+}
+
+type TrendChartProps = {
+  format?: (value: number) => string
+  label: string
+  points: TrendPoint[]
+}
+
+// Snapshots hold running totals, charts show how much they grew from one day to the next
+export const toDailyChanges = (points: Array<{ date: string; value: number }>): TrendPoint[] =>
+  points.slice(1).map((point, index) => ({
+    date: point.date,
+    value: Math.max(0, point.value - (points[index]?.value ?? point.value)),
+  }))
+
+// Scale values into SVG coordinates, the lowest value at the bottom and the highest at the top
+const toCoordinates = (
+  values: number[],
+  width: number,
+  height: number,
+  padding: number = 0,
+): Array<[number, number]> => {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const spread = max - min || 1
+  const step = values.length > 1 ? (width - padding * 2) / (values.length - 1) : 0
+
+  return values.map((value, index) => [
+    padding + index * step,
+    height - padding - ((value - min) / spread) * (height - padding * 2),
+  ])
+}
+
+const toPath = (coordinates: Array<[number, number]>): string =>
+  coordinates
+    .map(([x, y], index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`)
+    .join(' ')
+
+export const Sparkline = ({ height = 24, label, values, width = 96 }: SparklineProps) => {
+  if (values.length < 2) {
+    return <span className={styles.noData}>-</span>
+  }
+
+  return (
+    <svg
+      aria-label={label}
+      className={styles.sparkline}
+      height={height}
+      role="img"
+      viewBox={`0 0 ${width} ${height}`}
+      width={width}
+    >
+      <title>{label}</title>
+      <path className={styles.chartLine} d={toPath(toCoordinates(values, width, height, 2))} />
+    </svg>
+  )
+}
+
+const CHART_WIDTH = 480
+const CHART_HEIGHT = 140
+const CHART_PADDING = 8
+const LABEL_HEIGHT = 20
+
+export const TrendChart = ({ format = String, label, points }: TrendChartProps) => {
+  if (points.length < 2) {
+    return (
+      <div className={styles.trendChart}>
+        <h4>{label}</h4>
+        <p className={styles.noData}>Not enough history yet</p>
+      </div>
+    )
+  }
+
+  const values = points.map((point) => point.value)
+  const coordinates = toCoordinates(values, CHART_WIDTH, CHART_HEIGHT, CHART_PADDING)
+  const line = toPath(coordinates)
+  const area = `${line} L${coordinates[coordinates.length - 1]?.[0].toFixed(1)},${CHART_HEIGHT} L${coordinates[0]?.[0].toFixed(1)},${CHART_HEIGHT} Z`
+
+  return (
+    <div className={styles.trendChart}>
+      <h4>
+        {label}
+        <span className={styles.trendRange}>
+          {format(Math.min(...values))} - {format(Math.max(...values))}
+        </span>
+      </h4>
+      <svg
+        aria-label={`${label} from ${points[0]?.date} to ${points[points.length - 1]?.date}`}
+        role="img"
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + LABEL_HEIGHT}`}
+        width="100%"
+      >
+        <line
+          className={styles.chartAxis}
+          x1={0}
+          x2={CHART_WIDTH}
+          y1={CHART_HEIGHT}
+          y2={CHART_HEIGHT}
+        />
+        <path className={styles.chartArea} d={area} />
+        <path className={styles.chartLine} d={line} />
+        {coordinates.map(([x, y], index) => (
+          <circle className={styles.chartPoint} cx={x} cy={y} key={points[index]?.date} r={3}>
+            <title>{`${points[index]?.date}: ${format(values[index] ?? 0)}`}</title>
+          </circle>
+        ))}
+        <text className={styles.chartLabel} x={0} y={CHART_HEIGHT + LABEL_HEIGHT - 4}>
+          {points[0]?.date}
+        </text>
+        <text
+          className={styles.chartLabel}
+          textAnchor="end"
+          x={CHART_WIDTH}
+          y={CHART_HEIGHT + LABEL_HEIGHT - 4}
+        >
+          {points[points.length - 1]?.date}
+        </text>
+      </svg>
+    </div>
+  )
+}
@@ -0,0 +1,209 @@
+export type FormsSortField =
+  | 'conversionRate'
+  | 'lastUpdated'
+  | 'name'
+  | 'submissions'
+  | 'usage'
+  | 'views'
+
+export type FormsTableState = {
+  freshness?: 'fresh' | 'stale'
+  hasSubmissions: boolean
+  page: number // 1-based
+  search: string
+  sort: FormsSortField
+  sortDirection: 'asc' | 'desc'
+  tracking?: 'tracked' | 'untracked'
+}
+
+type FormsTableAnalytics = {
+  conversionRate?: number
+  lastUpdated?: string
+  submissions: number
+  views: number
+}
+
+type FormsTableForm = {
+  analytics?: FormsTableAnalytics
+  guid: string
+  isTracked?: boolean
+  name: string
+  usageCount?: number
+}
+
+export const FORMS_PAGE_SIZE = 25
+
+const STALE_THRESHOLD = 24 * 60 * 60 * 1000 // 24 hours
+
+const SORT_FIELDS: FormsSortField[] = [
+  'conversionRate',
+  'lastUpdated',
+  'name',
+  'submissions',
+  'usage',
+  'views',
+]
+
+export const DEFAULT_FORMS_TABLE_STATE: FormsTableState = {
+  hasSubmissions: false,
+  page: 1,
+  search: '',
+  sort: 'views',
+  sortDirection: 'desc',
+}
+
+// Query string parameters, prefixed so they don't clash with other dashboard components
+const PARAMS = {
+  freshness: 'hsFreshness',
+  hasSubmissions: 'hsHasSubmissions',
+  page: 'hsPage',
+  search: 'hsSearch',
+  sort: 'hsSort',
+  tracking: 'hsTracking',
+}
+
+export const isAnalyticsStale = (lastUpdated?: string, now: number = Date.now()): boolean =>
+  !lastUpdated || now - new Date(lastUpdated).getTime() > STALE_THRESHOLD
+
+// Read the table state from the query string, falling back to the defaults for unknown values
+export const parseFormsTableState = (params: URLSearchParams): FormsTableState => {
+  const sort = params.get(PARAMS.sort) || ''
+  const sortField = sort.replace(/^-/, '') as FormsSortField
+  const page = Number(params.get(PARAMS.page))
+  const freshness = params.get(PARAMS.freshness)
+  const tracking = params.get(PARAMS.tracking)
+
+  return {
+    freshness: freshness === 'fresh' || freshness === 'stale' ? freshness : undefined,
+    hasSubmissions: params.get(PARAMS.hasSubmissions) === 'true',
+    page: Number.isInteger(page) && page > 0 ? page : DEFAULT_FORMS_TABLE_STATE.page,
+    search: params.get(PARAMS.search) || '',
+    ...(SORT_FIELDS.includes(sortField)
+      ? { sort: sortField, sortDirection: sort.startsWith('-') ? 'desc' : 'asc' }
+      : {
+          sort: DEFAULT_FORMS_TABLE_STATE.sort,
+          sortDirection: DEFAULT_FORMS_TABLE_STATE.sortDirection,
+        }),
+    tracking: tracking === 'tracked' || tracking === 'untracked' ? tracking : undefined,
+  }
+}
+
+/**
+ * Write the table state into a copy of the query string. Defaults are left out, and other
+ * parameters are kept as they are.
+ */
+export const toFormsTableParams = (
+  state: FormsTableState,
+  current: URLSearchParams,
+): URLSearchParams => {
+  const params = new URLSearchParams(current)
+  const sort = `${state.sortDirection === 'desc' ? '-' : ''}${state.sort}`
+  const defaultSort = `${DEFAULT_FORMS_TABLE_STATE.sortDirection === 'desc' ? '-' : ''}${DEFAULT_FORMS_TABLE_STATE.sort}`
+
+  const values: Record<keyof typeof PARAMS, string | undefined> = {
+    freshness: state.freshness,
+    hasSubmissions: state.hasSubmissions ? 'true' : undefined,
+    page: state.page > 1 ? String(state.page) : undefined,
+    search: state.search.trim() || undefined,
+    sort: sort !== defaultSort ? sort : undefined,
+    tracking: state.tracking,
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    const param = PARAMS[key as keyof typeof PARAMS]
+    if (value) {
+      params.set(param, value)
+    } else {
+      params.delete(param)
+    }
+  }
+
+  return params
+}
+
+/**
+ * Filter, sort and paginate the forms without changing the array passed in. `getAnalytics`
+ * returns the analytics shown for a form, e.g. the ones of the selected date range.
+ */
+export const applyFormsTableState = <T extends FormsTableForm>(
+  forms: T[],
+  state: FormsTableState,
+  getAnalytics: (form: T) => FormsTableAnalytics | undefined = (form) => form.analytics,
+  now: number = Date.now(),
+): { page: number; pageCount: number; rows: T[]; total: number } => {
+  const search = state.search.trim().toLowerCase()
+
+  const filtered = forms.filter((form) => {
+    if (
+      search &&
+      !form.name.toLowerCase().includes(search) &&
+      !form.guid.toLowerCase().includes(search)
+    ) {
+      return false
+    }
+    if (state.tracking && !!form.isTracked !== (state.tracking === 'tracked')) {
+      return false
+    }
+    if (
+      state.freshness &&
+      isAnalyticsStale(form.analytics?.lastUpdated, now) !== (state.freshness === 'stale')
+    ) {
+      return false
+    }
+    return !state.hasSubmissions || (getAnalytics(form)?.submissions || 0) > 0
+  })
+
+  const getValue = (form: T): number | string | undefined => {
+    switch (state.sort) {
+      case 'conversionRate':
+        return getAnalytics(form)?.conversionRate
+      case 'lastUpdated':
+        return form.analytics?.lastUpdated
+          ? new Date(form.analytics.lastUpdated).getTime()
+          : undefined
+      case 'name':
+        return form.name
+      case 'submissions':
+        return getAnalytics(form)?.submissions
+      case 'usage':
+        return form.isTracked ? form.usageCount || 0 : undefined
+      case 'views':
+        return getAnalytics(form)?.views
+    }
+  }
+
+  // Forms without a value go last in either direction, ties are ordered by name
+  const direction = state.sortDirection === 'desc' ? -1 : 1
+  const sorted = [...filtered].sort((a, b) => {
+    const aValue = getValue(a)
+    const bValue = getValue(b)
+
+    if (aValue !== bValue) {
+      if (aValue === undefined) {
+        return 1
+      }
+      if (bValue === undefined) {
+        return -1
+      }
+      const compared =
+        typeof aValue === 'string' && typeof bValue === 'string'
+          ? aValue.localeCompare(bValue)
+          : Number(aValue) - Number(bValue)
+      if (compared !== 0) {
+        return compared * direction
+      }
+    }
+
+    return a.name.localeCompare(b.name)
+  })
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / FORMS_PAGE_SIZE))
+  const page = Math.min(state.page, pageCount)
+
+  return {
+    page,
+    pageCount,
+    rows: sorted.slice((page - 1) * FORMS_PAGE_SIZE, page * FORMS_PAGE_SIZE),
+    total: sorted.length,
+  }
+}
@@ -1,3 +1,6 @@
 export { BeforeDashboardClient } from '../components/BeforeDashboardClient.js'
-export { BeforeDashboardClientAsync } from '../components/BeforeDashboardClientAsync.js'
 export { BeforeDashboardClientCached } from '../components/BeforeDashboardClientCached.js'
+export { HubSpotConnectButton } from '../components/HubSpotConnectButton.js'
+export { HubSpotFormEmbed } from '../components/HubSpotFormEmbed.js'
+export { HubSpotFormPicker } from '../components/HubSpotFormPicker.js'
+export { HubSpotFormPreview } from '../components/HubSpotFormPreview.js'
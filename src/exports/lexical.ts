@@ -0,0 +1,13 @@
+export { hubspotFormHTMLConverters, hubspotFormJSXConverters } from '../lexical/converters.js'
+export {
+  HUBSPOT_EMBED_SCRIPT_URL,
+  toHubSpotFormEmbed,
+  toHubSpotFormEmbedHTML,
+} from '../lexical/embed.js'
+export type { HubSpotFormEmbed, HubSpotFormEmbedOptions } from '../lexical/embed.js'
+export { HubSpotFormFeature } from '../lexical/feature.js'
+export { HUBSPOT_FORM_BLOCK_SLUG, hubspotFormBlock } from '../lexical/hubspotFormBlock.js'
+export type {
+  HubSpotFormBlockFields,
+  SerializedHubSpotFormBlockNode,
+} from '../lexical/hubspotFormBlock.js'
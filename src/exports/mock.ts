@@ -0,0 +1,2 @@
+export { startMockHubSpotServer } from '../mock/mockHubSpotServer.js'
+export type { MockHubSpotServer, MockHubSpotServerOptions } from '../mock/mockHubSpotServer.js'
@@ -1 +1,3 @@
 export { BeforeDashboardServer } from '../components/BeforeDashboardServer.js'
+export { HubSpotDashboardWidget } from '../components/HubSpotDashboardWidget.js'
+export { HubSpotFormProfileView } from '../components/HubSpotFormProfileView.js'
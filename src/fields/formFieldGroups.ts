@@ -0,0 +1,95 @@
+import type { Field } from 'payload'
+
+// Read-only copy of the form's field groups in HubSpot, refreshed on create and on every sync
+export const formFieldGroupsField: Field = {
+  name: 'fieldGroups',
+  type: 'array',
+  admin: {
+    description: 'Fields collected by this form, synced from HubSpot',
+    initCollapsed: true,
+    readOnly: true,
+  },
+  fields: [
+    {
+      name: 'fields',
+      type: 'array',
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'name',
+              type: 'text',
+              required: true,
+            },
+            {
+              name: 'label',
+              type: 'text',
+            },
+            {
+              name: 'fieldType',
+              type: 'text',
+            },
+            {
+              name: 'objectTypeId',
+              type: 'text',
+            },
+          ],
+        },
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'required',
+              type: 'checkbox',
+              defaultValue: false,
+            },
+            {
+              name: 'hidden',
+              type: 'checkbox',
+              defaultValue: false,
+            },
+          ],
+        },
+        {
+          name: 'options',
+          type: 'array',
+          fields: [
+            {
+              name: 'label',
+              type: 'text',
+            },
+            {
+              name: 'value',
+              type: 'text',
+              required: true,
+            },
+          ],
+        },
+        {
+          name: 'validation',
+          type: 'json',
+          admin: {
+            description: 'Validation rules as returned by HubSpot',
+          },
+        },
+        {
+          name: 'dependentFields',
+          type: 'json',
+          admin: {
+            description: 'Fields shown when a condition on this field is met',
+          },
+        },
+      ],
+      labels: {
+        plural: 'Fields',
+        singular: 'Field',
+      },
+    },
+  ],
+  label: 'Fields',
+  labels: {
+    plural: 'Field Groups',
+    singular: 'Field Group',
+  },
+}
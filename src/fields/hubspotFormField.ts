@@ -0,0 +1,42 @@
+import type { SingleRelationshipField } from 'payload'
+
+export type HubSpotFormFieldOptions = Partial<
+  Pick<
+    SingleRelationshipField,
+    | 'access'
+    | 'admin'
+    | 'defaultValue'
+    | 'filterOptions'
+    | 'hooks'
+    | 'index'
+    | 'label'
+    | 'localized'
+    | 'name'
+    | 'required'
+  >
+>
+
+/**
+ * Relationship to a tracked HubSpot form, edited with a picker that searches the live forms in
+ * HubSpot and starts tracking the chosen form. When populated (depth >= 1) the form's GUID
+ * (`formId`), `portalId` and `fieldGroups` are included, so frontends can embed the form.
+ */
+export const hubspotFormField = ({
+  name = 'hubspotForm',
+  admin,
+  ...overrides
+}: HubSpotFormFieldOptions = {}): SingleRelationshipField => ({
+  name,
+  type: 'relationship',
+  label: 'HubSpot Form',
+  maxDepth: 1,
+  relationTo: 'hubspot-forms',
+  ...overrides,
+  admin: {
+    ...admin,
+    components: {
+      Field: 'payload-hubspot/client#HubSpotFormPicker',
+      ...admin?.components,
+    },
+  },
+})
@@ -0,0 +1,94 @@
+import type { GlobalConfig } from 'payload'
+
+import { isAdminUser } from '../utils/access.js'
+
+export const HUBSPOT_CONNECTION_SLUG = 'hubspot-connection'
+
+// Tokens are stored encrypted with the Payload secret and never returned by the API
+const hiddenTokenField = (name: string) => ({
+  name,
+  type: 'text' as const,
+  access: {
+    read: () => false,
+  },
+  admin: {
+    hidden: true,
+  },
+})
+
+// HubSpot portal connected through the OAuth app, managed by the connect and disconnect endpoints
+export const hubspotConnectionGlobal: GlobalConfig = {
+  slug: HUBSPOT_CONNECTION_SLUG,
+  access: {
+    read: isAdminUser,
+    update: () => false,
+  },
+  admin: {
+    description: 'HubSpot portal connected through the HubSpot app.',
+    group: 'Integrations',
+  },
+  fields: [
+    {
+      name: 'connect',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: 'payload-hubspot/client#HubSpotConnectButton',
+        },
+      },
+    },
+    {
+      name: 'portalId',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+      label: 'Portal ID',
+    },
+    {
+      name: 'hubDomain',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+      label: 'HubSpot domain',
+    },
+    {
+      name: 'connectedBy',
+      type: 'text',
+      admin: {
+        description: 'HubSpot user who connected the portal',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'connectedAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        readOnly: true,
+      },
+    },
+    {
+      name: 'scopes',
+      type: 'text',
+      admin: {
+        readOnly: true,
+      },
+      hasMany: true,
+    },
+    hiddenTokenField('accessToken'),
+    hiddenTokenField('refreshToken'),
+    {
+      name: 'expiresAt',
+      type: 'number',
+      admin: {
+        description: 'Access token expiry (epoch ms)',
+        hidden: true,
+      },
+    },
+  ],
+  label: 'HubSpot Connection',
+}
@@ -1,12 +1,238 @@
 import type { CollectionSlug, Config, PayloadRequest } from 'payload'
 
+import type { PayloadHubspotAccessConfig } from './utils/access.js'
+import type { PayloadHubspotCacheConfig } from './utils/cache.js'
+import type { HubSpotFormsApiVersion } from './utils/hubspotClient.js'
+import type { PayloadHubspotOAuthConfig } from './utils/oauth.js'
+import type { PayloadHubspotPortalConfig } from './utils/portals.js'
+import type { HubSpotRateLimitConfig } from './utils/rateLimiter.js'
+import type { PayloadHubspotTenantsConfig } from './utils/tenants.js'
+import type { PayloadHubspotWebhooksConfig } from './utils/webhooks.js'
+
+import { formAnalyticsSnapshotsCollection } from './collections/formAnalyticsSnapshots.js'
+import { formSubmissionsCollection } from './collections/formSubmissions.js'
+import { createFormUsagesCollection, FORM_USAGES_SLUG } from './collections/formUsages.js'
+import { syncRunsCollection } from './collections/syncRuns.js'
+import { formFieldGroupsField } from './fields/formFieldGroups.js'
+import { hubspotFormField } from './fields/hubspotFormField.js'
+import { hubspotConnectionGlobal } from './globals/hubspotConnection.js'
+import { createIndexFormUsagesTask, queueFormUsagesIndex } from './tasks/indexFormUsagesTask.js'
+import { createRefreshAnalyticsTask } from './tasks/refreshAnalyticsTask.js'
+import {
+  createSyncAnalyticsTask,
+  DEFAULT_SYNC_CRON,
+  DEFAULT_SYNC_QUEUE,
+  queueAnalyticsSync,
+} from './tasks/syncAnalyticsTask.js'
+import { createSyncSubmissionsTask } from './tasks/syncSubmissionsTask.js'
+import { isAdminUser, resolveAccess, withAccess } from './utils/access.js'
+import { getFormFieldGroups } from './utils/formFields.js'
+import { formUsageAfterChangeHook, formUsageAfterDeleteHook } from './utils/formUsage.js'
+import { getHubSpotClient, isHubSpotConfigured } from './utils/hubspotClient.js'
+import { HubSpotNotFoundError } from './utils/hubspotErrors.js'
+import { resolvePortalId } from './utils/oauth.js'
+import { getPortalConfig, getPortalId, getPortalOptions, hasPortals } from './utils/portals.js'
+import {
+  canAssignTenant,
+  getRequestTenant,
+  getTenantField,
+  getTenantPortal,
+  getTenantPortalField,
+  getTenantsCollection,
+  tenantAccess,
+  toTenantID,
+  validateTenantFormId,
+} from './utils/tenants.js'
+
 // Removed unused import - forms are now managed manually
 
+export { hubspotFormField } from './fields/hubspotFormField.js'
+export type { HubSpotFormFieldOptions } from './fields/hubspotFormField.js'
+export { isAdminUser } from './utils/access.js'
+export type { HubSpotAccess, PayloadHubspotAccessConfig } from './utils/access.js'
+export { collectionCache, memoryCache } from './utils/cache.js'
+export type {
+  HubSpotCache,
+  HubSpotCacheAdapter,
+  HubSpotCacheResource,
+  HubSpotCacheTTL,
+  MemoryCacheOptions,
+  PayloadHubspotCacheConfig,
+} from './utils/cache.js'
+export type {
+  HubSpotDependentFormField,
+  HubSpotFormField,
+  HubSpotFormFieldGroup,
+  HubSpotFormFieldOption,
+} from './utils/formFields.js'
+export type { FormFieldError } from './utils/formSubmit.js'
+export { getFormReferences } from './utils/formUsage.js'
+export type { HubSpotFormReference } from './utils/formUsage.js'
+export { HubSpotClient } from './utils/hubspotClient.js'
+export type {
+  HubSpotAnalyticsGranularity,
+  HubSpotClientOptions,
+  HubSpotDateRange,
+  HubSpotForm,
+  HubSpotFormAnalytics,
+  HubSpotFormAnalyticsReport,
+  HubSpotFormsApiVersion,
+  HubSpotFormStats,
+  HubSpotFormSubmission,
+  HubSpotFormSubmissionContext,
+  HubSpotFormSubmissionInput,
+  HubSpotFormSubmissionsPage,
+  HubSpotFormSubmitResult,
+  HubSpotRetryPolicy,
+} from './utils/hubspotClient.js'
+export {
+  HubSpotAuthError,
+  HubSpotError,
+  HubSpotNotFoundError,
+  HubSpotRateLimitError,
+  HubSpotUpstreamError,
+  HubSpotValidationError,
+} from './utils/hubspotErrors.js'
+export type { HubSpotValidationErrorDetail } from './utils/hubspotErrors.js'
+export type { HubSpotOAuthTokens, PayloadHubspotOAuthConfig } from './utils/oauth.js'
+export type { HubSpotPortalOption, PayloadHubspotPortalConfig } from './utils/portals.js'
+export { HubSpotRateLimiter } from './utils/rateLimiter.js'
+export type { HubSpotRateLimitConfig } from './utils/rateLimiter.js'
+export type { PayloadHubspotTenantsConfig } from './utils/tenants.js'
+export { verifyHubSpotSignature } from './utils/webhooks.js'
+export type {
+  HubSpotSignatureInput,
+  HubSpotWebhookEvent,
+  HubSpotWebhookEventHandler,
+  PayloadHubspotWebhooksConfig,
+} from './utils/webhooks.js'
+
+export type PayloadHubspotSyncConfig = {
+  /**
+   * Register the jobs queue runner for this instance. Set to false on instances that should
+   * not sync, e.g. all but one server, or serverless deployments that call
+   * `/api/payload-jobs/run` from an external cron instead.
+   * @default true
+   */
+  autoRun?: boolean
+  /**
+   * Cron schedule for the background analytics sync.
+   * @default '0 * * * *' (every hour)
+   */
+  cron?: string
+  disabled?: boolean
+  /**
+   * Maximum number of forms synced per run, stale forms beyond this are synced on later runs.
+   * @default 20
+   */
+  formsPerRun?: number
+  /**
+   * Jobs queue used for the sync task.
+   * @default 'hubspot'
+   */
+  queue?: string
+}
+
+export type PayloadHubspotCollectionConfig = {
+  /**
+   * Add a `hubspotForm` relationship field to the collection. Disable for collections that only
+   * embed forms through the rich text block, or that place `hubspotFormField()` themselves.
+   * @default true
+   */
+  field?: boolean
+}
+
 export type PayloadHubspotConfig = {
+  /**
+   * Access control for the plugin endpoints and collections, using the same `({ req }) => boolean`
+   * functions as Payload access control. Each defaults to an authenticated admin user.
+   */
+  access?: PayloadHubspotAccessConfig
+  /**
+   * Private app access token. Defaults to `HUBSPOT_API_KEY`, when neither is set requests use
+   * the tokens of the portal connected through `oauth`.
+   */
   apiKey?: string
-  collections?: Partial<Record<CollectionSlug, true>>
+  /**
+   * Base URL of the HubSpot API. Defaults to `HUBSPOT_BASE_URL` or `https://api.hubapi.com`.
+   * Point this at `startMockHubSpotServer()` from `payload-hubspot/mock` to develop offline.
+   */
+  baseUrl?: string
+  /**
+   * Cache forms and analytics read from HubSpot. Entries are kept in memory by default, pass
+   * `collectionCache()` as the adapter to share them between instances through the database.
+   */
+  cache?: PayloadHubspotCacheConfig
+  /**
+   * Collections that embed HubSpot forms. Each gets a `hubspotForm` relationship field, and the
+   * forms its documents reference (through any HubSpot form field or the rich text block) are
+   * listed under "Used in" on the form.
+   */
+  collections?: Partial<Record<CollectionSlug, PayloadHubspotCollectionConfig | true>>
+  /**
+   * Where the summary widget is shown on the main admin dashboard, above or below the
+   * collection cards.
+   * @default 'beforeDashboard'
+   */
+  dashboardPlacement?: 'afterDashboard' | 'beforeDashboard'
   disabled?: boolean
+  /**
+   * Leave the summary widget off the main admin dashboard. The overview above the `hubspot-forms`
+   * list is shown either way.
+   * @default false
+   */
   disableDashboard?: boolean
+  /**
+   * HubSpot forms API to use. Unset, the v3 marketing forms API is used and falls back to the
+   * legacy v2 API when v3 rejects a request with a 403 or 404. Set `'v2'` or `'v3'` to always use
+   * one, or set `formsApi` on a portal to pick the API per portal.
+   */
+  formsApi?: HubSpotFormsApiVersion
+  /**
+   * Connect a portal through a HubSpot public app instead of an API key. Adds a "Connect HubSpot"
+   * button to the admin panel, tokens are stored encrypted in the `hubspot-connection` global and
+   * refreshed automatically.
+   */
+  oauth?: PayloadHubspotOAuthConfig
+  /**
+   * HubSpot portal (hub) ID, used to submit forms. Defaults to `HUBSPOT_PORTAL_ID`.
+   */
+  portalId?: string
+  /**
+   * Connect several HubSpot portals, each with its own private app token. Tracked forms get a
+   * `portal` field, and sync, analytics and the dashboard work per portal. Replaces `apiKey`,
+   * `portalId` and `oauth`.
+   */
+  portals?: PayloadHubspotPortalConfig[]
+  /**
+   * Request budgets per portal. Every HubSpot request of the process waits on the portal's token
+   * bucket, which follows the `X-HubSpot-RateLimit-*` and `Retry-After` headers HubSpot returns.
+   * Portals in `portals` can override it.
+   * @default { burst: 100, burstInterval: 10000, concurrency: 5, daily: 250000 }
+   */
+  rateLimit?: Partial<HubSpotRateLimitConfig>
+  /**
+   * Copy submissions of tracked forms into the `hubspot-form-submissions` collection. Each
+   * background sync only pulls submissions received since the previous one.
+   * @default false
+   */
+  submissions?: boolean
+  /**
+   * Background analytics sync, run as the `hubspotSyncAnalytics` task on Payload's jobs queue.
+   */
+  sync?: PayloadHubspotSyncConfig
+  /**
+   * Scope forms to tenants, compatible with `@payloadcms/plugin-multi-tenant`. Tracked forms get a
+   * tenant field, and the endpoints and dashboard only show the forms of the selected tenant.
+   * With `portals`, each tenant can be mapped to its own portal.
+   */
+  tenants?: PayloadHubspotTenantsConfig
+  /**
+   * Receive HubSpot webhooks at `/api/hubspot/webhooks`. Requests are verified with the app's
+   * client secret, form submission events queue a `hubspotSyncSubmissions` job that updates the
+   * synced submissions and cached counts.
+   */
+  webhooks?: PayloadHubspotWebhooksConfig
 }
 
 let pluginOptionsGlobal: null | PayloadHubspotConfig = null
@@ -18,6 +244,13 @@ export const payloadHubspot =
   (config: Config): Config => {
     pluginOptionsGlobal = pluginOptions
 
+    const access = resolveAccess(pluginOptions.access)
+
+    // Collections whose documents are indexed in the form usage collection
+    const usageCollectionSlugs = Object.keys(pluginOptions.collections || {}).filter((slug) =>
+      config.collections?.some((collection) => collection.slug === slug),
+    )
+
     if (!config.collections) {
       config.collections = []
     }
@@ -25,9 +258,29 @@ export const payloadHubspot =
     // Add HubSpot Forms collection
     config.collections.push({
       slug: 'hubspot-forms',
+      // Users of a tenant only see and edit the forms of their tenants
+      access: {
+        create: isAdminUser,
+        delete: tenantAccess(pluginOptions, isAdminUser),
+        read: tenantAccess(pluginOptions, access.readForms),
+        update: tenantAccess(pluginOptions, isAdminUser),
+      },
       admin: {
         components: {
           beforeList: ['payload-hubspot/rsc#BeforeDashboardServer'],
+          views: {
+            edit: {
+              // Fields, analytics, usages, submissions and sync history of a tracked form
+              profile: {
+                Component: 'payload-hubspot/rsc#HubSpotFormProfileView',
+                path: '/profile',
+                tab: {
+                  href: '/profile',
+                  label: 'Profile',
+                },
+              },
+            },
+          },
         },
         description:
           'Add HubSpot forms you want to track. Enter the Form ID and the name will be fetched automatically. No forms are added without your action.',
@@ -44,8 +297,46 @@ export const payloadHubspot =
           },
           label: 'HubSpot Form ID',
           required: true,
-          unique: true,
+          // Tenants can track the same form, each once
+          ...(pluginOptions.tenants
+            ? { index: true, validate: validateTenantFormId(pluginOptions) }
+            : { unique: true }),
         },
+        ...(hasPortals(pluginOptions)
+          ? [
+              {
+                name: 'portal',
+                type: 'select' as const,
+                admin: {
+                  description: 'HubSpot portal the form belongs to',
+                  position: 'sidebar' as const,
+                },
+                defaultValue: getPortalConfig(pluginOptions)?.id,
+                index: true,
+                label: 'Portal',
+                options: getPortalOptions(pluginOptions).map(({ id, label }) => ({
+                  label,
+                  value: id,
+                })),
+                required: true,
+              },
+            ]
+          : []),
+        ...(pluginOptions.tenants && pluginOptions.tenants.addField !== false
+          ? [
+              {
+                name: getTenantField(pluginOptions),
+                type: 'relationship' as const,
+                admin: {
+                  description: 'Tenant the form belongs to',
+                  position: 'sidebar' as const,
+                },
+                index: true,
+                label: 'Tenant',
+                relationTo: getTenantsCollection(pluginOptions),
+              },
+            ]
+          : []),
         {
           name: 'name',
           type: 'text',
@@ -128,40 +419,119 @@ export const payloadHubspot =
             },
           ],
         },
+        formFieldGroupsField,
+        {
+          name: 'portalId',
+          type: 'text',
+          admin: {
+            hidden: true,
+          },
+          hooks: {
+            afterRead: [
+              ({ req, siblingData }) =>
+                resolvePortalId(req.payload, pluginOptions, siblingData?.portal),
+            ],
+          },
+          virtual: true,
+        },
+        ...(pluginOptions.submissions
+          ? [
+              {
+                name: 'submissionsCursor',
+                type: 'number' as const,
+                admin: {
+                  description: 'Submission time (epoch ms) of the newest synced submission',
+                  hidden: true,
+                  readOnly: true,
+                },
+              },
+            ]
+          : []),
+        ...(usageCollectionSlugs.length > 0
+          ? [
+              {
+                name: 'usedIn',
+                type: 'join' as const,
+                admin: {
+                  defaultColumns: ['title', 'document', 'source', 'path'],
+                  description: 'Documents that embed this form',
+                },
+                collection: FORM_USAGES_SLUG,
+                label: 'Used in',
+                on: 'form',
+              },
+            ]
+          : []),
       ],
       hooks: {
+        afterDelete: [
+          async ({ id, req }) => {
+            // Usages of a deleted form would otherwise keep counting towards it
+            if (usageCollectionSlugs.length > 0) {
+              await req.payload.delete({
+                collection: FORM_USAGES_SLUG,
+                req,
+                where: {
+                  form: {
+                    equals: id,
+                  },
+                },
+              })
+            }
+          },
+        ],
         beforeChange: [
-          async ({ data, operation }) => {
+          async ({ data, operation, req }) => {
+            if (pluginOptions.tenants) {
+              const tenantField = getTenantField(pluginOptions)
+
+              // Forms tracked from the admin panel belong to the tenant picked in the selector
+              const requestTenant = getRequestTenant(pluginOptions, req)
+              if (
+                operation === 'create' &&
+                !data[tenantField] &&
+                typeof requestTenant === 'string'
+              ) {
+                data[tenantField] = requestTenant
+              }
+
+              // Users can only add forms to, and move forms between, their own tenants
+              if (
+                (operation === 'create' || tenantField in data) &&
+                !canAssignTenant(pluginOptions, req.user, data[tenantField])
+              ) {
+                throw new Error('You are not allowed to add forms to this tenant.')
+              }
+
+              // A tenant mapped to a portal only tracks forms of that portal
+              if (operation === 'create') {
+                const tenantPortal = await getTenantPortal(
+                  req.payload,
+                  pluginOptions,
+                  toTenantID(data[tenantField]),
+                )
+                if (tenantPortal) {
+                  data.portal = tenantPortal
+                }
+              }
+            }
+
             // Only fetch form name when user is manually creating a new form entry
             if (data.formId && operation === 'create' && !data.name) {
-              const apiKey = pluginOptions.apiKey || process.env.HUBSPOT_API_KEY
-              if (apiKey) {
+              if (isHubSpotConfigured(pluginOptions)) {
                 try {
-                  // Fetch form details directly from HubSpot to validate and get name
-                  const response = await fetch('https://api.hubapi.com/forms/v2/forms', {
-                    headers: {
-                      Authorization: `Bearer ${apiKey}`,
-                      'Content-Type': 'application/json',
-                    },
-                  })
-
-                  if (response.ok) {
-                    const forms = await response.json()
-                    const form = forms.find(
-                      (f: { guid: string; name: string }) => f.guid === data.formId,
+                  // Fetch the form from HubSpot to validate the ID and get its name and fields
+                  const form = await getHubSpotClient(pluginOptions, req.payload, data.portal, {
+                    refresh: true,
+                  }).getForm(data.formId)
+                  data.name = form.name
+                  data.fieldGroups = getFormFieldGroups(form)
+                } catch (error) {
+                  if (error instanceof HubSpotNotFoundError) {
+                    throw new Error(
+                      `Form with ID ${data.formId} not found in HubSpot. Please check the Form ID.`,
                     )
-                    if (form) {
-                      data.name = form.name
-                    } else {
-                      // Form not found in HubSpot
-                      throw new Error(
-                        `Form with ID ${data.formId} not found in HubSpot. Please check the Form ID.`,
-                      )
-                    }
-                  } else {
-                    throw new Error('Unable to connect to HubSpot API to validate form ID')
                   }
-                } catch (error) {
                   // If we can't fetch the form name, let the user know
                   throw new Error(
                     `Unable to validate form ID with HubSpot: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -175,26 +545,115 @@ export const payloadHubspot =
           },
         ],
       },
+      ...(pluginOptions.tenants
+        ? { indexes: [{ fields: ['formId', getTenantField(pluginOptions)], unique: true }] }
+        : {}),
       labels: {
         plural: 'HubSpot Forms',
         singular: 'HubSpot Form',
       },
     })
 
+    // Historical analytics, one row per form per sync
+    config.collections.push({
+      ...formAnalyticsSnapshotsCollection,
+      access: {
+        ...formAnalyticsSnapshotsCollection.access,
+        read: access.readAnalytics,
+      },
+    })
+
+    // Synced form submissions, only when enabled
+    if (pluginOptions.submissions) {
+      config.collections.push({
+        ...formSubmissionsCollection,
+        // Submissions hold contact details, so users only see those of their tenants' forms
+        access: {
+          ...formSubmissionsCollection.access,
+          delete: tenantAccess(pluginOptions, isAdminUser, 'form'),
+          read: tenantAccess(pluginOptions, access.readSubmissions, 'form'),
+          update: tenantAccess(pluginOptions, isAdminUser, 'form'),
+        },
+      })
+    }
+
+    // Outcome of each background sync run
+    config.collections.push(syncRunsCollection)
+
+    // Storage of the cache adapter, e.g. the `hubspot-cache` collection of collectionCache()
+    config.collections.push(...(pluginOptions.cache?.adapter?.collections || []))
+
+    // Let each tenant pick its HubSpot portal
+    const tenantsCollection = pluginOptions.tenants
+      ? config.collections.find(
+          (collection) => collection.slug === getTenantsCollection(pluginOptions),
+        )
+      : undefined
+    if (tenantsCollection && hasPortals(pluginOptions)) {
+      tenantsCollection.fields.push({
+        name: getTenantPortalField(pluginOptions),
+        type: 'select',
+        admin: {
+          description: 'HubSpot portal whose forms this tenant tracks',
+          position: 'sidebar',
+        },
+        label: 'HubSpot portal',
+        options: getPortalOptions(pluginOptions).map(({ id, label }) => ({ label, value: id })),
+      })
+    }
+
+    // Tokens of the portal connected through the HubSpot app
+    if (pluginOptions.oauth) {
+      config.globals = [...(config.globals || []), hubspotConnectionGlobal]
+    }
+
+    // Reverse index of the documents embedding each form
+    if (usageCollectionSlugs.length > 0) {
+      config.collections.push(createFormUsagesCollection(usageCollectionSlugs))
+    }
+
+    if (!config.jobs) {
+      config.jobs = { tasks: [] }
+    }
+
+    config.jobs.tasks = [
+      ...(config.jobs.tasks || []),
+      createSyncAnalyticsTask(pluginOptions),
+      createRefreshAnalyticsTask(pluginOptions),
+    ]
+
+    // Submissions pulled after form submission webhooks
+    if (pluginOptions.webhooks && pluginOptions.submissions) {
+      config.jobs.tasks.push(createSyncSubmissionsTask(pluginOptions))
+    }
+
+    // Backfill of the usage index for documents saved before usages were tracked
+    if (usageCollectionSlugs.length > 0) {
+      config.jobs.tasks.push(createIndexFormUsagesTask(usageCollectionSlugs))
+    }
+
     if (pluginOptions.collections) {
       for (const collectionSlug in pluginOptions.collections) {
         const collection = config.collections.find(
           (collection) => collection.slug === collectionSlug,
         )
 
-        if (collection) {
-          collection.fields.push({
-            name: 'addedByPlugin',
-            type: 'text',
-            admin: {
-              position: 'sidebar',
-            },
-          })
+        if (!collection) {
+          continue
+        }
+
+        const collectionOptions = pluginOptions.collections[collectionSlug]
+
+        if (collectionOptions === true || collectionOptions?.field !== false) {
+          collection.fields.push(hubspotFormField())
+        }
+
+        if (!pluginOptions.disabled) {
+          collection.hooks = {
+            ...collection.hooks,
+            afterChange: [...(collection.hooks?.afterChange || []), formUsageAfterChangeHook],
+            afterDelete: [...(collection.hooks?.afterDelete || []), formUsageAfterDeleteHook],
+          }
         }
       }
     }
@@ -212,56 +671,56 @@ export const payloadHubspot =
 
     // Get all HubSpot forms for dashboard display
     config.endpoints.push({
-      handler: async (req: PayloadRequest) => {
+      handler: withAccess(access.readForms, async (req: PayloadRequest) => {
         try {
-          const apiKey = pluginOptions.apiKey || process.env.HUBSPOT_API_KEY
-          if (!apiKey) {
+          if (!isHubSpotConfigured(pluginOptions)) {
             return new Response(JSON.stringify({ error: 'HubSpot API key not configured' }), {
               headers: { 'Content-Type': 'application/json' },
               status: 500,
             })
           }
 
-          // Fetch all forms from HubSpot
-          const formsResponse = await fetch('https://api.hubapi.com/forms/v2/forms', {
-            headers: {
-              Authorization: `Bearer ${apiKey}`,
-              'Content-Type': 'application/json',
-            },
-          })
-
-          if (!formsResponse.ok) {
-            throw new Error(`HubSpot API failed with status ${formsResponse.status}`)
+          // Forms of the selected tenant, or of all the user's tenants
+          const tenant = getRequestTenant(pluginOptions, req)
+          if (tenant === null) {
+            return new Response(
+              JSON.stringify({ error: 'You are not allowed to access this tenant.' }),
+              {
+                headers: { 'Content-Type': 'application/json' },
+                status: 403,
+              },
+            )
           }
 
-          const allHubSpotForms = await formsResponse.json()
+          // Forms of one portal at a time, the tenant's own or the first one unless ?portal= is set
+          const tenantPortal = await getTenantPortal(req.payload, pluginOptions, tenant)
+          const requestedPortal = req.searchParams?.get('portal')
+          if (tenantPortal && requestedPortal && requestedPortal !== tenantPortal) {
+            return new Response(
+              JSON.stringify({ error: 'This portal is not available to the selected tenant' }),
+              {
+                headers: { 'Content-Type': 'application/json' },
+                status: 403,
+              },
+            )
+          }
 
-          // Get manually added forms from database to merge analytics
-          const { getPayload } = await import('payload')
-          const payload = await getPayload({ config: req.payload.config })
+          const portal = getPortalId(pluginOptions, tenantPortal || requestedPortal)
+          if (hasPortals(pluginOptions) && !portal) {
+            return new Response(JSON.stringify({ error: 'Unknown HubSpot portal' }), {
+              headers: { 'Content-Type': 'application/json' },
+              status: 400,
+            })
+          }
 
-          const { docs: manuallyAddedForms } = await payload.find({
-            collection: 'hubspot-forms',
-            limit: 1000,
+          // Fetch all forms from HubSpot, or from the cache unless ?refresh=true is set
+          const { getDashboardForms } = await import('./utils/dashboardForms.js')
+          const formsWithAnalytics = await getDashboardForms(req.payload, pluginOptions, {
+            portal,
+            refresh: req.searchParams?.get('refresh') === 'true',
+            tenant,
           })
 
-          // Create a map of manually added forms for quick lookup
-          const manualFormsMap = new Map(manuallyAddedForms.map((form) => [form.formId, form]))
-
-          // Merge HubSpot forms with cached analytics where available
-          const formsWithAnalytics = allHubSpotForms.map(
-            (hubspotForm: { guid: string; name: string }) => {
-              const manualForm = manualFormsMap.get(hubspotForm.guid)
-
-              return {
-                name: hubspotForm.name,
-                analytics: manualForm?.analytics || null, // Cached analytics if available
-                guid: hubspotForm.guid,
-                isTracked: !!manualForm, // Whether this form is manually added for tracking
-              }
-            },
-          )
-
           return new Response(JSON.stringify(formsWithAnalytics), {
             headers: { 'Content-Type': 'application/json' },
           })
@@ -277,42 +736,147 @@ export const payloadHubspot =
             },
           )
         }
-      },
+      }),
       method: 'get',
       path: '/hubspot/forms',
     })
 
+    // Portals the forms can come from, for the portal switchers
+    config.endpoints.push({
+      handler: withAccess(
+        access.readForms,
+        () =>
+          new Response(JSON.stringify({ docs: getPortalOptions(pluginOptions) }), {
+            headers: { 'Content-Type': 'application/json' },
+          }),
+      ),
+      method: 'get',
+      path: '/hubspot/portals',
+    })
+
+    // Analytics of many forms, streamed back form by form
+    config.endpoints.push({
+      handler: withAccess(access.readAnalytics, async (req: PayloadRequest) => {
+        const { batchFormAnalyticsHandler } = await import('./utils/hubspotApi.js')
+        return batchFormAnalyticsHandler(req, pluginOptions)
+      }),
+      method: 'post',
+      path: '/hubspot/form-analytics/batch',
+    })
+
+    // Daily analytics history of a tracked form, from the stored snapshots
+    config.endpoints.push({
+      handler: withAccess(access.readAnalytics, async (req: PayloadRequest) => {
+        const { formAnalyticsHistoryHandler } = await import('./utils/hubspotApi.js')
+        return formAnalyticsHistoryHandler(req, pluginOptions)
+      }),
+      method: 'get',
+      path: '/hubspot/form-analytics/:formGuid/history',
+    })
+
     // Individual form analytics endpoint
     config.endpoints.push({
-      handler: async (req: PayloadRequest) => {
+      handler: withAccess(access.readAnalytics, async (req: PayloadRequest) => {
         const { individualFormAnalyticsHandler } = await import('./utils/hubspotApi.js')
         return individualFormAnalyticsHandler(req, pluginOptions)
-      },
+      }),
       method: 'get',
       path: '/hubspot/form-analytics/:formGuid',
     })
 
-    // Refresh analytics endpoint
+    // Submit a tracked form on behalf of a headless frontend
+    config.endpoints.push({
+      handler: withAccess(access.submit, async (req: PayloadRequest) => {
+        const { submitFormHandler } = await import('./utils/formSubmit.js')
+        return submitFormHandler(req, pluginOptions)
+      }),
+      method: 'post',
+      path: '/hubspot/forms/:formId/submit',
+    })
+
+    // HubSpot webhooks, authenticated by the request signature rather than a Payload user
+    if (pluginOptions.webhooks) {
+      config.endpoints.push({
+        handler: async (req: PayloadRequest) => {
+          const { webhookHandler } = await import('./utils/webhooks.js')
+          return webhookHandler(req, pluginOptions)
+        },
+        method: 'post',
+        path: '/hubspot/webhooks',
+      })
+    }
+
+    if (pluginOptions.oauth) {
+      // Start the HubSpot app install
+      config.endpoints.push({
+        handler: withAccess(access.connect, async (req: PayloadRequest) => {
+          const { oauthInstallHandler } = await import('./utils/oauth.js')
+          return oauthInstallHandler(req, pluginOptions)
+        }),
+        method: 'get',
+        path: '/hubspot/oauth/install',
+      })
+
+      // HubSpot redirects here once the app is installed
+      config.endpoints.push({
+        handler: withAccess(access.connect, async (req: PayloadRequest) => {
+          const { oauthCallbackHandler } = await import('./utils/oauth.js')
+          return oauthCallbackHandler(req, pluginOptions)
+        }),
+        method: 'get',
+        path: '/hubspot/oauth/callback',
+      })
+
+      config.endpoints.push({
+        handler: withAccess(access.connect, async (req: PayloadRequest) => {
+          const { oauthDisconnectHandler } = await import('./utils/oauth.js')
+          return oauthDisconnectHandler(req, pluginOptions)
+        }),
+        method: 'post',
+        path: '/hubspot/oauth/disconnect',
+      })
+    }
+
+    // Refresh analytics endpoint, starts a refresh job and returns its ID right away
     config.endpoints.push({
-      handler: async (req: PayloadRequest) => {
+      handler: withAccess(access.refresh, async (req: PayloadRequest) => {
         try {
-          const { refreshFormAnalytics } = await import('./utils/syncFormAnalytics.js')
+          const { startAnalyticsRefresh } = await import('./utils/refreshJobs.js')
           const { getPayload } = await import('payload')
 
           const payload = await getPayload({ config: req.payload.config })
           const formId = req.routeParams?.formId as string | undefined
+          const portal = req.searchParams?.get('portal') || undefined
+
+          // Only the forms of the selected tenant, or of all the user's tenants
+          const tenant = getRequestTenant(pluginOptions, req)
+          if (tenant === null) {
+            return new Response(
+              JSON.stringify({ error: 'You are not allowed to access this tenant.' }),
+              {
+                headers: { 'Content-Type': 'application/json' },
+                status: 403,
+              },
+            )
+          }
 
-          await refreshFormAnalytics(payload, pluginOptions, formId)
+          const job = await startAnalyticsRefresh(payload, pluginOptions, formId, {
+            portal,
+            tenant,
+          })
 
           return new Response(
             JSON.stringify({
+              jobId: job.id,
               message: formId
-                ? `Analytics refreshed for form ${formId}`
-                : 'All analytics refreshed',
+                ? `Refreshing analytics for form ${formId}`
+                : 'Refreshing all analytics',
+              status: job.status,
               success: true,
             }),
             {
               headers: { 'Content-Type': 'application/json' },
+              status: 202,
             },
           )
         } catch (error) {
@@ -327,11 +891,21 @@ export const payloadHubspot =
             },
           )
         }
-      },
+      }),
       method: 'post',
       path: '/hubspot/refresh-analytics/:formId?',
     })
 
+    // Progress of a refresh job, as JSON or as a server-sent event stream
+    config.endpoints.push({
+      handler: withAccess(access.refresh, async (req: PayloadRequest) => {
+        const { refreshJobHandler } = await import('./utils/refreshJobs.js')
+        return refreshJobHandler(req, pluginOptions)
+      }),
+      method: 'get',
+      path: '/hubspot/refresh-analytics/jobs/:jobId',
+    })
+
     if (!config.admin) {
       config.admin = {}
     }
@@ -340,8 +914,32 @@ export const payloadHubspot =
       config.admin.components = {}
     }
 
-    if (!config.admin.components.beforeDashboard) {
-      config.admin.components.beforeDashboard = []
+    // Summary widget on the main admin dashboard
+    if (!pluginOptions.disableDashboard) {
+      const placement = pluginOptions.dashboardPlacement || 'beforeDashboard'
+      config.admin.components[placement] = [
+        ...(config.admin.components[placement] || []),
+        'payload-hubspot/rsc#HubSpotDashboardWidget',
+      ]
+    }
+
+    const syncOptions = pluginOptions.sync || {}
+    const syncQueue = syncOptions.queue || DEFAULT_SYNC_QUEUE
+
+    // Run the sync queue on the configured schedule
+    if (!syncOptions.disabled && syncOptions.autoRun !== false) {
+      const incomingAutoRun = config.jobs.autoRun
+
+      config.jobs.autoRun = async (payload) => [
+        ...(typeof incomingAutoRun === 'function'
+          ? await incomingAutoRun(payload)
+          : incomingAutoRun || []),
+        {
+          cron: syncOptions.cron || DEFAULT_SYNC_CRON,
+          limit: 1,
+          queue: syncQueue,
+        },
+      ]
     }
 
     config.endpoints.push({
@@ -360,42 +958,48 @@ export const payloadHubspot =
         await incomingOnInit(payload)
       }
 
-      // Sync HubSpot forms on init (basic form data only, no analytics)
-      try {
-        const apiKey = pluginOptions.apiKey || process.env.HUBSPOT_API_KEY
+      // Index the documents that embed forms when the usage index is still empty
+      if (usageCollectionSlugs.length > 0) {
+        try {
+          const jobID = await queueFormUsagesIndex(payload, syncQueue)
 
-        if (!apiKey) {
-          // HubSpot API key not found. Forms sync skipped.
-          return
+          if (jobID !== undefined) {
+            payload.jobs.runByID({ id: jobID }).catch((error: unknown) => {
+              payload.logger.error({ err: error, msg: 'Failed to index HubSpot form usages' })
+            })
+          }
+        } catch (error) {
+          payload.logger.error({ err: error, msg: 'Failed to queue HubSpot form usage indexing' })
         }
+      }
 
-        // Test API connection to ensure HubSpot is accessible
-        const testResponse = await fetch('https://api.hubapi.com/forms/v2/forms?limit=1', {
-          headers: {
-            Authorization: `Bearer ${apiKey}`,
-            'Content-Type': 'application/json',
-          },
-        })
+      if (!isHubSpotConfigured(pluginOptions)) {
+        payload.logger.warn('HubSpot API key not found. Forms sync skipped.')
+        return
+      }
 
-        if (!testResponse.ok) {
-          throw new Error(`HubSpot API connection failed with status ${testResponse.status}`)
+      // Test API connection to ensure HubSpot is accessible, for every portal
+      const portals = hasPortals(pluginOptions) ? getPortalOptions(pluginOptions) : [undefined]
+      for (const portal of portals) {
+        try {
+          await getHubSpotClient(pluginOptions, payload, portal?.id).ping()
+        } catch (error) {
+          payload.logger.error({
+            err: error,
+            msg: portal
+              ? `HubSpot API connection failed for portal ${portal.label}`
+              : 'HubSpot API connection failed',
+          })
         }
+      }
 
-        // API connection successful - forms will be added manually by users
-
-        // Start background analytics sync (non-blocking)
-        setTimeout(async () => {
-          try {
-            // Starting background analytics sync
-            const { syncFormAnalytics } = await import('./utils/syncFormAnalytics.js')
-            await syncFormAnalytics(payload, pluginOptions)
-            // Background analytics sync completed
-          } catch (_analyticsError) {
-            // Error during background analytics sync - silently handled
-          }
-        }, 5000) // 5 second delay to let server fully initialize
-      } catch (_error) {
-        // Error syncing HubSpot forms - silently handled
+      // Make sure a background analytics sync is waiting on the jobs queue
+      if (!syncOptions.disabled) {
+        try {
+          await queueAnalyticsSync(payload, syncQueue)
+        } catch (error) {
+          payload.logger.error({ err: error, msg: 'Failed to queue HubSpot analytics sync' })
+        }
       }
     }
 
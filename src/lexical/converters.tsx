@@ -0,0 +1,39 @@
+import type { HTMLConverters } from '@payloadcms/richtext-lexical/html'
+import type { JSXConverters } from '@payloadcms/richtext-lexical/react'
+
+import React from 'react'
+
+import type { HubSpotFormEmbedOptions } from './embed.js'
+import type { SerializedHubSpotFormBlockNode } from './hubspotFormBlock.js'
+
+import { HubSpotFormEmbed } from '../components/HubSpotFormEmbed.js'
+import { toHubSpotFormEmbed, toHubSpotFormEmbedHTML } from './embed.js'
+
+/**
+ * JSX converters for `<RichText />` from `@payloadcms/richtext-lexical/react`, rendering HubSpot
+ * form blocks with the HubSpot embed script. Requires the `form` relationship to be populated.
+ */
+export const hubspotFormJSXConverters = (
+  options?: HubSpotFormEmbedOptions,
+): JSXConverters<SerializedHubSpotFormBlockNode> => ({
+  blocks: {
+    hubspotForm: ({ node }) => {
+      const embed = toHubSpotFormEmbed(node.fields, options)
+      return embed ? <HubSpotFormEmbed {...embed} /> : null
+    },
+  },
+})
+
+// HTML converters for `convertLexicalToHTML` from `@payloadcms/richtext-lexical/html`
+export const hubspotFormHTMLConverters = (
+  options?: HubSpotFormEmbedOptions,
+): HTMLConverters<SerializedHubSpotFormBlockNode> => ({
+  blocks: {
+    hubspotForm: ({ node }) => {
+      const embed = toHubSpotFormEmbed(node.fields, options)
+      return embed
+        ? toHubSpotFormEmbedHTML(embed, `hubspot-form-${node.fields.id || embed.formId}`)
+        : ''
+    },
+  },
+})
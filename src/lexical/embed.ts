@@ -0,0 +1,60 @@
+import type { HubSpotFormBlockFields } from './hubspotFormBlock.js'
+
+export const HUBSPOT_EMBED_SCRIPT_URL = 'https://js.hsforms.net/forms/embed/v2.js'
+
+// Options passed to `hbspt.forms.create()`, also usable by headless renderers
+export type HubSpotFormEmbed = {
+  cssClass?: string
+  formId: string
+  inlineMessage?: string
+  portalId: string
+  redirectUrl?: string
+  region: string
+}
+
+export type HubSpotFormEmbedOptions = {
+  /**
+   * HubSpot data center region of the portal.
+   * @default 'na1'
+   */
+  region?: string
+}
+
+/**
+ * Embed options for a HubSpot form block. Returns null when the `form` relationship is not
+ * populated (depth 0) or the portal ID is not configured.
+ */
+export const toHubSpotFormEmbed = (
+  fields: HubSpotFormBlockFields,
+  { region = 'na1' }: HubSpotFormEmbedOptions = {},
+): HubSpotFormEmbed | null => {
+  const { form } = fields
+  if (!form || typeof form !== 'object' || !form.portalId) {
+    return null
+  }
+
+  return {
+    cssClass: fields.className || undefined,
+    formId: form.formId,
+    // HubSpot shows the redirect instead of the message when both are set
+    inlineMessage: fields.redirectUrl ? undefined : fields.inlineMessage || undefined,
+    portalId: form.portalId,
+    redirectUrl: fields.redirectUrl || undefined,
+    region,
+  }
+}
+
+const escapeAttribute = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+// Embed markup for a form, a target element followed by the HubSpot embed script
+export const toHubSpotFormEmbedHTML = (embed: HubSpotFormEmbed, targetId: string): string => {
+  const options = JSON.stringify({ ...embed, target: `#${targetId}` }).replace(/</g, '\\u003c')
+  const className = ['hubspot-form', embed.cssClass].filter(Boolean).join(' ')
+
+  return [
+    `<div class="${escapeAttribute(className)}" id="${escapeAttribute(targetId)}"></div>`,
+    `<script charset="utf-8" src="${HUBSPOT_EMBED_SCRIPT_URL}"></script>`,
+    `<script>hbspt.forms.create(${options});</script>`,
+  ].join('')
+}
@@ -0,0 +1,6 @@
+import { BlocksFeature } from '@payloadcms/richtext-lexical'
+
+import { hubspotFormBlock } from './hubspotFormBlock.js'
+
+// Lexical feature that lets editors embed tracked HubSpot forms in rich text
+export const HubSpotFormFeature = () => BlocksFeature({ blocks: [hubspotFormBlock] })
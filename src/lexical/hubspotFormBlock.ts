@@ -0,0 +1,71 @@
+import type { SerializedBlockNode } from '@payloadcms/richtext-lexical'
+import type { Block } from 'payload'
+
+import { hubspotFormField } from '../fields/hubspotFormField.js'
+
+export const HUBSPOT_FORM_BLOCK_SLUG = 'hubspotForm'
+
+// The `form` relationship is an ID at depth 0, and the hubspot-forms document once populated
+export type HubSpotFormBlockFields = {
+  blockName?: null | string
+  blockType: typeof HUBSPOT_FORM_BLOCK_SLUG
+  className?: null | string
+  form:
+    | {
+        fieldGroups?: null | unknown[]
+        formId: string
+        id: number | string
+        name: string
+        portalId?: null | string
+      }
+    | number
+    | string
+  id?: string
+  inlineMessage?: null | string
+  redirectUrl?: null | string
+}
+
+export type SerializedHubSpotFormBlockNode = SerializedBlockNode<HubSpotFormBlockFields>
+
+export const hubspotFormBlock: Block = {
+  slug: HUBSPOT_FORM_BLOCK_SLUG,
+  fields: [
+    hubspotFormField({ name: 'form', label: 'Form', required: true }),
+    {
+      name: 'preview',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: 'payload-hubspot/client#HubSpotFormPreview',
+        },
+      },
+    },
+    {
+      name: 'redirectUrl',
+      type: 'text',
+      admin: {
+        description: 'Send visitors to this URL after they submit the form',
+      },
+      label: 'Redirect URL',
+    },
+    {
+      name: 'inlineMessage',
+      type: 'textarea',
+      admin: {
+        description:
+          'Shown in place of the form after it is submitted, unless a redirect URL is set',
+      },
+      label: 'Thank-you message',
+    },
+    {
+      name: 'className',
+      type: 'text',
+      label: 'CSS class',
+    },
+  ],
+  interfaceName: 'HubSpotFormBlock',
+  labels: {
+    plural: 'HubSpot Forms',
+    singular: 'HubSpot Form',
+  },
+}
@@ -0,0 +1,442 @@
+import type { IncomingMessage, Server, ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+
+import { existsSync, readFileSync } from 'fs'
+import { createServer } from 'http'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const dirname = path.dirname(fileURLToPath(import.meta.url))
+
+export type MockHubSpotServerOptions = {
+  fixturesDir?: string // Directory holding forms.json, analytics.json and optionally submissions.json, defaults to the bundled fixtures
+  host?: string
+  port?: number // Defaults to a random free port
+}
+
+export type MockHubSpotServer = {
+  close: () => Promise<void>
+  server: Server
+  url: string // Base URL to pass as the plugin's `baseUrl` option
+}
+
+type MockForm = {
+  [key: string]: unknown
+  guid: string
+  name: string
+}
+
+type MockFixtures = {
+  analytics: Record<string, Record<string, number>>
+  forms: MockForm[]
+  submissions: Record<string, unknown[]> // Newest first, like the form-integrations API
+}
+
+type MockRoute = {
+  handler: (
+    match: RegExpMatchArray,
+    url: URL,
+    fixtures: MockFixtures,
+    body: unknown,
+  ) => [number, unknown, Record<string, string>?]
+  isPublic?: boolean // Served without a Bearer token, like HubSpot's OAuth endpoints
+  method: string
+  pattern: RegExp
+}
+
+// Portal and tokens handed out by the mock OAuth flow
+const MOCK_OAUTH_PORTAL_ID = 12345678
+const MOCK_AUTH_CODE = 'mock-auth-code'
+const MOCK_REFRESH_TOKEN = 'mock-refresh-token'
+
+const loadFixture = <T>(fixturesDir: string, file: string): T =>
+  JSON.parse(readFileSync(path.join(fixturesDir, file), 'utf-8')) as T
+
+const notFound = (message: string): [number, unknown] => [
+  404,
+  { category: 'OBJECT_NOT_FOUND', message, status: 'error' },
+]
+
+const V3_FIELD_TYPES: Record<string, string> = {
+  booleancheckbox: 'single_checkbox',
+  checkbox: 'multiple_checkboxes',
+  date: 'datepicker',
+  file: 'file',
+  number: 'number',
+  phonenumber: 'phone',
+  radio: 'radio',
+  select: 'dropdown',
+  text: 'single_line_text',
+  textarea: 'multi_line_text',
+}
+
+type MockV2Field = {
+  [key: string]: unknown
+  dependentFieldFilters?: Array<{
+    dependentFormField: MockV2Field
+    filters: Array<{ operator: string; strValue?: string }>
+  }>
+  fieldType: string
+  name: string
+  validation?: { blockedEmailAddresses?: string[]; useDefaultBlockList?: boolean }
+}
+
+const toV3Field = ({
+  dependentFieldFilters,
+  validation,
+  ...field
+}: MockV2Field): Record<string, unknown> => ({
+  ...field,
+  dependentFields: (dependentFieldFilters || []).map((dependent) => ({
+    dependentCondition: {
+      operator: dependent.filters[0]?.operator.toLowerCase(),
+      value: dependent.filters[0]?.strValue,
+    },
+    dependentField: toV3Field(dependent.dependentFormField),
+  })),
+  fieldType: field.name === 'email' ? 'email' : V3_FIELD_TYPES[field.fieldType] || field.fieldType,
+  hidden: false,
+  objectTypeId: '0-1',
+  ...(validation && {
+    validation: {
+      blockedEmailDomains: validation.blockedEmailAddresses || [],
+      useDefaultBlockList: Boolean(validation.useDefaultBlockList),
+    },
+  }),
+})
+
+// Serve the v2 fixtures in the shape returned by the v3 marketing forms API
+const toV3Form = (form: MockForm) => ({
+  id: form.guid,
+  name: form.name,
+  archived: false,
+  createdAt: new Date(Number(form.createdAt) || 0).toISOString(),
+  fieldGroups: ((form.formFieldGroups as { fields: MockV2Field[] }[]) || []).map((group) => ({
+    fields: group.fields.map(toV3Field),
+    groupType: 'default_group',
+    richTextType: 'text',
+  })),
+  formType: 'hubspot',
+  updatedAt: new Date(Number(form.updatedAt) || 0).toISOString(),
+})
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const fromReportDate = (value: null | string, fallback: Date): Date =>
+  value && /^\d{8}$/.test(value)
+    ? new Date(`${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}T00:00:00Z`)
+    : fallback
+
+// Bucket start dates between start and end for a daily, weekly (Monday) or monthly report
+const reportBuckets = (granularity: string, start: Date, end: Date): string[] => {
+  const buckets: string[] = []
+  const cursor = new Date(start)
+  if (granularity === 'weekly') {
+    cursor.setUTCDate(cursor.getUTCDate() - ((cursor.getUTCDay() + 6) % 7))
+  } else if (granularity === 'monthly') {
+    cursor.setUTCDate(1)
+  }
+
+  while (cursor <= end) {
+    buckets.push(cursor.toISOString().slice(0, 10))
+    if (granularity === 'monthly') {
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+    } else {
+      cursor.setUTCDate(cursor.getUTCDate() + (granularity === 'weekly' ? 7 : 1))
+    }
+  }
+  return buckets
+}
+
+// Spread the fixture totals evenly over the buckets so reports add up to roughly the same numbers
+const reportRow = (formGuid: string, totals: Record<string, number>, bucketCount: number) => {
+  const row: Record<string, number | string> = { breakdown: formGuid }
+  for (const [metric, value] of Object.entries(totals)) {
+    row[metric] = Number.isInteger(value) ? Math.round(value / bucketCount) : value
+  }
+  return row
+}
+
+const routes: MockRoute[] = [
+  {
+    // Stands in for the install page, approving right away
+    handler: (_match, url) => {
+      const redirectUri = url.searchParams.get('redirect_uri') || ''
+      if (!URL.canParse(redirectUri) || !/^https?:$/.test(new URL(redirectUri).protocol)) {
+        return [400, { message: 'redirect_uri must be an http(s) URL', status: 'BAD_REDIRECT_URI' }]
+      }
+
+      const redirect = new URL(redirectUri)
+      redirect.searchParams.set('code', MOCK_AUTH_CODE)
+      redirect.searchParams.set('state', url.searchParams.get('state') || '')
+      return [302, undefined, { Location: redirect.toString() }]
+    },
+    isPublic: true,
+    method: 'GET',
+    pattern: /^\/oauth\/authorize$/,
+  },
+  {
+    handler: (_match, _url, _fixtures, body) => {
+      const params = (body || {}) as Record<string, string>
+      const isValidGrant =
+        (params.grant_type === 'authorization_code' && params.code === MOCK_AUTH_CODE) ||
+        (params.grant_type === 'refresh_token' && params.refresh_token === MOCK_REFRESH_TOKEN)
+
+      if (!params.client_id || !params.client_secret || !isValidGrant) {
+        return [400, { message: 'missing or invalid grant', status: 'BAD_AUTH_CODE' }]
+      }
+
+      return [
+        200,
+        {
+          access_token: `mock-access-token-${Date.now()}`,
+          expires_in: 1800,
+          refresh_token: MOCK_REFRESH_TOKEN,
+          token_type: 'bearer',
+        },
+      ]
+    },
+    isPublic: true,
+    method: 'POST',
+    pattern: /^\/oauth\/v1\/token$/,
+  },
+  {
+    handler: (match) => [
+      200,
+      {
+        app_id: 1,
+        hub_domain: 'mock-portal.hubspot.com',
+        hub_id: MOCK_OAUTH_PORTAL_ID,
+        scopes: ['oauth', 'forms', 'business-intelligence'],
+        token: decodeURIComponent(match[1]),
+        user: 'admin@example.com',
+      },
+    ],
+    isPublic: true,
+    method: 'GET',
+    pattern: /^\/oauth\/v1\/access-tokens\/([^/]+)$/,
+  },
+  {
+    handler: () => [204, undefined],
+    isPublic: true,
+    method: 'DELETE',
+    pattern: /^\/oauth\/v1\/refresh-tokens\/([^/]+)$/,
+  },
+  {
+    handler: (_match, url, { forms }) => {
+      const limit = Number(url.searchParams.get('limit')) || 20
+      const offset = Number(url.searchParams.get('after')) || 0
+      const next = offset + limit
+      return [
+        200,
+        {
+          paging: next < forms.length ? { next: { after: String(next) } } : undefined,
+          results: forms.slice(offset, next).map(toV3Form),
+        },
+      ]
+    },
+    method: 'GET',
+    pattern: /^\/marketing\/v3\/forms\/?$/,
+  },
+  {
+    handler: (match, _url, { forms }) => {
+      const form = forms.find((f) => f.guid === decodeURIComponent(match[1]))
+      return form ? [200, toV3Form(form)] : notFound(`Form ${match[1]} does not exist`)
+    },
+    method: 'GET',
+    pattern: /^\/marketing\/v3\/forms\/([^/]+)$/,
+  },
+  {
+    handler: (_match, url, { forms }) => {
+      const limit = Number(url.searchParams.get('limit'))
+      return [200, limit > 0 ? forms.slice(0, limit) : forms]
+    },
+    method: 'GET',
+    pattern: /^\/forms\/v2\/forms$/,
+  },
+  {
+    handler: (match, _url, { forms }) => {
+      const form = forms.find((f) => f.guid === decodeURIComponent(match[1]))
+      return form ? [200, form] : notFound(`Form ${match[1]} does not exist`)
+    },
+    method: 'GET',
+    pattern: /^\/forms\/v2\/forms\/([^/]+)$/,
+  },
+  {
+    handler: (_match, url, { analytics }) => {
+      const formGuid = url.searchParams.get('f') || ''
+      return analytics[formGuid]
+        ? [200, { totals: analytics[formGuid] }]
+        : notFound(`No analytics for form ${formGuid}`)
+    },
+    method: 'GET',
+    pattern: /^\/analytics\/v2\/reports\/forms\/total$/,
+  },
+  {
+    handler: (match, url, { analytics }) => {
+      const formGuid = url.searchParams.get('f') || ''
+      if (!analytics[formGuid]) {
+        return notFound(`No analytics for form ${formGuid}`)
+      }
+
+      const end = fromReportDate(url.searchParams.get('end'), new Date())
+      const start = fromReportDate(
+        url.searchParams.get('start'),
+        new Date(end.getTime() - 30 * DAY_MS),
+      )
+      const buckets = reportBuckets(match[1], start, end)
+
+      return [
+        200,
+        Object.fromEntries(
+          buckets.map((date) => [date, [reportRow(formGuid, analytics[formGuid], buckets.length)]]),
+        ),
+      ]
+    },
+    method: 'GET',
+    pattern: /^\/analytics\/v2\/reports\/forms\/(daily|weekly|monthly)$/,
+  },
+  {
+    handler: (match, url, { forms, submissions }) => {
+      const formGuid = decodeURIComponent(match[1])
+      if (!forms.some((f) => f.guid === formGuid)) {
+        return notFound(`Form ${formGuid} does not exist`)
+      }
+
+      const results = submissions[formGuid] || []
+      const limit = Number(url.searchParams.get('limit')) || 20
+      const offset = Number(url.searchParams.get('after')) || 0
+      const next = offset + limit
+      return [
+        200,
+        {
+          paging: next < results.length ? { next: { after: String(next) } } : undefined,
+          results: results.slice(offset, next),
+        },
+      ]
+    },
+    method: 'GET',
+    pattern: /^\/form-integrations\/v1\/submissions\/forms\/([^/]+)$/,
+  },
+  {
+    handler: (match, _url, { forms }, body) => {
+      const formGuid = decodeURIComponent(match[2])
+      if (!forms.some((f) => f.guid === formGuid)) {
+        return notFound(`Form ${formGuid} does not exist`)
+      }
+
+      // Mirror HubSpot's own check on email fields
+      const fields = (body as { fields?: { name: string; value: string }[] })?.fields || []
+      const email = fields.find((field) => field.name === 'email')
+      if (email && !/^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(email.value)) {
+        return [
+          400,
+          {
+            errors: [
+              {
+                errorType: 'INVALID_EMAIL',
+                message: "Error in 'fields.email'. Invalid email address",
+              },
+            ],
+            message: 'The request is not valid',
+            status: 'error',
+          },
+        ]
+      }
+
+      return [200, { inlineMessage: 'Thanks for submitting the form.' }]
+    },
+    method: 'POST',
+    pattern: /^\/submissions\/v3\/integration\/secure\/submit\/([^/]+)\/([^/]+)$/,
+  },
+]
+
+const readBody = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  const text = Buffer.concat(chunks).toString('utf-8')
+  if (req.headers['content-type']?.startsWith('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text))
+  }
+  try {
+    return text ? JSON.parse(text) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+) => {
+  if (body === undefined) {
+    res.writeHead(status, headers)
+    res.end()
+    return
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+/**
+ * Start an in-process HTTP server that mimics the HubSpot endpoints used by the plugin,
+ * serving data from fixture JSON. Any non-empty Bearer token is accepted, and the OAuth flow
+ * connects portal 12345678.
+ */
+export const startMockHubSpotServer = async (
+  options: MockHubSpotServerOptions = {},
+): Promise<MockHubSpotServer> => {
+  const fixturesDir = options.fixturesDir || path.resolve(dirname, 'fixtures')
+  const fixtures: MockFixtures = {
+    analytics: loadFixture(fixturesDir, 'analytics.json'),
+    forms: loadFixture(fixturesDir, 'forms.json'),
+    submissions: existsSync(path.join(fixturesDir, 'submissions.json'))
+      ? loadFixture(fixturesDir, 'submissions.json')
+      : {},
+  }
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const requestBody = await readBody(req)
+
+    for (const route of routes) {
+      const match = url.pathname.match(route.pattern)
+      if (match && route.method === req.method) {
+        if (!route.isPublic && !/^Bearer .+/.test(req.headers.authorization || '')) {
+          sendJson(res, 401, { category: 'INVALID_AUTHENTICATION', status: 'error' })
+          return
+        }
+
+        const [status, body, headers] = route.handler(match, url, fixtures, requestBody)
+        sendJson(res, status, body, headers)
+        return
+      }
+    }
+
+    sendJson(res, 404, { message: `No mock for ${req.method} ${url.pathname}`, status: 'error' })
+  })
+
+  const host = options.host || '127.0.0.1'
+  // A port already in use rejects instead of crashing the process
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port || 0, host, () => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+  const { port } = server.address() as AddressInfo
+
+  // Never keep the host process alive just for the mock
+  server.unref()
+
+  return {
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    server,
+    url: `http://${host}:${port}`,
+  }
+}
@@ -0,0 +1,62 @@
+import type { CollectionSlug, Payload, TaskConfig } from 'payload'
+
+import { FORM_USAGES_SLUG } from '../collections/formUsages.js'
+import { indexCollectionFormUsages } from '../utils/formUsage.js'
+import { queueJobOnce } from '../utils/jobs.js'
+
+export const INDEX_FORM_USAGES_TASK_SLUG = 'hubspotIndexFormUsages'
+
+type IndexFormUsagesTaskIO = {
+  input: Record<string, never>
+  output: {
+    documents: number
+  }
+}
+
+/**
+ * Queue a full usage reindex when the usage index is empty, so documents saved before usages
+ * were tracked are listed without saving them again. Returns the ID of the new job.
+ */
+export const queueFormUsagesIndex = async (
+  payload: Payload,
+  queue: string,
+): Promise<(number | string) | undefined> => {
+  const { totalDocs } = await payload.count({ collection: FORM_USAGES_SLUG })
+  if (totalDocs > 0) {
+    return undefined
+  }
+
+  const input: IndexFormUsagesTaskIO['input'] = {}
+
+  return queueJobOnce(payload, INDEX_FORM_USAGES_TASK_SLUG, () =>
+    payload.jobs.queue<typeof INDEX_FORM_USAGES_TASK_SLUG>({
+      input,
+      queue,
+      task: INDEX_FORM_USAGES_TASK_SLUG,
+    }),
+  )
+}
+
+// Index the form usages of every document in the collections that embed forms
+export const createIndexFormUsagesTask = (
+  collectionSlugs: CollectionSlug[],
+): TaskConfig<IndexFormUsagesTaskIO> => ({
+  slug: INDEX_FORM_USAGES_TASK_SLUG,
+  handler: async ({ req }) => {
+    let documents = 0
+
+    for (const collectionSlug of collectionSlugs) {
+      documents += await indexCollectionFormUsages(req, collectionSlug)
+    }
+
+    return { output: { documents } }
+  },
+  label: 'Index HubSpot form usages',
+  outputSchema: [
+    {
+      name: 'documents',
+      type: 'number',
+      required: true,
+    },
+  ],
+})
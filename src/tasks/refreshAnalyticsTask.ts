@@ -0,0 +1,197 @@
+import type { JsonObject, Payload, TaskConfig } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type {
+  AnalyticsSyncFormResult,
+  AnalyticsSyncResult,
+  AnalyticsSyncScope,
+} from '../utils/syncFormAnalytics.js'
+
+import { SYNC_RUNS_SLUG } from '../collections/syncRuns.js'
+import { queueJobOnce } from '../utils/jobs.js'
+import { refreshFormAnalytics } from '../utils/syncFormAnalytics.js'
+
+export const REFRESH_ANALYTICS_TASK_SLUG = 'hubspotRefreshAnalytics'
+
+type ID = number | string
+
+export type RefreshAnalyticsTaskIO = {
+  input: {
+    formId?: string
+    portal?: string
+    run?: { id: ID } | ID // Refresh job the progress is recorded on
+    tenants?: string[]
+  }
+  output: {
+    failed: number
+    processed: number
+  }
+}
+
+/**
+ * Queue a refresh of one form, or of every form in scope, and return the ID of the job. Jobs are
+ * stored in the database, so a refresh interrupted by a restart is picked up by the next runner.
+ */
+export const queueAnalyticsRefresh = async (
+  payload: Payload,
+  queue: string,
+  input: RefreshAnalyticsTaskIO['input'],
+): Promise<ID> => {
+  const job: JsonObject = await payload.jobs.queue<typeof REFRESH_ANALYTICS_TASK_SLUG>({
+    input,
+    queue,
+    task: REFRESH_ANALYTICS_TASK_SLUG,
+  })
+
+  return job.id
+}
+
+/**
+ * Queue a refresh of every form of a portal unless one is already waiting, and return the ID of
+ * the new job. Webhook events arriving while a refresh waits are covered by that refresh.
+ */
+export const queuePortalAnalyticsRefresh = async (
+  payload: Payload,
+  queue: string,
+  portal?: string,
+): Promise<ID | undefined> => {
+  const input: RefreshAnalyticsTaskIO['input'] = portal ? { portal } : {}
+
+  return queueJobOnce(
+    payload,
+    REFRESH_ANALYTICS_TASK_SLUG,
+    () =>
+      payload.jobs.queue<typeof REFRESH_ANALYTICS_TASK_SLUG>({
+        input,
+        queue,
+        task: REFRESH_ANALYTICS_TASK_SLUG,
+      }),
+    // Dashboard refreshes of single forms or tenants don't cover the portal
+    (jobInput) =>
+      !jobInput.run &&
+      !jobInput.formId &&
+      !(Array.isArray(jobInput.tenants) && jobInput.tenants.length > 0) &&
+      (jobInput.portal || undefined) === input.portal,
+  )
+}
+
+/**
+ * Refresh analytics while recording each form's outcome on the refresh job, so the dashboard can
+ * report progress from any instance. A failing refresh is recorded on the job before it throws.
+ */
+const refreshWithProgress = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+  run: ID,
+  formId: string | undefined,
+  scope: AnalyticsSyncScope,
+): Promise<AnalyticsSyncResult> => {
+  const results: AnalyticsSyncFormResult[] = []
+
+  // Writes are chained so a slow progress update never overwrites a later one
+  let writes = Promise.resolve()
+  const save = (data: JsonObject): Promise<void> => {
+    writes = writes.then(
+      () =>
+        payload
+          .update({ id: run, collection: SYNC_RUNS_SLUG, data })
+          .then(() => undefined)
+          .catch((error: unknown) => {
+            payload.logger.error({ err: error, msg: `Failed to update refresh job ${run}` })
+          }),
+      () => undefined,
+    )
+    return writes
+  }
+
+  const countResults = () => ({
+    failed: results.filter((result) => result.status === 'failed').length,
+    processed: results.filter((result) => result.status === 'succeeded').length,
+  })
+
+  try {
+    const result = await refreshFormAnalytics(payload, pluginOptions, formId, {
+      ...scope,
+      onForm: (formResult) => {
+        results.push(formResult)
+        void save({ ...countResults(), results: [...results] })
+      },
+    })
+
+    await save({
+      ...result,
+      finishedAt: new Date().toISOString(),
+      results: [...results],
+      status: result.failed > 0 ? 'partial' : 'succeeded',
+    })
+
+    return result
+  } catch (error) {
+    payload.logger.error({ err: error, msg: `Refresh job ${run} failed` })
+    await save({
+      ...countResults(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      finishedAt: new Date().toISOString(),
+      results: [...results],
+      status: 'failed',
+    })
+
+    throw error
+  }
+}
+
+export const createRefreshAnalyticsTask = (
+  pluginOptions: PayloadHubspotConfig,
+): TaskConfig<RefreshAnalyticsTaskIO> => ({
+  slug: REFRESH_ANALYTICS_TASK_SLUG,
+  handler: async ({ input, req }) => {
+    const { formId, portal, run, tenants } = input || {}
+    const scope = { portal, tenant: tenants }
+
+    const result =
+      run === undefined || run === null
+        ? await refreshFormAnalytics(req.payload, pluginOptions, formId, scope)
+        : await refreshWithProgress(
+            req.payload,
+            pluginOptions,
+            typeof run === 'object' ? run.id : run,
+            formId,
+            scope,
+          )
+
+    return { output: { failed: result.failed, processed: result.processed } }
+  },
+  inputSchema: [
+    {
+      name: 'formId',
+      type: 'text',
+    },
+    {
+      name: 'portal',
+      type: 'text',
+    },
+    {
+      name: 'run',
+      type: 'relationship',
+      relationTo: SYNC_RUNS_SLUG,
+    },
+    {
+      name: 'tenants',
+      type: 'text',
+      hasMany: true,
+    },
+  ],
+  label: 'Refresh HubSpot form analytics',
+  outputSchema: [
+    {
+      name: 'processed',
+      type: 'number',
+      required: true,
+    },
+    {
+      name: 'failed',
+      type: 'number',
+      required: true,
+    },
+  ],
+})
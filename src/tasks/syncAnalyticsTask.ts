@@ -0,0 +1,132 @@
+import type { Payload, TaskConfig } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+
+import { SYNC_RUNS_SLUG } from '../collections/syncRuns.js'
+import { queueJobOnce } from '../utils/jobs.js'
+import { MAX_FORMS_PER_SYNC, syncFormAnalytics } from '../utils/syncFormAnalytics.js'
+import { syncFormSubmissions } from '../utils/syncFormSubmissions.js'
+
+export const SYNC_ANALYTICS_TASK_SLUG = 'hubspotSyncAnalytics'
+export const DEFAULT_SYNC_CRON = '0 * * * *' // Every hour
+export const DEFAULT_SYNC_QUEUE = 'hubspot'
+
+type SyncAnalyticsTaskIO = {
+  input: {
+    forceRefresh?: boolean
+  }
+  output: {
+    failed: number
+    processed: number
+    remaining: number
+    submissions?: number
+  }
+}
+
+/**
+ * Queue the next sync unless one is already waiting. Jobs are stored in the database and
+ * picked up by a single runner, so instances never sync the same forms at once.
+ */
+export const queueAnalyticsSync = async (payload: Payload, queue: string): Promise<void> => {
+  const input: SyncAnalyticsTaskIO['input'] = {}
+
+  await queueJobOnce(payload, SYNC_ANALYTICS_TASK_SLUG, () =>
+    payload.jobs.queue<typeof SYNC_ANALYTICS_TASK_SLUG>({
+      input,
+      queue,
+      task: SYNC_ANALYTICS_TASK_SLUG,
+    }),
+  )
+}
+
+export const createSyncAnalyticsTask = (
+  pluginOptions: PayloadHubspotConfig,
+): TaskConfig<SyncAnalyticsTaskIO> => ({
+  slug: SYNC_ANALYTICS_TASK_SLUG,
+  handler: async ({ input, req }) => {
+    const { payload } = req
+
+    // Queue the follow-up first so a failing run never breaks the schedule
+    await queueAnalyticsSync(payload, pluginOptions.sync?.queue || DEFAULT_SYNC_QUEUE)
+
+    const run = await payload.create({
+      collection: SYNC_RUNS_SLUG,
+      data: {
+        startedAt: new Date().toISOString(),
+        status: 'running',
+      },
+    })
+
+    try {
+      const analytics = await syncFormAnalytics(
+        payload,
+        pluginOptions,
+        input?.forceRefresh,
+        pluginOptions.sync?.formsPerRun || MAX_FORMS_PER_SYNC,
+      )
+
+      // New submissions since the previous run, failures are counted with the analytics failures
+      const submissions = pluginOptions.submissions
+        ? await syncFormSubmissions(payload, pluginOptions)
+        : { created: 0, createdByForm: {}, failed: 0 }
+
+      const result = {
+        ...analytics,
+        failed: analytics.failed + submissions.failed,
+        submissions: submissions.created,
+      }
+
+      await payload.update({
+        id: run.id,
+        collection: SYNC_RUNS_SLUG,
+        data: {
+          ...result,
+          finishedAt: new Date().toISOString(),
+          status: result.failed > 0 ? 'partial' : 'succeeded',
+        },
+      })
+
+      return { output: result }
+    } catch (error) {
+      await payload.update({
+        id: run.id,
+        collection: SYNC_RUNS_SLUG,
+        data: {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          finishedAt: new Date().toISOString(),
+          status: 'failed',
+        },
+      })
+
+      throw error
+    }
+  },
+  inputSchema: [
+    {
+      name: 'forceRefresh',
+      type: 'checkbox',
+    },
+  ],
+  label: 'Sync HubSpot form analytics',
+  outputSchema: [
+    {
+      name: 'processed',
+      type: 'number',
+      required: true,
+    },
+    {
+      name: 'failed',
+      type: 'number',
+      required: true,
+    },
+    {
+      name: 'remaining',
+      type: 'number',
+      required: true,
+    },
+    {
+      name: 'submissions',
+      type: 'number',
+    },
+  ],
+})
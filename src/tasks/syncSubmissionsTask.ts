@@ -0,0 +1,112 @@
+import type { Payload, TaskConfig } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+
+import { getHubSpotClient } from '../utils/hubspotClient.js'
+import { queueJobOnce } from '../utils/jobs.js'
+import { syncFormSubmissions } from '../utils/syncFormSubmissions.js'
+
+export const SYNC_SUBMISSIONS_TASK_SLUG = 'hubspotSyncSubmissions'
+
+type SyncSubmissionsTaskIO = {
+  input: {
+    portal?: string
+  }
+  output: {
+    failed: number
+    submissions: number
+  }
+}
+
+/**
+ * Queue a submissions sync for the portal unless one is already waiting, and return the ID of
+ * the new job. Webhook deliveries arriving while a sync waits are covered by that sync.
+ */
+export const queueSubmissionsSync = async (
+  payload: Payload,
+  queue: string,
+  portal?: string,
+): Promise<(number | string) | undefined> => {
+  const input: SyncSubmissionsTaskIO['input'] = portal ? { portal } : {}
+
+  return queueJobOnce(
+    payload,
+    SYNC_SUBMISSIONS_TASK_SLUG,
+    () =>
+      payload.jobs.queue<typeof SYNC_SUBMISSIONS_TASK_SLUG>({
+        input,
+        queue,
+        task: SYNC_SUBMISSIONS_TASK_SLUG,
+      }),
+    // Empty text fields are stored as null
+    (jobInput) => (jobInput.portal || undefined) === input.portal,
+  )
+}
+
+/**
+ * Pull the new submissions of a portal and add them to the cached analytics of their forms, so
+ * counts stay current between analytics syncs. The next sync replaces the counts with HubSpot's
+ * own. Queued by form submission webhooks.
+ */
+export const createSyncSubmissionsTask = (
+  pluginOptions: PayloadHubspotConfig,
+): TaskConfig<SyncSubmissionsTaskIO> => ({
+  slug: SYNC_SUBMISSIONS_TASK_SLUG,
+  handler: async ({ input, req }) => {
+    const { payload } = req
+
+    const { created, createdByForm, failed } = await syncFormSubmissions(
+      payload,
+      pluginOptions,
+      input?.portal,
+    )
+
+    for (const [id, count] of Object.entries(createdByForm)) {
+      const form = await payload.findByID({ id, collection: 'hubspot-forms', depth: 0 })
+      const submissions = (form.analytics?.submissions || 0) + count
+      const views = form.analytics?.views || 0
+
+      await payload.update({
+        id,
+        collection: 'hubspot-forms',
+        data: {
+          analytics: {
+            ...form.analytics,
+            conversionRate: views > 0 ? submissions / views : form.analytics?.conversionRate,
+            submissions,
+          },
+        },
+      })
+
+      // HubSpot's totals include the new submissions, so the cached ones are stale
+      try {
+        await getHubSpotClient(pluginOptions, payload, form.portal).invalidateFormAnalytics(
+          form.formId,
+        )
+      } catch (error) {
+        payload.logger.warn({ err: error, msg: `Failed to clear cached analytics of form ${id}` })
+      }
+    }
+
+    return { output: { failed, submissions: created } }
+  },
+  inputSchema: [
+    {
+      name: 'portal',
+      type: 'text',
+    },
+  ],
+  label: 'Sync HubSpot form submissions',
+  outputSchema: [
+    {
+      name: 'submissions',
+      type: 'number',
+      required: true,
+    },
+    {
+      name: 'failed',
+      type: 'number',
+      required: true,
+    },
+  ],
+})
@@ -0,0 +1,64 @@
+import type { PayloadHandler, PayloadRequest } from 'payload'
+
+export type HubSpotAccess = (args: { req: PayloadRequest }) => boolean | Promise<boolean>
+
+export type PayloadHubspotAccessConfig = {
+  /**
+   * Who can connect and disconnect the HubSpot app through `/api/hubspot/oauth/*`.
+   */
+  connect?: HubSpotAccess
+  /**
+   * Who can read form analytics from `/api/hubspot/form-analytics/:formGuid` and the
+   * analytics snapshots collection.
+   */
+  readAnalytics?: HubSpotAccess
+  /**
+   * Who can list HubSpot forms from `/api/hubspot/forms` and read the `hubspot-forms` collection.
+   */
+  readForms?: HubSpotAccess
+  /**
+   * Who can read synced form submissions in the `hubspot-form-submissions` collection.
+   */
+  readSubmissions?: HubSpotAccess
+  /**
+   * Who can trigger `/api/hubspot/refresh-analytics/:formId?`, each refresh uses HubSpot rate limit.
+   */
+  refresh?: HubSpotAccess
+  /**
+   * Who can submit forms through `/api/hubspot/forms/:formId/submit`. Defaults to anyone, as
+   * forms are submitted by site visitors.
+   */
+  submit?: HubSpotAccess
+}
+
+// Default access: a logged in user from the admin user collection, except for form submissions
+export const isAdminUser: HubSpotAccess = ({ req }) =>
+  Boolean(req.user && req.user.collection === req.payload.config.admin.user)
+
+export const resolveAccess = (
+  access: PayloadHubspotAccessConfig = {},
+): Required<PayloadHubspotAccessConfig> => ({
+  connect: access.connect || isAdminUser,
+  readAnalytics: access.readAnalytics || isAdminUser,
+  readForms: access.readForms || isAdminUser,
+  readSubmissions: access.readSubmissions || isAdminUser,
+  refresh: access.refresh || isAdminUser,
+  submit: access.submit || (() => true),
+})
+
+// Run the endpoint handler only when access is granted, otherwise respond with 403
+export const withAccess =
+  (access: HubSpotAccess, handler: PayloadHandler): PayloadHandler =>
+  async (req) => {
+    if (!(await access({ req }))) {
+      return new Response(
+        JSON.stringify({ error: 'You are not allowed to perform this action.' }),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          status: 403,
+        },
+      )
+    }
+
+    return handler(req)
+  }
@@ -0,0 +1,85 @@
+import type { JsonObject, Payload } from 'payload'
+
+import { FORM_ANALYTICS_SNAPSHOTS_SLUG } from '../collections/formAnalyticsSnapshots.js'
+
+type ID = number | string
+
+// Totals of a form at the end of a day, as recorded by the analytics sync
+export type AnalyticsHistoryPoint = {
+  conversionRate?: number
+  date: string // YYYY-MM-DD
+  submissions: number
+  views: number
+}
+
+export type AnalyticsHistoryRange = {
+  end?: string // YYYY-MM-DD, inclusive
+  start: string // YYYY-MM-DD
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Range covering the last `days` days, ending today
+export const getRecentHistoryRange = (days: number): AnalyticsHistoryRange => ({
+  start: new Date(Date.now() - (days - 1) * DAY).toISOString().slice(0, 10),
+})
+
+/**
+ * Analytics history of several forms from the snapshots collection, keyed by form ID. Forms synced
+ * several times a day get one point per day, holding the day's last snapshot.
+ */
+export const getAnalyticsHistory = async (
+  payload: Payload,
+  formIds: ID[],
+  range: AnalyticsHistoryRange,
+): Promise<Map<string, AnalyticsHistoryPoint[]>> => {
+  const history = new Map<string, AnalyticsHistoryPoint[]>()
+
+  if (formIds.length === 0 || !payload.collections[FORM_ANALYTICS_SNAPSHOTS_SLUG]) {
+    return history
+  }
+
+  const { docs: snapshots } = await payload.find({
+    collection: FORM_ANALYTICS_SNAPSHOTS_SLUG,
+    depth: 0,
+    pagination: false,
+    select: {
+      conversionRate: true,
+      date: true,
+      form: true,
+      submissions: true,
+      views: true,
+    },
+    sort: 'date',
+    where: {
+      and: [
+        { form: { in: formIds } },
+        { date: { greater_than_equal: new Date(range.start).toISOString() } },
+        ...(range.end
+          ? [{ date: { less_than: new Date(new Date(range.end).getTime() + DAY).toISOString() } }]
+          : []),
+      ],
+    },
+  })
+
+  const days = new Map<string, Map<string, AnalyticsHistoryPoint>>()
+  for (const snapshot of snapshots as JsonObject[]) {
+    const form = String(typeof snapshot.form === 'object' ? snapshot.form?.id : snapshot.form)
+    const date = new Date(snapshot.date).toISOString().slice(0, 10)
+    const formDays = days.get(form) || new Map<string, AnalyticsHistoryPoint>()
+
+    formDays.set(date, {
+      conversionRate: snapshot.conversionRate ?? undefined,
+      date,
+      submissions: snapshot.submissions || 0,
+      views: snapshot.views || 0,
+    })
+    days.set(form, formDays)
+  }
+
+  for (const [form, formDays] of days) {
+    history.set(form, [...formDays.values()])
+  }
+
+  return history
+}
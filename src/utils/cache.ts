@@ -0,0 +1,205 @@
+import type { CollectionConfig, Payload } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+
+import { CACHE_ENTRIES_SLUG, cacheEntriesCollection } from '../collections/cacheEntries.js'
+
+// Resources cached from HubSpot, each with its own time to live
+export type HubSpotCacheResource = 'analytics' | 'form' | 'forms'
+
+export type HubSpotCacheTTL = Record<HubSpotCacheResource, number> // Milliseconds
+
+export const DEFAULT_CACHE_TTL: HubSpotCacheTTL = {
+  analytics: 15 * 60 * 1000, // 15 minutes
+  form: 5 * 60 * 1000, // 5 minutes
+  forms: 60 * 60 * 1000, // 1 hour
+}
+
+// Remove expired collection entries at most this often
+const CACHE_CLEANUP_INTERVAL = 10 * 60 * 1000 // 10 minutes
+
+/**
+ * Store for cached HubSpot responses. Values are JSON-serializable, `get` resolves undefined for
+ * missing and expired keys.
+ */
+export type HubSpotCache = {
+  delete: (key: string) => Promise<void>
+  get: <T = unknown>(key: string) => Promise<T | undefined>
+  set: (key: string, value: unknown, ttl: number) => Promise<void>
+}
+
+export type HubSpotCacheAdapter = {
+  /**
+   * Collections the adapter stores its entries in, added to the config by the plugin.
+   */
+  collections?: CollectionConfig[]
+  init: (args: { payload: Payload }) => HubSpotCache
+  name: string
+}
+
+export type PayloadHubspotCacheConfig = {
+  /**
+   * Where cached responses are stored. Use `collectionCache()` to share them across instances
+   * and deploys.
+   * @default memoryCache()
+   */
+  adapter?: HubSpotCacheAdapter
+  /**
+   * Time to live per resource in milliseconds.
+   * @default { analytics: 900000, form: 300000, forms: 3600000 }
+   */
+  ttl?: Partial<HubSpotCacheTTL>
+}
+
+export type MemoryCacheOptions = {
+  /**
+   * Entries kept before the least recently used ones are evicted.
+   * @default 1000
+   */
+  maxEntries?: number
+}
+
+/**
+ * Cache in the memory of the current process, evicting the least recently used entries. Not
+ * shared between instances and lost on restart.
+ */
+export const memoryCache = ({
+  maxEntries = 1000,
+}: MemoryCacheOptions = {}): HubSpotCacheAdapter => ({
+  name: 'memory',
+  init: () => {
+    // Map iteration follows insertion order, so the first key is the least recently used
+    const entries = new Map<string, { expiresAt: number; value: unknown }>()
+
+    return {
+      delete: (key) => {
+        entries.delete(key)
+        return Promise.resolve()
+      },
+      get: <T>(key: string) => {
+        const entry = entries.get(key)
+        entries.delete(key)
+
+        if (!entry || entry.expiresAt <= Date.now()) {
+          return Promise.resolve(undefined)
+        }
+
+        entries.set(key, entry)
+        return Promise.resolve(entry.value as T)
+      },
+      set: (key, value, ttl) => {
+        entries.delete(key)
+        entries.set(key, { expiresAt: Date.now() + ttl, value })
+
+        while (entries.size > maxEntries) {
+          entries.delete(entries.keys().next().value as string)
+        }
+        return Promise.resolve()
+      },
+    }
+  },
+})
+
+/**
+ * Cache in the `hubspot-cache` collection, shared by every instance using the same database and
+ * kept across deploys.
+ */
+export const collectionCache = (): HubSpotCacheAdapter => ({
+  name: 'collection',
+  collections: [cacheEntriesCollection],
+  init: ({ payload }) => {
+    let lastCleanup = 0
+
+    const removeExpired = async () => {
+      if (Date.now() - lastCleanup < CACHE_CLEANUP_INTERVAL) {
+        return
+      }
+      lastCleanup = Date.now()
+
+      await payload.delete({
+        collection: CACHE_ENTRIES_SLUG,
+        where: {
+          expiresAt: {
+            less_than: new Date().toISOString(),
+          },
+        },
+      })
+    }
+
+    return {
+      delete: async (key) => {
+        await payload.delete({
+          collection: CACHE_ENTRIES_SLUG,
+          where: {
+            key: {
+              equals: key,
+            },
+          },
+        })
+      },
+      get: async <T>(key: string) => {
+        const {
+          docs: [entry],
+        } = await payload.find({
+          collection: CACHE_ENTRIES_SLUG,
+          depth: 0,
+          limit: 1,
+          pagination: false,
+          where: {
+            key: {
+              equals: key,
+            },
+          },
+        })
+
+        if (!entry || new Date(entry.expiresAt).getTime() <= Date.now()) {
+          return undefined
+        }
+
+        return entry.value as T
+      },
+      set: async (key, value, ttl) => {
+        const data = { expiresAt: new Date(Date.now() + ttl).toISOString(), key, value }
+
+        const { docs } = await payload.update({
+          collection: CACHE_ENTRIES_SLUG,
+          data,
+          depth: 0,
+          where: {
+            key: {
+              equals: key,
+            },
+          },
+        })
+
+        if (docs.length === 0) {
+          await payload.create({ collection: CACHE_ENTRIES_SLUG, data, depth: 0 })
+        }
+
+        await removeExpired()
+      },
+    }
+  },
+})
+
+// One cache per Payload instance, created on first use
+const caches = new WeakMap<Payload, HubSpotCache>()
+
+export const getHubSpotCache = (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+): HubSpotCache => {
+  let cache = caches.get(payload)
+
+  if (!cache) {
+    cache = (pluginOptions.cache?.adapter || memoryCache()).init({ payload })
+    caches.set(payload, cache)
+  }
+
+  return cache
+}
+
+export const getCacheTTL = (pluginOptions: PayloadHubspotConfig): HubSpotCacheTTL => ({
+  ...DEFAULT_CACHE_TTL,
+  ...pluginOptions.cache?.ttl,
+})
@@ -0,0 +1,95 @@
+import type { Payload } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type { AnalyticsHistoryPoint } from './analyticsHistory.js'
+
+import { getAnalyticsHistory, getRecentHistoryRange } from './analyticsHistory.js'
+import { getFormUsageCounts } from './formUsage.js'
+import { getHubSpotClient } from './hubspotClient.js'
+import { hasPortals, portalWhere } from './portals.js'
+import { tenantWhere } from './tenants.js'
+
+const SPARKLINE_DAYS = 30 // History shown in each row's sparkline
+
+// A row of the forms dashboard, for every form in HubSpot whether tracked or not
+export type DashboardForm = {
+  analytics?: {
+    clickThroughRate: number
+    conversionRate?: number
+    interactions: number
+    lastUpdated?: string
+    nonContactSubmissions: number
+    submissionRate: number
+    submissions: number
+    views: number
+  }
+  guid: string
+  history?: AnalyticsHistoryPoint[] // Daily totals of the last 30 days, for tracked forms
+  isTracked: boolean
+  name: string
+  portal?: string // Set when several portals are configured
+  usageCount: number // Distinct documents embedding the form
+}
+
+export type DashboardFormsOptions = {
+  portal?: string
+  refresh?: boolean // Load the forms from HubSpot instead of the cache
+  tenant?: string | string[]
+}
+
+/**
+ * Every form of a portal in HubSpot, merged with the cached analytics, usage count and recent
+ * history of the tracked ones. Shared by the dashboard and `/api/hubspot/forms`, so switching
+ * portals on the dashboard shows the same rows.
+ */
+export const getDashboardForms = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+  { portal, refresh, tenant }: DashboardFormsOptions = {},
+): Promise<DashboardForm[]> => {
+  const allHubSpotForms = await getHubSpotClient(pluginOptions, payload, portal, {
+    refresh,
+  }).listForms()
+
+  const { docs: trackedForms } = await payload.find({
+    collection: 'hubspot-forms',
+    pagination: false,
+    where: {
+      and: [portalWhere(pluginOptions, portal), tenantWhere(pluginOptions, tenant)],
+    },
+  })
+
+  const trackedFormsMap = new Map(trackedForms.map((form) => [form.formId, form]))
+  const usageCounts = await getFormUsageCounts(payload)
+  const history = await getAnalyticsHistory(
+    payload,
+    trackedForms.map((form) => form.id),
+    getRecentHistoryRange(SPARKLINE_DAYS),
+  )
+
+  return allHubSpotForms.map((hubspotForm) => {
+    const trackedForm = trackedFormsMap.get(hubspotForm.guid)
+    const analytics = trackedForm?.analytics
+
+    return {
+      name: hubspotForm.name,
+      analytics: analytics
+        ? {
+            clickThroughRate: analytics.clickThroughRate,
+            conversionRate: analytics.conversionRate,
+            interactions: analytics.interactions,
+            lastUpdated: analytics.lastUpdated,
+            nonContactSubmissions: analytics.nonContactSubmissions,
+            submissionRate: analytics.submissionRate,
+            submissions: analytics.submissions,
+            views: analytics.views,
+          }
+        : undefined,
+      guid: hubspotForm.guid,
+      history: trackedForm ? history.get(String(trackedForm.id)) || [] : undefined,
+      isTracked: Boolean(trackedForm),
+      portal: hasPortals(pluginOptions) ? portal : undefined,
+      usageCount: trackedForm ? usageCounts.get(String(trackedForm.id)) || 0 : 0,
+    }
+  })
+}
@@ -0,0 +1,105 @@
+import type { HubSpotForm } from './hubspotClient.js'
+
+export type HubSpotFormFieldOption = {
+  label: string
+  value: string
+}
+
+// A field shown once the condition on its parent field's value is met
+export type HubSpotDependentFormField = {
+  condition: Record<string, unknown> // v3 `dependentCondition`, or `{ filters }` on v2
+  field: HubSpotFormField
+}
+
+// A form field normalised from either the v2 or the v3 forms API
+export type HubSpotFormField = {
+  dependentFields: HubSpotDependentFormField[]
+  fieldType: string
+  hidden: boolean
+  label: string
+  name: string
+  objectTypeId?: string
+  options: HubSpotFormFieldOption[]
+  required: boolean
+  validation?: Record<string, unknown> // Validation rules as returned by HubSpot
+}
+
+export type HubSpotFormFieldGroup = {
+  fields: HubSpotFormField[]
+}
+
+type RawFormField = {
+  [key: string]: unknown
+  dependentFieldFilters?: Array<{ dependentFormField: RawFormField; filters?: unknown[] }>
+  dependentFields?: Array<{
+    dependentCondition?: Record<string, unknown>
+    dependentField: RawFormField
+  }>
+  fieldType?: string
+  hidden?: boolean
+  label?: string
+  name: string
+  objectTypeId?: string
+  options?: Array<{ label?: string; value: string }>
+  required?: boolean
+  validation?: Record<string, unknown>
+}
+
+type RawFieldGroup = {
+  fields?: RawFormField[]
+}
+
+const toFormField = (field: RawFormField): HubSpotFormField => ({
+  name: field.name,
+  dependentFields: field.dependentFields
+    ? field.dependentFields.map((dependent) => ({
+        condition: dependent.dependentCondition || {},
+        field: toFormField(dependent.dependentField),
+      }))
+    : (field.dependentFieldFilters || []).map((dependent) => ({
+        condition: { filters: dependent.filters || [] },
+        field: toFormField(dependent.dependentFormField),
+      })),
+  fieldType: field.fieldType || 'text',
+  hidden: Boolean(field.hidden),
+  label: field.label || field.name,
+  objectTypeId: field.objectTypeId,
+  options: (field.options || []).map((option) => ({
+    label: option.label || option.value,
+    value: option.value,
+  })),
+  required: Boolean(field.required),
+  validation:
+    field.validation && Object.keys(field.validation).length > 0 ? field.validation : undefined,
+})
+
+// Field groups in display order, v3 forms list them in `fieldGroups`, v2 forms in `formFieldGroups`
+export const getFormFieldGroups = (form: HubSpotForm): HubSpotFormFieldGroup[] =>
+  ((form.fieldGroups || form.formFieldGroups || []) as RawFieldGroup[]).map((group) => ({
+    fields: (group.fields || []).map(toFormField),
+  }))
+
+/**
+ * Every field that can be submitted, in display order. Dependent fields follow their parent and
+ * are treated as optional, as they are only required while they are shown.
+ */
+export const getFormFields = (form: HubSpotForm): HubSpotFormField[] =>
+  getFormFieldGroups(form).flatMap((group) =>
+    group.fields.flatMap((field) => [
+      field,
+      ...field.dependentFields.map((dependent) => ({ ...dependent.field, required: false })),
+    ]),
+  )
+
+// Email fields are typed `email` on v3, v2 only identifies them by name
+export const isEmailField = (field: HubSpotFormField): boolean =>
+  field.fieldType === 'email' || field.name === 'email'
+
+// Fields that only accept values from their options
+export const isOptionField = (field: HubSpotFormField): boolean =>
+  field.options.length > 0 &&
+  ['checkbox', 'dropdown', 'multiple_checkboxes', 'radio', 'select'].includes(field.fieldType)
+
+// Fields that accept several values, sent to HubSpot separated by semicolons
+export const isMultiValueField = (field: HubSpotFormField): boolean =>
+  ['checkbox', 'multiple_checkboxes'].includes(field.fieldType)
@@ -0,0 +1,226 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import { parseCookies } from 'payload/shared'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type { HubSpotFormField } from './formFields.js'
+import type { HubSpotFormSubmissionContext, HubSpotFormSubmissionInput } from './hubspotClient.js'
+import type { HubSpotValidationErrorDetail } from './hubspotErrors.js'
+
+import { getFormFields, isEmailField, isMultiValueField, isOptionField } from './formFields.js'
+import { getHubSpotClient } from './hubspotClient.js'
+import { HubSpotNotFoundError, HubSpotValidationError } from './hubspotErrors.js'
+import { resolvePortalId } from './oauth.js'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@][^\s.@]*\.[^\s@]+$/
+
+export type FormFieldError = {
+  field?: string // Omitted for errors that are not tied to a single field
+  message: string
+  type: string
+}
+
+type SubmissionBody = {
+  context?: Pick<HubSpotFormSubmissionContext, 'pageName' | 'pageUri'>
+  fields?: Record<string, unknown>
+}
+
+const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+const toValues = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .filter((item) => item !== undefined && item !== null)
+    .map((item) => String(item).trim())
+    .filter(Boolean)
+
+const validateField = (field: HubSpotFormField, values: string[]): FormFieldError | undefined => {
+  if (values.length === 0) {
+    return field.required && !field.hidden
+      ? { type: 'REQUIRED', field: field.name, message: `${field.label} is required` }
+      : undefined
+  }
+
+  if (values.length > 1 && !isMultiValueField(field)) {
+    return {
+      type: 'INVALID_VALUE',
+      field: field.name,
+      message: `${field.label} accepts a single value`,
+    }
+  }
+
+  if (isEmailField(field) && !EMAIL_PATTERN.test(values[0])) {
+    return {
+      type: 'INVALID_EMAIL',
+      field: field.name,
+      message: `${field.label} must be a valid email address`,
+    }
+  }
+
+  if (field.fieldType === 'number' && Number.isNaN(Number(values[0]))) {
+    return { type: 'INVALID_NUMBER', field: field.name, message: `${field.label} must be a number` }
+  }
+
+  if (isOptionField(field)) {
+    const allowed = new Set(field.options.map((option) => option.value))
+    if (values.some((value) => !allowed.has(value))) {
+      return {
+        type: 'INVALID_OPTION',
+        field: field.name,
+        message: `${field.label} must be one of: ${[...allowed].join(', ')}`,
+      }
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Validate submitted values against the form's field definitions, returning the fields in the
+ * shape expected by HubSpot's submissions API along with any field errors.
+ */
+export const validateFormSubmission = (
+  definitions: HubSpotFormField[],
+  values: Record<string, unknown>,
+): { errors: FormFieldError[]; fields: HubSpotFormSubmissionInput['fields'] } => {
+  const errors: FormFieldError[] = []
+  const fields: HubSpotFormSubmissionInput['fields'] = []
+
+  for (const name of Object.keys(values)) {
+    if (!definitions.some((field) => field.name === name)) {
+      errors.push({ type: 'UNKNOWN_FIELD', field: name, message: `Unknown field ${name}` })
+    }
+  }
+
+  for (const field of definitions) {
+    const fieldValues = toValues(values[field.name])
+    const error = validateField(field, fieldValues)
+
+    if (error) {
+      errors.push(error)
+    } else if (fieldValues.length > 0) {
+      fields.push({
+        name: field.name,
+        objectTypeId: field.objectTypeId,
+        value: fieldValues.join(';'),
+      })
+    }
+  }
+
+  return { errors, fields }
+}
+
+// HubSpot reports field errors as "Error in 'fields.email'. Invalid email address"
+export const fromHubSpotErrors = (errors: HubSpotValidationErrorDetail[]): FormFieldError[] =>
+  errors.map((error) => ({
+    type: error.errorType || 'INVALID_VALUE',
+    field: error.message.match(/'fields\.([^']+)'/)?.[1],
+    message: error.message,
+  }))
+
+// The form comes from the plugin cache so every submission doesn't cost a HubSpot request
+const getCachedFormFields = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+  formId: string,
+  portal?: string,
+): Promise<HubSpotFormField[]> =>
+  getFormFields(await getHubSpotClient(pluginOptions, payload, portal).getForm(formId))
+
+// Client IP as seen by the first proxy in front of Payload
+const getIpAddress = (req: PayloadRequest): string | undefined =>
+  req.headers.get('x-forwarded-for')?.split(',')[0].trim() ||
+  req.headers.get('x-real-ip') ||
+  undefined
+
+export const submitFormHandler = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<Response> => {
+  const formId = req.routeParams?.formId as string
+
+  const body = (await req.json?.().catch(() => undefined)) as SubmissionBody | undefined
+  if (!body?.fields || typeof body.fields !== 'object' || Array.isArray(body.fields)) {
+    return jsonResponse(
+      {
+        error: 'Invalid submission',
+        errors: [{ type: 'INVALID_BODY', message: 'Expected a JSON body with a fields object' }],
+      },
+      400,
+    )
+  }
+
+  // Only forms tracked in Payload can be submitted through the proxy
+  const {
+    docs: [form],
+  } = await req.payload.find({
+    collection: 'hubspot-forms',
+    depth: 0,
+    limit: 1,
+    where: {
+      formId: {
+        equals: formId,
+      },
+    },
+  })
+
+  if (!form) {
+    return jsonResponse({ error: `Form ${formId} not found` }, 404)
+  }
+
+  // Submitted to the form's own portal when several are configured
+  const portalId = await resolvePortalId(req.payload, pluginOptions, form.portal)
+
+  if (!portalId) {
+    return jsonResponse({ error: 'HubSpot portal ID not configured' }, 500)
+  }
+
+  try {
+    const { errors, fields } = validateFormSubmission(
+      await getCachedFormFields(req.payload, pluginOptions, formId, form.portal),
+      body.fields,
+    )
+
+    if (errors.length > 0) {
+      return jsonResponse({ error: 'Invalid submission', errors }, 400)
+    }
+
+    const result = await getHubSpotClient(pluginOptions, req.payload, form.portal).submitForm(
+      portalId,
+      formId,
+      {
+        context: {
+          hutk: parseCookies(req.headers).get('hubspotutk'),
+          ipAddress: getIpAddress(req),
+          pageName: body.context?.pageName,
+          pageUri: body.context?.pageUri || req.headers.get('referer') || undefined,
+        },
+        fields,
+      },
+    )
+
+    return jsonResponse({ ...result, success: true })
+  } catch (error) {
+    if (error instanceof HubSpotValidationError) {
+      return jsonResponse(
+        { error: 'Invalid submission', errors: fromHubSpotErrors(error.errors) },
+        400,
+      )
+    }
+
+    if (error instanceof HubSpotNotFoundError) {
+      return jsonResponse({ error: `Form ${formId} not found in HubSpot` }, 404)
+    }
+
+    return jsonResponse(
+      {
+        details: error instanceof Error ? error.message : 'Unknown error',
+        error: 'Failed to submit form',
+      },
+      500,
+    )
+  }
+}
@@ -0,0 +1,349 @@
+import type {
+  CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
+  CollectionSlug,
+  FlattenedBlock,
+  FlattenedField,
+  Payload,
+  PayloadRequest,
+  SanitizedCollectionConfig,
+} from 'payload'
+
+import { FORM_USAGES_SLUG } from '../collections/formUsages.js'
+import { HUBSPOT_FORM_BLOCK_SLUG } from '../lexical/hubspotFormBlock.js'
+
+type ID = number | string
+
+// A HubSpot form referenced by a document, `path` is the field it is referenced from
+export type HubSpotFormReference = {
+  form: ID
+  path: string
+  source: 'block' | 'field'
+}
+
+type LexicalNode = {
+  children?: unknown[]
+  fields?: { blockType?: string; form?: unknown }
+  type?: string
+}
+
+// Relationship values are IDs at depth 0 and documents once populated
+const toID = (value: unknown): ID | undefined => {
+  if (typeof value === 'number' || typeof value === 'string') {
+    return value
+  }
+  if (value && typeof value === 'object' && 'id' in value) {
+    return toID(value.id)
+  }
+  return undefined
+}
+
+const findBlockReferences = (
+  node: unknown,
+  path: string,
+  references: HubSpotFormReference[],
+): void => {
+  if (!node || typeof node !== 'object') {
+    return
+  }
+
+  const { type, children, fields } = node as LexicalNode
+
+  if (type === 'block' && fields?.blockType === HUBSPOT_FORM_BLOCK_SLUG) {
+    const form = toID(fields.form)
+    if (form !== undefined) {
+      references.push({ form, path, source: 'block' })
+    }
+  }
+
+  for (const child of children || []) {
+    findBlockReferences(child, path, references)
+  }
+}
+
+const getRelationshipIDs = (field: FlattenedField, value: unknown): ID[] => {
+  if (field.type !== 'relationship') {
+    return []
+  }
+
+  const isPolymorphic = Array.isArray(field.relationTo)
+  if (
+    !(isPolymorphic
+      ? field.relationTo.includes('hubspot-forms')
+      : field.relationTo === 'hubspot-forms')
+  ) {
+    return []
+  }
+
+  return (Array.isArray(value) ? value : [value]).flatMap((item) => {
+    if (isPolymorphic) {
+      const { relationTo, value: relatedValue } = (item || {}) as {
+        relationTo?: string
+        value?: unknown
+      }
+      const id = relationTo === 'hubspot-forms' ? toID(relatedValue) : undefined
+      return id === undefined ? [] : [id]
+    }
+    const id = toID(item)
+    return id === undefined ? [] : [id]
+  })
+}
+
+/**
+ * Every reference to a HubSpot form in a document, through relationship fields to
+ * `hubspot-forms` or HubSpot form blocks in Lexical rich text, including nested fields.
+ */
+export const getFormReferences = (
+  payload: Payload,
+  fields: FlattenedField[],
+  data: Record<string, unknown>,
+  parentPath = '',
+): HubSpotFormReference[] => {
+  const references: HubSpotFormReference[] = []
+
+  for (const field of fields) {
+    const value = data[field.name]
+    const path = parentPath ? `${parentPath}.${field.name}` : field.name
+
+    if (value === undefined || value === null) {
+      continue
+    }
+
+    switch (field.type) {
+      case 'array':
+        if (Array.isArray(value)) {
+          value.forEach((row, index) =>
+            references.push(
+              ...getFormReferences(payload, field.flattenedFields, row, `${path}.${index}`),
+            ),
+          )
+        }
+        break
+      case 'blocks':
+        if (Array.isArray(value)) {
+          value.forEach((row, index) => {
+            const block = [...(field.blockReferences || []), ...field.blocks]
+              .map((block) => (typeof block === 'string' ? payload.blocks[block] : block))
+              .find((block): block is FlattenedBlock => block?.slug === row?.blockType)
+
+            if (block) {
+              references.push(
+                ...getFormReferences(payload, block.flattenedFields, row, `${path}.${index}`),
+              )
+            }
+          })
+        }
+        break
+      case 'group':
+      case 'tab':
+        if (typeof value === 'object') {
+          references.push(
+            ...getFormReferences(
+              payload,
+              field.flattenedFields,
+              value as Record<string, unknown>,
+              path,
+            ),
+          )
+        }
+        break
+      case 'richText':
+        findBlockReferences((value as { root?: unknown }).root, path, references)
+        break
+      default:
+        for (const form of getRelationshipIDs(field, value)) {
+          references.push({ form, path, source: 'field' })
+        }
+    }
+  }
+
+  return references
+}
+
+const getDocumentTitle = (
+  collection: SanitizedCollectionConfig,
+  doc: Record<string, unknown>,
+): string => {
+  const title = collection.admin.useAsTitle ? doc[collection.admin.useAsTitle] : undefined
+  return typeof title === 'string' && title ? title : String(doc.id)
+}
+
+// Usages and references match on the form, the source and the field path
+const toUsageKey = (reference: Record<string, unknown>) =>
+  [
+    toID(reference.form),
+    reference.source,
+    typeof reference.path === 'string' ? reference.path : '',
+  ].join(':')
+
+const documentWhere = (collection: string, id: ID) => ({
+  'document.relationTo': {
+    equals: collection,
+  },
+  'document.value': {
+    equals: id,
+  },
+})
+
+const syncFormUsages = async (
+  req: PayloadRequest,
+  collection: SanitizedCollectionConfig,
+  doc: Record<string, unknown>,
+) => {
+  const id = doc.id as ID
+  const title = getDocumentTitle(collection, doc)
+  const references = new Map(
+    getFormReferences(req.payload, collection.flattenedFields, doc).map((reference) => [
+      toUsageKey(reference),
+      reference,
+    ]),
+  )
+
+  const { docs: usages } = await req.payload.find({
+    collection: FORM_USAGES_SLUG,
+    depth: 0,
+    pagination: false,
+    req,
+    where: documentWhere(collection.slug, id),
+  })
+
+  for (const usage of usages) {
+    const key = toUsageKey(usage)
+
+    if (!references.has(key)) {
+      await req.payload.delete({ id: usage.id, collection: FORM_USAGES_SLUG, req })
+    } else if (usage.title !== title) {
+      await req.payload.update({ id: usage.id, collection: FORM_USAGES_SLUG, data: { title }, req })
+    }
+
+    references.delete(key)
+  }
+
+  for (const reference of references.values()) {
+    await req.payload.create({
+      collection: FORM_USAGES_SLUG,
+      data: {
+        document: { relationTo: collection.slug, value: id },
+        form: reference.form,
+        path: reference.path,
+        source: reference.source,
+        title,
+      },
+      req,
+    })
+  }
+}
+
+// Keep the usage index in step with the forms a document references
+export const formUsageAfterChangeHook: CollectionAfterChangeHook = async ({
+  collection,
+  doc,
+  req,
+}) => {
+  try {
+    await syncFormUsages(req, collection, doc)
+  } catch (error) {
+    req.payload.logger.error({
+      err: error,
+      msg: `Failed to update HubSpot form usage for ${collection.slug} ${doc.id}`,
+    })
+  }
+
+  return doc
+}
+
+export const formUsageAfterDeleteHook: CollectionAfterDeleteHook = async ({
+  collection,
+  doc,
+  req,
+}) => {
+  try {
+    await req.payload.delete({
+      collection: FORM_USAGES_SLUG,
+      req,
+      where: documentWhere(collection.slug, doc.id),
+    })
+  } catch (error) {
+    req.payload.logger.error({
+      err: error,
+      msg: `Failed to remove HubSpot form usage for ${collection.slug} ${doc.id}`,
+    })
+  }
+
+  return doc
+}
+
+const INDEX_PAGE_SIZE = 100 // Documents read per page when reindexing a collection
+
+/**
+ * Index the form usages of every document in a collection, for documents saved before usages
+ * were tracked. Returns the number of documents indexed.
+ */
+export const indexCollectionFormUsages = async (
+  req: PayloadRequest,
+  collectionSlug: CollectionSlug,
+): Promise<number> => {
+  const collection = req.payload.collections[collectionSlug]?.config
+  if (!collection) {
+    return 0
+  }
+
+  let indexed = 0
+  let page = 1
+  let hasNextPage = true
+
+  while (hasNextPage) {
+    const result = await req.payload.find({
+      collection: collectionSlug,
+      depth: 0,
+      limit: INDEX_PAGE_SIZE,
+      page,
+      req,
+    })
+
+    for (const doc of result.docs) {
+      try {
+        await syncFormUsages(req, collection, doc)
+        indexed++
+      } catch (error) {
+        req.payload.logger.error({
+          err: error,
+          msg: `Failed to index HubSpot form usage for ${collectionSlug} ${doc.id}`,
+        })
+      }
+    }
+
+    hasNextPage = result.hasNextPage
+    page++
+  }
+
+  return indexed
+}
+
+// Number of distinct documents using each form, keyed by hubspot-forms document ID
+export const getFormUsageCounts = async (payload: Payload): Promise<Map<string, number>> => {
+  const counts = new Map<string, number>()
+
+  if (!payload.collections[FORM_USAGES_SLUG]) {
+    return counts
+  }
+
+  const { docs: usages } = await payload.find({
+    collection: FORM_USAGES_SLUG,
+    depth: 0,
+    pagination: false,
+  })
+
+  const documents = new Map<string, Set<string>>()
+  for (const usage of usages) {
+    const form = String(toID(usage.form))
+    const document = `${usage.document.relationTo}:${String(toID(usage.document.value))}`
+    documents.set(form, (documents.get(form) || new Set()).add(document))
+  }
+
+  for (const [form, formDocuments] of documents) {
+    counts.set(form, formDocuments.size)
+  }
+
+  return counts
+}
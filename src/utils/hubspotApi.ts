@@ -1,26 +1,19 @@
 import type { PayloadRequest } from 'payload'
 
 import type { PayloadHubspotConfig } from '../index.js'
+import type {
+  HubSpotAnalyticsGranularity,
+  HubSpotDateRange,
+  HubSpotForm,
+  HubSpotFormAnalyticsReport,
+  HubSpotFormStats,
+} from './hubspotClient.js'
 
-// Cache storage for HubSpot forms data
-let formsCache: {
-  data: unknown
-  timestamp: number
-} | null = null
-const CACHE_DURATION = 3600 * 1000 // 1 hour in milliseconds
-
-// Rate limiting configuration
-const RATE_LIMIT_DELAY = 50 // 50ms between requests (max ~100 requests per minute)
-const MAX_RETRIES = 3
-const BASE_RETRY_DELAY = 1000 // 1 second base delay for retries
-
-// Helper function to add delay between requests
-const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
-
-// Helper function for exponential backoff
-const exponentialBackoff = (attempt: number): number => {
-  return BASE_RETRY_DELAY * Math.pow(2, attempt) + Math.random() * 1000
-}
+import { getAnalyticsHistory, getRecentHistoryRange } from './analyticsHistory.js'
+import { getHubSpotClient, isHubSpotConfigured, toFormStats } from './hubspotClient.js'
+import { HubSpotNotFoundError } from './hubspotErrors.js'
+import { portalWhere } from './portals.js'
+import { getRequestTenant, getTenantPortal, tenantWhere } from './tenants.js'
 
 // Logging helper - only logs when explicitly enabled
 const debugLog = (message: string): void => {
@@ -30,65 +23,92 @@ const debugLog = (message: string): void => {
   }
 }
 
-const warnLog = (message: string): void => {
-  // eslint-disable-next-line no-console
-  console.warn(`[HubSpot Plugin] ${message}`)
-}
-
 const errorLog = (message: string, error?: unknown): void => {
   // eslint-disable-next-line no-console
   console.error(`[HubSpot Plugin] ${message}`, error)
 }
 
-export const getHubSpotHeaders = (pluginOptions: PayloadHubspotConfig) => ({
-  Authorization: `Bearer ${pluginOptions.apiKey || process.env.HUBSPOT_API_KEY}`,
-  'Content-Type': 'application/json',
-})
+const BATCH_MAX_FORMS = 500 // Forms per batch analytics request
+const HISTORY_DEFAULT_DAYS = 90 // History returned when no date range is given
 
-// Rate-limited analytics fetching with exponential backoff
-const fetchFormAnalyticsWithRetry = async (
-  formGuid: string,
-  pluginOptions: PayloadHubspotConfig,
-  attempt: number = 0,
-): Promise<{ totals?: Record<string, number> }> => {
-  try {
-    const analyticsResponse = await fetch(
-      `https://api.hubapi.com/analytics/v2/reports/forms/total?f=${formGuid}`,
-      { headers: getHubSpotHeaders(pluginOptions) },
-    )
+const ANALYTICS_GRANULARITIES: HubSpotAnalyticsGranularity[] = ['daily', 'weekly', 'monthly']
 
-    // Handle rate limiting with exponential backoff
-    if (analyticsResponse.status === 429) {
-      if (attempt < MAX_RETRIES) {
-        const backoffDelay = exponentialBackoff(attempt)
-        warnLog(
-          `Rate limit hit for form ${formGuid}. Retrying in ${backoffDelay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`,
-        )
-        await delay(backoffDelay)
-        return fetchFormAnalyticsWithRetry(formGuid, pluginOptions, attempt + 1)
-      } else {
-        throw new Error(`Rate limit exceeded after ${MAX_RETRIES} retries`)
-      }
-    }
+const isValidDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime())
 
-    if (!analyticsResponse.ok) {
-      const errorText = await analyticsResponse.text()
-      throw new Error(`Analytics API failed with status ${analyticsResponse.status}: ${errorText}`)
+const validateAnalyticsRange = (
+  start?: string,
+  end?: string,
+  granularity?: string,
+): string | undefined => {
+  if ((start && !isValidDate(start)) || (end && !isValidDate(end))) {
+    return 'start and end must be dates in YYYY-MM-DD format'
+  }
+  if (start && end && start > end) {
+    return 'start must be before end'
+  }
+  if (granularity) {
+    if (!ANALYTICS_GRANULARITIES.includes(granularity as HubSpotAnalyticsGranularity)) {
+      return `granularity must be one of ${ANALYTICS_GRANULARITIES.join(', ')}`
     }
-
-    return await analyticsResponse.json()
-  } catch (error) {
-    if (attempt < MAX_RETRIES && error instanceof Error && error.message.includes('fetch')) {
-      // Network error, retry with backoff
-      const backoffDelay = exponentialBackoff(attempt)
-      warnLog(
-        `Network error for form ${formGuid}. Retrying in ${backoffDelay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`,
-      )
-      await delay(backoffDelay)
-      return fetchFormAnalyticsWithRetry(formGuid, pluginOptions, attempt + 1)
+    if (!start || !end) {
+      return 'start and end are required when granularity is set'
     }
-    throw error
   }
+  return undefined
+}
+
+// Flatten a time-period report into one stats entry per bucket, sorted by date
+const toAnalyticsSeries = (
+  report: HubSpotFormAnalyticsReport,
+  formGuid: string,
+): Array<{ date: string } & HubSpotFormStats> =>
+  Object.keys(report)
+    .sort()
+    .map((date) => {
+      const row = report[date]?.find((entry) => entry.breakdown === formGuid) || report[date]?.[0]
+      const { breakdown: _breakdown, ...totals } = row || { breakdown: formGuid }
+      return {
+        date,
+        ...toFormStats({ totals: totals as Record<string, number> }),
+      }
+    })
+
+// Portal analytics are read from, the tenant's portal or the one given as ?portal=
+const getAnalyticsPortal = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+  tenant?: string | string[],
+): Promise<string | undefined> =>
+  (await getTenantPortal(req.payload, pluginOptions, tenant)) ||
+  req.searchParams?.get('portal') ||
+  undefined
+
+/**
+ * Form GUIDs the request's tenant doesn't track. Users limited to tenants only get analytics of
+ * their tenants' forms, without tenants any form can be requested.
+ */
+const getUntrackedFormGuids = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+  tenant: string | string[] | undefined,
+  formGuids: string[],
+): Promise<string[]> => {
+  if (!pluginOptions.tenants || tenant === undefined) {
+    return []
+  }
+
+  const { docs } = await req.payload.find({
+    collection: 'hubspot-forms',
+    depth: 0,
+    pagination: false,
+    where: {
+      and: [{ formId: { in: formGuids } }, tenantWhere(pluginOptions, tenant)],
+    },
+  })
+  const tracked = new Set(docs.map((form) => form.formId))
+
+  return formGuids.filter((guid) => !tracked.has(guid))
 }
 
 // Individual form analytics handler
@@ -106,35 +126,71 @@ export const individualFormAnalyticsHandler = async (
       })
     }
 
+    // Optional date range and bucket size, e.g. ?start=2025-01-01&end=2025-01-31&granularity=daily
+    const start = req.searchParams?.get('start') || undefined
+    const end = req.searchParams?.get('end') || undefined
+    const granularity = req.searchParams?.get('granularity') || undefined
+
+    const rangeError = validateAnalyticsRange(start, end, granularity)
+    if (rangeError) {
+      return new Response(JSON.stringify({ error: rangeError }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 400,
+      })
+    }
+
+    const range: HubSpotDateRange = { end, start }
+
     debugLog(`Fetching analytics for individual form: ${formGuid}`)
 
-    const apiKey = pluginOptions.apiKey || process.env.HUBSPOT_API_KEY
-    if (!apiKey) {
+    if (!isHubSpotConfigured(pluginOptions)) {
       return new Response(JSON.stringify({ error: 'HubSpot API key not configured' }), {
         headers: { 'Content-Type': 'application/json' },
         status: 500,
       })
     }
 
-    // Get analytics with retry logic for individual form
-    const analytics = await fetchFormAnalyticsWithRetry(formGuid, pluginOptions)
+    // Get analytics for individual form (retries are handled by the client), from the tenant's
+    // portal or the portal given as ?portal= when several are configured
+    const tenant = getRequestTenant(pluginOptions, req)
+    if (tenant === null) {
+      return new Response(JSON.stringify({ error: 'You are not allowed to access this tenant.' }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 403,
+      })
+    }
 
-    // Extract meaningful stats from analytics
-    const totals = analytics.totals || {}
-    const stats = {
-      clickThroughRate: totals.clickThroughPerFormView || 0,
-      conversionRate:
-        (totals.submissionsPerFormView || 0) > 1 ? undefined : totals.submissionsPerFormView || 0,
-      interactions: totals.interactions || 0,
-      nonContactSubmissions: totals.nonContactSubmissions || 0,
-      submissionRate: totals.submissionsPerClickThrough || 0,
-      submissions: totals.submissions || 0,
-      views: totals.formViews || 0,
+    if ((await getUntrackedFormGuids(req, pluginOptions, tenant, [formGuid])).length > 0) {
+      return new Response(JSON.stringify({ error: 'Form is not tracked' }), {
+        headers: { 'Content-Type': 'application/json' },
+        status: 404,
+      })
     }
 
+    const portal = await getAnalyticsPortal(req, pluginOptions, tenant)
+    const client = getHubSpotClient(pluginOptions, req.payload, portal, {
+      refresh: req.searchParams?.get('refresh') === 'true',
+    })
+    const analytics = await client.getFormAnalytics(formGuid, range)
+
+    // Extract meaningful stats from analytics
+    const stats = toFormStats(analytics)
+
+    // Bucketed series for the requested range
+    const series = granularity
+      ? toAnalyticsSeries(
+          await client.getFormAnalyticsReport(
+            formGuid,
+            granularity as HubSpotAnalyticsGranularity,
+            range,
+          ),
+          formGuid,
+        )
+      : undefined
+
     debugLog(`Successfully fetched analytics for form: ${formGuid}`)
 
-    return new Response(JSON.stringify({ stats }), {
+    return new Response(JSON.stringify({ granularity, range, series, stats }), {
       headers: { 'Content-Type': 'application/json' },
     })
   } catch (error) {
@@ -148,108 +204,273 @@ export const individualFormAnalyticsHandler = async (
       }),
       {
         headers: { 'Content-Type': 'application/json' },
-        status: 500,
+        status: error instanceof HubSpotNotFoundError ? 404 : 500,
       },
     )
   }
 }
 
-export const hubspotFormsHandler = async (
+/**
+ * Daily analytics history of a tracked form, read from the snapshots stored by the analytics sync
+ * rather than from HubSpot. Covers the last 90 days unless `?start=` and `?end=` are given.
+ */
+export const formAnalyticsHistoryHandler = async (
   req: PayloadRequest,
   pluginOptions: PayloadHubspotConfig,
 ): Promise<Response> => {
+  const formGuid = req.routeParams?.formGuid
+
+  if (!formGuid || typeof formGuid !== 'string') {
+    return new Response(JSON.stringify({ error: 'Form GUID required' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
+
+  const start = req.searchParams?.get('start') || undefined
+  const end = req.searchParams?.get('end') || undefined
+
+  const rangeError = validateAnalyticsRange(start, end)
+  if (rangeError) {
+    return new Response(JSON.stringify({ error: rangeError }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
+
+  const tenant = getRequestTenant(pluginOptions, req)
+  if (tenant === null) {
+    return new Response(JSON.stringify({ error: 'You are not allowed to access this tenant.' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 403,
+    })
+  }
+
   try {
-    // Check for refresh parameter in the URL if available
-    const url = req.url || ''
-    const forceRefresh = url.includes('refresh=true')
-    const now = Date.now()
-    if (
-      !forceRefresh &&
-      formsCache &&
-      formsCache.data &&
-      now - formsCache.timestamp < CACHE_DURATION
-    ) {
-      return new Response(JSON.stringify(formsCache.data), {
+    const portal = await getAnalyticsPortal(req, pluginOptions, tenant)
+    const {
+      docs: [form],
+    } = await req.payload.find({
+      collection: 'hubspot-forms',
+      depth: 0,
+      limit: 1,
+      where: {
+        and: [
+          { formId: { equals: formGuid } },
+          portalWhere(pluginOptions, portal),
+          tenantWhere(pluginOptions, tenant),
+        ],
+      },
+    })
+
+    if (!form) {
+      return new Response(JSON.stringify({ error: 'Form is not tracked' }), {
         headers: { 'Content-Type': 'application/json' },
+        status: 404,
       })
     }
-    // Fetch forms data
-    const formsResponse = await fetch('https://api.hubapi.com/forms/v2/forms', {
-      headers: getHubSpotHeaders(pluginOptions),
+
+    const range = start ? { end, start } : { ...getRecentHistoryRange(HISTORY_DEFAULT_DAYS), end }
+    const history = await getAnalyticsHistory(req.payload, [form.id], range)
+
+    return new Response(JSON.stringify({ history: history.get(String(form.id)) || [], range }), {
+      headers: { 'Content-Type': 'application/json' },
     })
-    if (!formsResponse.ok) {
-      const errorText = await formsResponse.text()
-      throw new Error(`Forms API failed with status ${formsResponse.status}: ${errorText}`)
-    }
-    const forms = await formsResponse.json()
+  } catch (error) {
+    errorLog(`Error fetching analytics history for form ${formGuid}:`, error)
+    return new Response(
+      JSON.stringify({
+        details: error instanceof Error ? error.message : 'Unknown error',
+        error: 'Failed to fetch form analytics history',
+      }),
+      {
+        headers: { 'Content-Type': 'application/json' },
+        status: 500,
+      },
+    )
+  }
+}
 
-    // Process forms sequentially with rate limiting to prevent API overload
-    const formsWithStats = []
-    debugLog(`Processing ${forms.length} forms with rate limiting...`)
+/**
+ * Analytics of many forms in one request. Each form's stats are streamed back as soon as they are
+ * loaded, cached ones first, as NDJSON lines or as server-sent events when the request accepts
+ * `text/event-stream`.
+ */
+export const batchFormAnalyticsHandler = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<Response> => {
+  const body = (await req.json?.().catch(() => undefined)) as { formGuids?: unknown } | undefined
+  const formGuids = body?.formGuids
 
-    for (let i = 0; i < forms.length; i++) {
-      const form = forms[i]
+  if (
+    !Array.isArray(formGuids) ||
+    formGuids.length === 0 ||
+    !formGuids.every((guid) => typeof guid === 'string' && guid)
+  ) {
+    return new Response(JSON.stringify({ error: 'formGuids must be a list of form GUIDs' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
 
-      try {
-        // Add delay between requests (except for the first one)
-        if (i > 0) {
-          await delay(RATE_LIMIT_DELAY)
-        }
+  if (formGuids.length > BATCH_MAX_FORMS) {
+    return new Response(
+      JSON.stringify({ error: `At most ${BATCH_MAX_FORMS} forms can be requested at once` }),
+      {
+        headers: { 'Content-Type': 'application/json' },
+        status: 400,
+      },
+    )
+  }
 
-        debugLog(
-          `Fetching analytics for form ${i + 1}/${forms.length}: ${form.name} (${form.guid})`,
-        )
+  // Optional date range, e.g. ?start=2025-01-01&end=2025-01-31
+  const start = req.searchParams?.get('start') || undefined
+  const end = req.searchParams?.get('end') || undefined
 
-        // Get analytics with retry logic
-        const analytics = await fetchFormAnalyticsWithRetry(form.guid, pluginOptions)
-
-        // Extract meaningful stats from analytics
-        const totals = analytics.totals || {}
-        formsWithStats.push({
-          ...form,
-          stats: {
-            clickThroughRate: totals.clickThroughPerFormView || 0,
-            conversionRate:
-              (totals.submissionsPerFormView || 0) > 1
-                ? undefined
-                : totals.submissionsPerFormView || 0,
-            interactions: totals.interactions || 0,
-            nonContactSubmissions: totals.nonContactSubmissions || 0,
-            submissionRate: totals.submissionsPerClickThrough || 0,
-            submissions: totals.submissions || 0,
-            views: totals.formViews || 0,
-          },
-        })
-
-        debugLog(`Successfully fetched analytics for form: ${form.name}`)
-      } catch (err) {
-        errorLog(
-          `Error fetching stats for form ${form.guid}:`,
-          err instanceof Error ? err.message : err,
+  const rangeError = validateAnalyticsRange(start, end)
+  if (rangeError) {
+    return new Response(JSON.stringify({ error: rangeError }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 400,
+    })
+  }
+
+  if (!isHubSpotConfigured(pluginOptions)) {
+    return new Response(JSON.stringify({ error: 'HubSpot API key not configured' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 500,
+    })
+  }
+
+  const tenant = getRequestTenant(pluginOptions, req)
+  if (tenant === null) {
+    return new Response(JSON.stringify({ error: 'You are not allowed to access this tenant.' }), {
+      headers: { 'Content-Type': 'application/json' },
+      status: 403,
+    })
+  }
+
+  let client: ReturnType<typeof getHubSpotClient>
+  let untracked: Set<string>
+  try {
+    // Forms of other tenants are reported as failures rather than loaded
+    untracked = new Set(
+      await getUntrackedFormGuids(req, pluginOptions, tenant, formGuids as string[]),
+    )
+    const portal = await getAnalyticsPortal(req, pluginOptions, tenant)
+    client = getHubSpotClient(pluginOptions, req.payload, portal, {
+      refresh: req.searchParams?.get('refresh') === 'true',
+    })
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      {
+        headers: { 'Content-Type': 'application/json' },
+        status: error instanceof HubSpotNotFoundError ? 404 : 500,
+      },
+    )
+  }
+
+  const range: HubSpotDateRange = { end, start }
+  const isEventStream = req.headers.get('accept')?.includes('text/event-stream')
+  const encoder = new TextEncoder()
+
+  debugLog(`Fetching analytics for ${formGuids.length} forms`)
+
+  // Requests run concurrently under the portal's rate limit, results are written as they arrive
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (result: unknown, event: string = 'analytics') => {
+        const data = JSON.stringify(result)
+        controller.enqueue(
+          encoder.encode(isEventStream ? `event: ${event}\ndata: ${data}\n\n` : `${data}\n`),
         )
+      }
 
-        // Add form with zero stats on error
-        formsWithStats.push({
-          ...form,
-          stats: {
-            clickThroughRate: 0,
-            conversionRate: 0,
-            interactions: 0,
-            nonContactSubmissions: 0,
-            submissionRate: 0,
-            submissions: 0,
-            views: 0,
-          },
-        })
+      await Promise.all(
+        (formGuids as string[]).map(async (guid) => {
+          if (untracked.has(guid)) {
+            send({ error: 'Form is not tracked', guid })
+            return
+          }
+
+          try {
+            send({ guid, stats: toFormStats(await client.getFormAnalytics(guid, range)) })
+          } catch (error) {
+            errorLog(`Error fetching analytics for form ${guid}:`, error)
+            send({ error: error instanceof Error ? error.message : 'Unknown error', guid })
+          }
+        }),
+      )
+
+      if (isEventStream) {
+        send({ count: formGuids.length }, 'done')
       }
-    }
+      controller.close()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Cache-Control': 'no-cache',
+      'Content-Type': isEventStream ? 'text/event-stream' : 'application/x-ndjson',
+    },
+  })
+}
+
+export const hubspotFormsHandler = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<Response> => {
+  try {
+    // Forms and analytics come from the cache unless ?refresh=true is set
+    const refresh = req.searchParams?.get('refresh') === 'true'
+    const client = getHubSpotClient(pluginOptions, req.payload, undefined, { refresh })
+    const forms: HubSpotForm[] = await client.listForms()
+
+    // Requests run concurrently, paced by the portal's rate limiter
+    debugLog(`Processing ${forms.length} forms...`)
+
+    const formsWithStats = await Promise.all(
+      forms.map(async (form) => {
+        try {
+          debugLog(`Fetching analytics for form: ${form.name} (${form.guid})`)
+
+          // Get analytics (retries are handled by the client)
+          const analytics = await client.getFormAnalytics(form.guid)
+
+          debugLog(`Successfully fetched analytics for form: ${form.name}`)
+
+          // Extract meaningful stats from analytics
+          return {
+            ...form,
+            stats: toFormStats(analytics),
+          }
+        } catch (err) {
+          errorLog(
+            `Error fetching stats for form ${form.guid}:`,
+            err instanceof Error ? err.message : err,
+          )
+
+          // Add form with zero stats on error
+          return {
+            ...form,
+            stats: {
+              clickThroughRate: 0,
+              conversionRate: 0,
+              interactions: 0,
+              nonContactSubmissions: 0,
+              submissionRate: 0,
+              submissions: 0,
+              views: 0,
+            },
+          }
+        }
+      }),
+    )
 
     debugLog(`Completed processing all ${formsWithStats.length} forms`)
-    // Update cache
-    formsCache = {
-      data: formsWithStats,
-      timestamp: now,
-    }
     return new Response(JSON.stringify(formsWithStats), {
       headers: { 'Content-Type': 'application/json' },
     })
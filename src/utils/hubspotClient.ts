@@ -0,0 +1,572 @@
+import type { Payload } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type { HubSpotCache, HubSpotCacheResource, HubSpotCacheTTL } from './cache.js'
+import type { HubSpotError, HubSpotValidationErrorDetail } from './hubspotErrors.js'
+import type { HubSpotRateLimiter } from './rateLimiter.js'
+
+import { getCacheTTL, getHubSpotCache } from './cache.js'
+import {
+  HubSpotAuthError,
+  HubSpotNotFoundError,
+  HubSpotRateLimitError,
+  HubSpotUpstreamError,
+  HubSpotValidationError,
+} from './hubspotErrors.js'
+import { getOAuthAccessToken } from './oauth.js'
+import { getPortalConfig, hasPortals } from './portals.js'
+import { getRateLimiter } from './rateLimiter.js'
+
+export const HUBSPOT_API_URL = 'https://api.hubapi.com'
+const HUBSPOT_FORMS_SUBMIT_URL = 'https://api.hsforms.com' // Form submissions use a separate host
+const FORMS_PAGE_SIZE = 100 // Maximum page size allowed by the v3 forms API
+const SUBMISSIONS_PAGE_SIZE = 50 // Maximum page size allowed by the form-integrations API
+
+export type HubSpotRetryPolicy = {
+  baseDelay: number // Base delay in ms, doubled on every attempt
+  maxRetries: number
+}
+
+const DEFAULT_RETRY_POLICY: HubSpotRetryPolicy = {
+  baseDelay: 1000,
+  maxRetries: 3,
+}
+
+export type HubSpotFormsApiVersion = 'v2' | 'v3'
+
+export type HubSpotClientCacheOptions = {
+  keyPrefix: string // Keeps the entries of different portals apart
+  refresh?: boolean // Skip cached values and store fresh ones
+  store: HubSpotCache
+  ttl: HubSpotCacheTTL
+}
+
+export type HubSpotClientOptions = {
+  apiKey?: string
+  baseUrl?: string
+  /**
+   * Cache forms and analytics read through the client, submissions are always loaded fresh.
+   */
+  cache?: HubSpotClientCacheOptions
+  /**
+   * Forms API to load forms from. Unset, the v3 marketing forms API is used and requests v3
+   * rejects with a 403 or 404 are retried on the legacy v2 API.
+   */
+  formsApi?: HubSpotFormsApiVersion
+  /**
+   * Access token provider used when no `apiKey` is set, called before every request so it can
+   * refresh OAuth tokens that are about to expire.
+   */
+  getAccessToken?: () => Promise<string | undefined>
+  /**
+   * Limiter every request waits on, shared by the clients of a portal so their requests stay
+   * within its budgets together.
+   */
+  rateLimiter?: HubSpotRateLimiter
+  retry?: Partial<HubSpotRetryPolicy>
+}
+
+// Forms are normalised to always expose `guid` and `name`, whichever API version returned them
+export type HubSpotForm = {
+  [key: string]: unknown
+  guid: string
+  name: string
+}
+
+type HubSpotV3Form = {
+  [key: string]: unknown
+  id: string
+  name: string
+}
+
+type HubSpotV3FormsPage = {
+  paging?: {
+    next?: {
+      after: string
+    }
+  }
+  results: HubSpotV3Form[]
+}
+
+export type HubSpotFormSubmission = {
+  conversionId: string
+  pageUrl?: string
+  submittedAt: number // Epoch milliseconds
+  values: Array<{
+    name: string
+    objectTypeId?: string
+    value: string
+  }>
+}
+
+// Submissions are returned newest first, `after` pages towards older submissions
+export type HubSpotFormSubmissionsPage = {
+  paging?: {
+    next?: {
+      after: string
+    }
+  }
+  results: HubSpotFormSubmission[]
+}
+
+export type HubSpotFormSubmissionContext = {
+  hutk?: string // Value of the hubspotutk tracking cookie
+  ipAddress?: string
+  pageName?: string
+  pageUri?: string
+}
+
+export type HubSpotFormSubmissionInput = {
+  context?: HubSpotFormSubmissionContext
+  fields: Array<{
+    name: string
+    objectTypeId?: string
+    value: string
+  }>
+  submittedAt?: number // Epoch milliseconds, defaults to the time HubSpot receives the submission
+}
+
+export type HubSpotFormSubmitResult = {
+  inlineMessage?: string
+  redirectUri?: string
+}
+
+export type HubSpotFormAnalytics = {
+  totals?: Record<string, number>
+}
+
+export type HubSpotAnalyticsGranularity = 'daily' | 'monthly' | 'weekly'
+
+export type HubSpotDateRange = {
+  end?: string // YYYY-MM-DD, inclusive
+  start?: string // YYYY-MM-DD, inclusive
+}
+
+// Time-period report keyed by bucket start date, each bucket holding one row per form
+export type HubSpotFormAnalyticsReport = Record<
+  string,
+  Array<{ [metric: string]: number | string; breakdown: string }>
+>
+
+export type HubSpotFormStats = {
+  clickThroughRate: number
+  conversionRate?: number
+  interactions: number
+  nonContactSubmissions: number
+  submissionRate: number
+  submissions: number
+  views: number
+}
+
+// Helper function to add delay between requests
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+const warnLog = (message: string): void => {
+  // eslint-disable-next-line no-console
+  console.warn(`[HubSpot Client] ${message}`)
+}
+
+// HubSpot analytics reports expect dates as YYYYMMDD
+const toReportDate = (date: string): string => date.replace(/-/g, '')
+
+const toReportParams = (formGuid: string, range: HubSpotDateRange = {}): URLSearchParams => {
+  const params = new URLSearchParams({ f: formGuid })
+  if (range.start) {
+    params.set('start', toReportDate(range.start))
+  }
+  if (range.end) {
+    params.set('end', toReportDate(range.end))
+  }
+  return params
+}
+
+const fromV3Form = (form: HubSpotV3Form): HubSpotForm => ({
+  ...form,
+  name: form.name,
+  guid: form.id,
+})
+
+// Error details HubSpot returns with a 400, e.g. for invalid form submissions
+const toValidationErrors = (errorText: string): HubSpotValidationErrorDetail[] | undefined => {
+  try {
+    const { errors } = JSON.parse(errorText) as { errors?: unknown }
+    return Array.isArray(errors) ? errors : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Map the analytics totals returned by HubSpot to the stats shape used by the plugin
+export const toFormStats = (analytics: HubSpotFormAnalytics): HubSpotFormStats => {
+  const totals = analytics.totals || {}
+  return {
+    clickThroughRate: totals.clickThroughPerFormView || 0,
+    conversionRate:
+      (totals.submissionsPerFormView || 0) > 1 ? undefined : totals.submissionsPerFormView || 0,
+    interactions: totals.interactions || 0,
+    nonContactSubmissions: totals.nonContactSubmissions || 0,
+    submissionRate: totals.submissionsPerClickThrough || 0,
+    submissions: totals.submissions || 0,
+    views: totals.formViews || 0,
+  }
+}
+
+export class HubSpotClient {
+  private apiKey?: string
+  private baseUrl: string
+  private cache?: HubSpotClientCacheOptions
+  private formsApi?: HubSpotFormsApiVersion
+  private getAccessToken?: () => Promise<string | undefined>
+  private rateLimiter?: HubSpotRateLimiter
+  private retryPolicy: HubSpotRetryPolicy
+  private submitBaseUrl: string
+
+  constructor(options: HubSpotClientOptions = {}) {
+    this.apiKey = options.apiKey
+    this.baseUrl = (options.baseUrl || HUBSPOT_API_URL).replace(/\/+$/, '')
+    this.cache = options.cache
+    // A custom base URL (e.g. the mock server) serves form submissions as well
+    this.submitBaseUrl = options.baseUrl ? this.baseUrl : HUBSPOT_FORMS_SUBMIT_URL
+    this.formsApi = options.formsApi
+    this.getAccessToken = options.getAccessToken
+    this.rateLimiter = options.rateLimiter
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry }
+  }
+
+  private backoff(attempt: number): number {
+    return this.retryPolicy.baseDelay * Math.pow(2, attempt) + Math.random() * 1000
+  }
+
+  /**
+   * Serve `load` from the cache when a fresh entry exists, storing what it returns otherwise. A
+   * failing cache store never fails the read.
+   */
+  private async cached<T>(
+    key: string,
+    resource: HubSpotCacheResource,
+    load: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.cache) {
+      return load()
+    }
+
+    const { keyPrefix, refresh, store, ttl } = this.cache
+    const cacheKey = `${keyPrefix}:${key}`
+
+    if (!refresh) {
+      const hit = await store.get<T>(cacheKey).catch((error: unknown) => {
+        warnLog(`Cache read failed for ${cacheKey}: ${String(error)}`)
+        return undefined
+      })
+      if (hit !== undefined) {
+        return hit
+      }
+    }
+
+    const value = await load()
+    await store.set(cacheKey, value, ttl[resource]).catch((error: unknown) => {
+      warnLog(`Cache write failed for ${cacheKey}: ${String(error)}`)
+    })
+    return value
+  }
+
+  private async toError(response: Response, path: string): Promise<HubSpotError> {
+    const errorText = await response.text().catch(() => '')
+    const message = `HubSpot API ${path} failed with status ${response.status}: ${errorText}`
+
+    const validationErrors = response.status === 400 ? toValidationErrors(errorText) : undefined
+    if (validationErrors) {
+      return new HubSpotValidationError(message, validationErrors)
+    }
+    if (response.status === 401 || response.status === 403) {
+      return new HubSpotAuthError(message, response.status)
+    }
+    if (response.status === 404) {
+      return new HubSpotNotFoundError(message)
+    }
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('Retry-After'))
+      return new HubSpotRateLimitError(message, retryAfter ? retryAfter * 1000 : undefined)
+    }
+    return new HubSpotUpstreamError(message, response.status)
+  }
+
+  /**
+   * Load from the configured forms API. Without one, v3 is used and requests it rejects with a
+   * 403 or 404 are retried on v2, for portals and tokens that only have the legacy forms API.
+   */
+  private async withFormsApi<T>(v3: () => Promise<T>, v2: () => Promise<T>): Promise<T> {
+    if (this.formsApi === 'v2') {
+      return v2()
+    }
+
+    try {
+      return await v3()
+    } catch (error) {
+      const isUnavailable =
+        (error instanceof HubSpotAuthError && error.status === 403) ||
+        error instanceof HubSpotNotFoundError
+      if (this.formsApi || !isUnavailable) {
+        throw error
+      }
+
+      return v2()
+    }
+  }
+
+  getForm(formGuid: string): Promise<HubSpotForm> {
+    return this.cached(`form:${formGuid}`, 'form', () =>
+      this.withFormsApi(
+        async () =>
+          fromV3Form(
+            await this.request<HubSpotV3Form>(
+              `/marketing/v3/forms/${encodeURIComponent(formGuid)}`,
+            ),
+          ),
+        () => this.request<HubSpotForm>(`/forms/v2/forms/${encodeURIComponent(formGuid)}`),
+      ),
+    )
+  }
+
+  // All-time totals, or totals for the given date range
+  getFormAnalytics(formGuid: string, range?: HubSpotDateRange): Promise<HubSpotFormAnalytics> {
+    const params = toReportParams(formGuid, range)
+    return this.cached(`analytics:total?${params}`, 'analytics', () =>
+      this.request<HubSpotFormAnalytics>(`/analytics/v2/reports/forms/total?${params}`),
+    )
+  }
+
+  // Analytics bucketed by day, week or month for the given date range
+  getFormAnalyticsReport(
+    formGuid: string,
+    granularity: HubSpotAnalyticsGranularity,
+    range: HubSpotDateRange,
+  ): Promise<HubSpotFormAnalyticsReport> {
+    const params = toReportParams(formGuid, range)
+    return this.cached(`analytics:${granularity}?${params}`, 'analytics', () =>
+      this.request<HubSpotFormAnalyticsReport>(
+        `/analytics/v2/reports/forms/${granularity}?${params}`,
+      ),
+    )
+  }
+
+  // One page of form submissions, newest first
+  getFormSubmissions(formGuid: string, after?: string): Promise<HubSpotFormSubmissionsPage> {
+    const params = new URLSearchParams({ limit: String(SUBMISSIONS_PAGE_SIZE) })
+    if (after) {
+      params.set('after', after)
+    }
+
+    return this.request<HubSpotFormSubmissionsPage>(
+      `/form-integrations/v1/submissions/forms/${encodeURIComponent(formGuid)}?${params}`,
+    )
+  }
+
+  // Drop the cached all-time totals of a form, e.g. once it received new submissions
+  async invalidateFormAnalytics(formGuid: string): Promise<void> {
+    await this.cache?.store.delete(
+      `${this.cache.keyPrefix}:analytics:total?${toReportParams(formGuid)}`,
+    )
+  }
+
+  // Load every form in the portal, following `after` cursors on the v3 API
+  listForms(): Promise<HubSpotForm[]> {
+    return this.cached('forms', 'forms', () =>
+      this.withFormsApi(
+        async () => {
+          const forms: HubSpotForm[] = []
+          let after: string | undefined
+
+          do {
+            const params = new URLSearchParams({ limit: String(FORMS_PAGE_SIZE) })
+            if (after) {
+              params.set('after', after)
+            }
+
+            const page = await this.request<HubSpotV3FormsPage>(`/marketing/v3/forms?${params}`)
+            forms.push(...page.results.map(fromV3Form))
+            after = page.paging?.next?.after
+          } while (after)
+
+          return forms
+        },
+        () => this.request<HubSpotForm[]>('/forms/v2/forms'),
+      ),
+    )
+  }
+
+  // Verify the credentials by fetching a single form
+  async ping(): Promise<void> {
+    await this.withFormsApi(
+      () => this.request('/marketing/v3/forms?limit=1'),
+      () => this.request('/forms/v2/forms?limit=1'),
+    )
+  }
+
+  /**
+   * Perform a request against the HubSpot API, retrying rate limits, 5xx responses and
+   * network failures with exponential backoff. Requests wait on the rate limiter, if any.
+   */
+  async request<T>(path: string, init: RequestInit = {}, attempt: number = 0): Promise<T> {
+    const token = this.apiKey || (await this.getAccessToken?.())
+    if (!token) {
+      throw new HubSpotAuthError(
+        this.getAccessToken
+          ? 'HubSpot is not connected, connect it from the admin panel'
+          : 'HubSpot API key not configured',
+      )
+    }
+
+    let response: Response
+    const release = await this.rateLimiter?.acquire()
+    try {
+      // Absolute URLs target other HubSpot hosts, such as the form submissions API
+      response = await fetch(/^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`, {
+        ...init,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          ...init.headers,
+        },
+      })
+      this.rateLimiter?.update(response.headers)
+    } catch (error) {
+      release?.()
+      if (attempt < this.retryPolicy.maxRetries) {
+        const backoffDelay = this.backoff(attempt)
+        warnLog(
+          `Network error for ${path}. Retrying in ${backoffDelay}ms (attempt ${attempt + 1}/${this.retryPolicy.maxRetries})`,
+        )
+        await delay(backoffDelay)
+        return this.request<T>(path, init, attempt + 1)
+      }
+      throw new HubSpotUpstreamError(
+        `Network error for ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      )
+    }
+
+    release?.()
+
+    if (response.ok) {
+      return (await response.json()) as T
+    }
+
+    const error = await this.toError(response, path)
+    const retryable = error instanceof HubSpotRateLimitError || (error.status || 0) >= 500
+
+    if (retryable && attempt < this.retryPolicy.maxRetries) {
+      const backoffDelay =
+        error instanceof HubSpotRateLimitError && error.retryAfter
+          ? error.retryAfter
+          : this.backoff(attempt)
+      warnLog(
+        `${error.name} for ${path}. Retrying in ${backoffDelay}ms (attempt ${attempt + 1}/${this.retryPolicy.maxRetries})`,
+      )
+
+      // Rate limits hold back every request to the portal, not just this one
+      if (error instanceof HubSpotRateLimitError && this.rateLimiter) {
+        this.rateLimiter.pause(backoffDelay)
+      } else {
+        await delay(backoffDelay)
+      }
+      return this.request<T>(path, init, attempt + 1)
+    }
+
+    throw error
+  }
+
+  // Submit a form through the authenticated submissions API, keeping the portal ID server-side
+  submitForm(
+    portalId: string,
+    formGuid: string,
+    submission: HubSpotFormSubmissionInput,
+  ): Promise<HubSpotFormSubmitResult> {
+    return this.request<HubSpotFormSubmitResult>(
+      `${this.submitBaseUrl}/submissions/v3/integration/secure/submit/${encodeURIComponent(portalId)}/${encodeURIComponent(formGuid)}`,
+      {
+        body: JSON.stringify(submission),
+        method: 'POST',
+      },
+    )
+  }
+}
+
+// Whether HubSpot credentials are set up, an API key, the OAuth app or per-portal tokens
+export const isHubSpotConfigured = (pluginOptions: PayloadHubspotConfig): boolean =>
+  Boolean(
+    pluginOptions.apiKey ||
+      process.env.HUBSPOT_API_KEY ||
+      pluginOptions.oauth ||
+      hasPortals(pluginOptions),
+  )
+
+export type GetHubSpotClientOptions = {
+  /**
+   * Load forms and analytics from HubSpot instead of the cache, storing the fresh values.
+   */
+  refresh?: boolean
+}
+
+// Cache shared by the clients of one portal, keyed apart from other portals and API versions
+const getClientCache = (
+  pluginOptions: PayloadHubspotConfig,
+  payload: Payload | undefined,
+  portal: string,
+  formsApi: HubSpotFormsApiVersion | undefined,
+  refresh?: boolean,
+): HubSpotClientCacheOptions | undefined =>
+  payload
+    ? {
+        keyPrefix: `hubspot:${portal}:${formsApi || 'v3'}`,
+        refresh,
+        store: getHubSpotCache(payload, pluginOptions),
+        ttl: getCacheTTL(pluginOptions),
+      }
+    : undefined
+
+/**
+ * Client for the configured portal. Without an API key, requests use the OAuth tokens stored
+ * by the connect flow, which needs the Payload instance holding them. When `portals` is set,
+ * the client uses the token of `portal`, or of the first portal when none is given. Forms and
+ * analytics are cached when the Payload instance is given, and every client of a portal shares
+ * its rate limiter.
+ */
+export const getHubSpotClient = (
+  pluginOptions: PayloadHubspotConfig,
+  payload?: Payload,
+  portal?: null | string,
+  { refresh }: GetHubSpotClientOptions = {},
+): HubSpotClient => {
+  if (hasPortals(pluginOptions)) {
+    const portalConfig = getPortalConfig(pluginOptions, portal)
+    if (!portalConfig) {
+      throw new HubSpotNotFoundError(`HubSpot portal ${portal} is not configured`)
+    }
+    const formsApi = portalConfig.formsApi || pluginOptions.formsApi
+
+    return new HubSpotClient({
+      apiKey: portalConfig.apiKey,
+      baseUrl: pluginOptions.baseUrl || process.env.HUBSPOT_BASE_URL,
+      cache: getClientCache(pluginOptions, payload, portalConfig.id, formsApi, refresh),
+      formsApi,
+      rateLimiter: getRateLimiter(portalConfig.id, {
+        ...pluginOptions.rateLimit,
+        ...portalConfig.rateLimit,
+      }),
+    })
+  }
+
+  const portalId = pluginOptions.portalId || process.env.HUBSPOT_PORTAL_ID || 'default'
+
+  return new HubSpotClient({
+    apiKey: pluginOptions.apiKey || process.env.HUBSPOT_API_KEY,
+    baseUrl: pluginOptions.baseUrl || process.env.HUBSPOT_BASE_URL,
+    cache: getClientCache(pluginOptions, payload, portalId, pluginOptions.formsApi, refresh),
+    formsApi: pluginOptions.formsApi,
+    getAccessToken:
+      pluginOptions.oauth && payload
+        ? () => getOAuthAccessToken(payload, pluginOptions)
+        : undefined,
+    rateLimiter: getRateLimiter(portalId, pluginOptions.rateLimit),
+  })
+}
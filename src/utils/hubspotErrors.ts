@@ -0,0 +1,61 @@
+// Base class for every error raised while talking to the HubSpot API
+export class HubSpotError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'HubSpotError'
+    this.status = status
+  }
+}
+
+// 401/403 - missing, invalid or under-scoped credentials
+export class HubSpotAuthError extends HubSpotError {
+  constructor(message: string, status: number = 401) {
+    super(message, status)
+    this.name = 'HubSpotAuthError'
+  }
+}
+
+// 404 - the requested form (or other resource) does not exist in the portal
+export class HubSpotNotFoundError extends HubSpotError {
+  constructor(message: string) {
+    super(message, 404)
+    this.name = 'HubSpotNotFoundError'
+  }
+}
+
+// 429 - rate limit still exceeded after all retries were used
+export class HubSpotRateLimitError extends HubSpotError {
+  retryAfter?: number
+
+  constructor(message: string, retryAfter?: number) {
+    super(message, 429)
+    this.name = 'HubSpotRateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
+
+// 5xx responses, network failures and any other unexpected reply from HubSpot
+export class HubSpotUpstreamError extends HubSpotError {
+  constructor(message: string, status?: number) {
+    super(message, status)
+    this.name = 'HubSpotUpstreamError'
+  }
+}
+
+export type HubSpotValidationErrorDetail = {
+  errorType?: string
+  message: string
+}
+
+// 400 - HubSpot rejected the request body, e.g. a form submission with invalid field values
+export class HubSpotValidationError extends HubSpotError {
+  errors: HubSpotValidationErrorDetail[]
+
+  constructor(message: string, errors: HubSpotValidationErrorDetail[] = []) {
+    super(message, 400)
+    this.name = 'HubSpotValidationError'
+    this.errors = errors
+  }
+}
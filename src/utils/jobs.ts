@@ -0,0 +1,58 @@
+import type { JsonObject, Payload } from 'payload'
+
+type ID = number | string
+
+// Jobs of a task waiting on the queue, not yet picked up by a runner
+const findWaitingJobs = async (payload: Payload, task: string): Promise<JsonObject[]> => {
+  const { docs } = await payload.find({
+    collection: 'payload-jobs',
+    depth: 0,
+    pagination: false,
+    where: {
+      and: [
+        { taskSlug: { equals: task } },
+        { completedAt: { exists: false } },
+        { processing: { equals: false } },
+        { hasError: { not_equals: true } },
+      ],
+    },
+  })
+
+  // Oldest first, every instance picks the same job to keep
+  return docs.sort(
+    (a, b) =>
+      String(a.createdAt).localeCompare(String(b.createdAt)) ||
+      String(a.id).localeCompare(String(b.id)),
+  )
+}
+
+/**
+ * Queue a job with `queueJob` unless a job of the task matching `matches` is already waiting.
+ * Instances can check and queue at the same time, so every matching waiting job but the oldest
+ * is deleted afterwards, leaving exactly one. Returns the ID of the queued job when it is the one
+ * left waiting.
+ */
+export const queueJobOnce = async (
+  payload: Payload,
+  task: string,
+  queueJob: () => Promise<JsonObject>,
+  matches: (input: JsonObject) => boolean = () => true,
+): Promise<ID | undefined> => {
+  const isMatch = (job: JsonObject) => matches((job.input || {}) as JsonObject)
+
+  if ((await findWaitingJobs(payload, task)).some(isMatch)) {
+    return undefined
+  }
+
+  const { id } = await queueJob()
+
+  const [kept, ...duplicates] = (await findWaitingJobs(payload, task)).filter(isMatch)
+  if (duplicates.length > 0) {
+    await payload.delete({
+      collection: 'payload-jobs',
+      where: { id: { in: duplicates.map((job) => job.id) } },
+    })
+  }
+
+  return kept && String(kept.id) === String(id) ? (kept.id as ID) : undefined
+}
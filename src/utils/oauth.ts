@@ -0,0 +1,380 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import { randomBytes } from 'crypto'
+import { parseCookies } from 'payload/shared'
+
+import type { PayloadHubspotConfig } from '../index.js'
+
+import { HUBSPOT_CONNECTION_SLUG } from '../globals/hubspotConnection.js'
+import { HUBSPOT_API_URL } from './hubspotClient.js'
+import { HubSpotAuthError } from './hubspotErrors.js'
+import { getPortalId, hasPortals } from './portals.js'
+
+const HUBSPOT_AUTHORIZE_URL = 'https://app.hubspot.com/oauth/authorize'
+const DEFAULT_OAUTH_SCOPES = ['oauth', 'forms', 'business-intelligence']
+const STATE_COOKIE = 'payload-hubspot-oauth-state'
+const STATE_MAX_AGE = 10 * 60 // 10 minutes, in seconds
+
+// Access tokens are refreshed this long before HubSpot expires them
+const REFRESH_MARGIN = 5 * 60 * 1000 // 5 minutes
+
+export type PayloadHubspotOAuthConfig = {
+  /**
+   * Client ID of the HubSpot app. Defaults to `HUBSPOT_CLIENT_ID`.
+   */
+  clientId?: string
+  /**
+   * Client secret of the HubSpot app, also used to verify webhooks. Defaults to
+   * `HUBSPOT_CLIENT_SECRET`.
+   */
+  clientSecret?: string
+  /**
+   * Redirect URL registered on the HubSpot app. Defaults to `/api/hubspot/oauth/callback` on
+   * the `serverURL`, or on the URL the install was started from.
+   */
+  redirectUri?: string
+  /**
+   * Scopes requested on install.
+   * @default ['oauth', 'forms', 'business-intelligence']
+   */
+  scopes?: string[]
+}
+
+export type HubSpotOAuthTokens = {
+  accessToken: string
+  expiresAt: number // Epoch ms
+  refreshToken: string
+}
+
+type TokenResponse = {
+  access_token: string
+  expires_in: number // Seconds
+  refresh_token: string
+}
+
+type TokenInfoResponse = {
+  hub_domain?: string
+  hub_id: number
+  scopes?: string[]
+  user?: string
+}
+
+// Tokens of the connected portal, kept in memory until the access token is due for a refresh
+let cachedTokens: HubSpotOAuthTokens | null = null
+let pendingTokens: null | Promise<HubSpotOAuthTokens | null> = null
+
+// ID of the connected portal, kept in memory once read
+let connectedPortalId: null | string = null
+
+const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+const getBaseUrl = (pluginOptions: PayloadHubspotConfig): string =>
+  (pluginOptions.baseUrl || process.env.HUBSPOT_BASE_URL || HUBSPOT_API_URL).replace(/\/+$/, '')
+
+const getCredentials = (pluginOptions: PayloadHubspotConfig) => ({
+  clientId: pluginOptions.oauth?.clientId || process.env.HUBSPOT_CLIENT_ID,
+  clientSecret: pluginOptions.oauth?.clientSecret || process.env.HUBSPOT_CLIENT_SECRET,
+})
+
+// A custom base URL (e.g. the mock server) also serves the authorization page
+const getAuthorizeUrl = (pluginOptions: PayloadHubspotConfig): string =>
+  pluginOptions.baseUrl || process.env.HUBSPOT_BASE_URL
+    ? `${getBaseUrl(pluginOptions)}/oauth/authorize`
+    : HUBSPOT_AUTHORIZE_URL
+
+const getRedirectUri = (req: PayloadRequest, pluginOptions: PayloadHubspotConfig): string =>
+  pluginOptions.oauth?.redirectUri ||
+  `${req.payload.config.serverURL || new URL(req.url || '').origin}${req.payload.config.routes.api}/hubspot/oauth/callback`
+
+/**
+ * Exchange an authorization code or a refresh token for tokens at HubSpot's token endpoint.
+ */
+export const requestOAuthTokens = async (
+  pluginOptions: PayloadHubspotConfig,
+  params: Record<string, string>,
+): Promise<HubSpotOAuthTokens> => {
+  const { clientId, clientSecret } = getCredentials(pluginOptions)
+  if (!clientId || !clientSecret) {
+    throw new HubSpotAuthError('HubSpot OAuth client ID and secret not configured')
+  }
+
+  const response = await fetch(`${getBaseUrl(pluginOptions)}/oauth/v1/token`, {
+    body: new URLSearchParams({ ...params, client_id: clientId, client_secret: clientSecret }),
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    method: 'POST',
+  })
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as { message?: string }
+    throw new HubSpotAuthError(
+      `HubSpot token request failed: ${body.message || response.statusText}`,
+      response.status,
+    )
+  }
+
+  const tokens = (await response.json()) as TokenResponse
+  return {
+    accessToken: tokens.access_token,
+    expiresAt: Date.now() + tokens.expires_in * 1000,
+    refreshToken: tokens.refresh_token,
+  }
+}
+
+const getTokenInfo = async (
+  pluginOptions: PayloadHubspotConfig,
+  accessToken: string,
+): Promise<TokenInfoResponse> => {
+  const response = await fetch(
+    `${getBaseUrl(pluginOptions)}/oauth/v1/access-tokens/${encodeURIComponent(accessToken)}`,
+  )
+  if (!response.ok) {
+    throw new HubSpotAuthError('Unable to read the HubSpot access token', response.status)
+  }
+  return (await response.json()) as TokenInfoResponse
+}
+
+const readTokens = async (payload: Payload): Promise<HubSpotOAuthTokens | null> => {
+  const connection = await payload.findGlobal({ slug: HUBSPOT_CONNECTION_SLUG, depth: 0 })
+
+  if (!connection.accessToken || !connection.refreshToken) {
+    return null
+  }
+
+  return {
+    accessToken: payload.decrypt(connection.accessToken),
+    expiresAt: Number(connection.expiresAt) || 0,
+    refreshToken: payload.decrypt(connection.refreshToken),
+  }
+}
+
+const saveTokens = async (
+  payload: Payload,
+  tokens: HubSpotOAuthTokens,
+  connection: Record<string, unknown> = {},
+): Promise<void> => {
+  await payload.updateGlobal({
+    slug: HUBSPOT_CONNECTION_SLUG,
+    data: {
+      ...connection,
+      accessToken: payload.encrypt(tokens.accessToken),
+      expiresAt: tokens.expiresAt,
+      refreshToken: payload.encrypt(tokens.refreshToken),
+    },
+  })
+  cachedTokens = tokens
+}
+
+// Read the stored tokens, refreshing the access token first when it is about to expire
+const loadTokens = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<HubSpotOAuthTokens | null> => {
+  const tokens = await readTokens(payload)
+
+  if (!tokens || tokens.expiresAt - REFRESH_MARGIN > Date.now()) {
+    cachedTokens = tokens
+    return tokens
+  }
+
+  const refreshed = await requestOAuthTokens(pluginOptions, {
+    grant_type: 'refresh_token',
+    refresh_token: tokens.refreshToken,
+  })
+  await saveTokens(payload, refreshed)
+  return refreshed
+}
+
+/**
+ * Access token of the connected portal, refreshed automatically before it expires. Concurrent
+ * callers share a single refresh. Returns undefined when no portal is connected.
+ */
+export const getOAuthAccessToken = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<string | undefined> => {
+  if (cachedTokens && cachedTokens.expiresAt - REFRESH_MARGIN > Date.now()) {
+    return cachedTokens.accessToken
+  }
+
+  if (!pendingTokens) {
+    pendingTokens = loadTokens(payload, pluginOptions).finally(() => {
+      pendingTokens = null
+    })
+  }
+
+  return (await pendingTokens)?.accessToken
+}
+
+/**
+ * ID of the portal connected through the HubSpot app, read from the `hubspot-connection` global.
+ * Undefined without `oauth` or when no portal is connected.
+ */
+export const getConnectedPortalId = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<string | undefined> => {
+  if (!pluginOptions.oauth) {
+    return undefined
+  }
+
+  if (!connectedPortalId) {
+    const connection = await payload.findGlobal({ slug: HUBSPOT_CONNECTION_SLUG, depth: 0 })
+    connectedPortalId = connection.portalId ? String(connection.portalId) : null
+  }
+
+  return connectedPortalId || undefined
+}
+
+/**
+ * Portal ID a form belongs to, like `getPortalId`, falling back to the portal connected through
+ * the HubSpot app when no portal ID is configured.
+ */
+export const resolvePortalId = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+  portal?: null | string,
+): Promise<string | undefined> =>
+  getPortalId(pluginOptions, portal) ||
+  (hasPortals(pluginOptions) ? undefined : await getConnectedPortalId(payload, pluginOptions))
+
+// Redirect to HubSpot's install page, with a state cookie tying the callback to this browser
+export const oauthInstallHandler = (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Response => {
+  const { clientId, clientSecret } = getCredentials(pluginOptions)
+  if (!clientId || !clientSecret) {
+    return jsonResponse({ error: 'HubSpot OAuth client ID and secret not configured' }, 500)
+  }
+
+  const state = randomBytes(16).toString('hex')
+  const authorizeUrl = new URL(getAuthorizeUrl(pluginOptions))
+  authorizeUrl.searchParams.set('client_id', clientId)
+  authorizeUrl.searchParams.set('redirect_uri', getRedirectUri(req, pluginOptions))
+  authorizeUrl.searchParams.set(
+    'scope',
+    (pluginOptions.oauth?.scopes || DEFAULT_OAUTH_SCOPES).join(' '),
+  )
+  authorizeUrl.searchParams.set('state', state)
+
+  const secure = getRedirectUri(req, pluginOptions).startsWith('https:') ? '; Secure' : ''
+
+  return new Response(null, {
+    headers: {
+      Location: authorizeUrl.toString(),
+      'Set-Cookie': `${STATE_COOKIE}=${state}; HttpOnly; Max-Age=${STATE_MAX_AGE}; Path=/; SameSite=Lax${secure}`,
+    },
+    status: 302,
+  })
+}
+
+// Exchange the authorization code for tokens and store them, then return to the admin panel
+export const oauthCallbackHandler = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<Response> => {
+  const url = new URL(req.url || '')
+  const code = url.searchParams.get('code')
+  const state = url.searchParams.get('state')
+
+  if (url.searchParams.get('error')) {
+    return jsonResponse(
+      {
+        details: url.searchParams.get('error_description') || url.searchParams.get('error'),
+        error: 'HubSpot connection was not authorized',
+      },
+      400,
+    )
+  }
+
+  if (!code || !state || state !== parseCookies(req.headers).get(STATE_COOKIE)) {
+    return jsonResponse({ error: 'Invalid or expired OAuth state, please connect again' }, 400)
+  }
+
+  try {
+    const tokens = await requestOAuthTokens(pluginOptions, {
+      code,
+      grant_type: 'authorization_code',
+      redirect_uri: getRedirectUri(req, pluginOptions),
+    })
+    const info = await getTokenInfo(pluginOptions, tokens.accessToken)
+
+    // Only the configured portal may be connected, its forms are what the plugin tracks
+    const portalId = pluginOptions.portalId || process.env.HUBSPOT_PORTAL_ID
+    if (portalId && String(info.hub_id) !== String(portalId)) {
+      return jsonResponse(
+        { error: `Connected portal ${info.hub_id} does not match portal ${portalId}` },
+        400,
+      )
+    }
+
+    await saveTokens(req.payload, tokens, {
+      connectedAt: new Date().toISOString(),
+      connectedBy: info.user,
+      hubDomain: info.hub_domain,
+      portalId: String(info.hub_id),
+      scopes: info.scopes,
+    })
+    connectedPortalId = String(info.hub_id)
+  } catch (error) {
+    return jsonResponse(
+      {
+        details: error instanceof Error ? error.message : 'Unknown error',
+        error: 'Failed to connect HubSpot',
+      },
+      500,
+    )
+  }
+
+  const { routes, serverURL } = req.payload.config
+
+  return new Response(null, {
+    headers: {
+      Location: `${serverURL || ''}${routes.admin}/globals/${HUBSPOT_CONNECTION_SLUG}`,
+      'Set-Cookie': `${STATE_COOKIE}=; HttpOnly; Max-Age=0; Path=/; SameSite=Lax`,
+    },
+    status: 302,
+  })
+}
+
+// Revoke the refresh token at HubSpot and forget the stored tokens
+export const oauthDisconnectHandler = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<Response> => {
+  const tokens = await readTokens(req.payload)
+
+  if (tokens) {
+    try {
+      await fetch(
+        `${getBaseUrl(pluginOptions)}/oauth/v1/refresh-tokens/${encodeURIComponent(tokens.refreshToken)}`,
+        { method: 'DELETE' },
+      )
+    } catch (error) {
+      // The stored tokens are removed either way
+      req.payload.logger.warn({ err: error, msg: 'Failed to revoke HubSpot refresh token' })
+    }
+  }
+
+  await req.payload.updateGlobal({
+    slug: HUBSPOT_CONNECTION_SLUG,
+    data: {
+      accessToken: null,
+      connectedAt: null,
+      connectedBy: null,
+      expiresAt: null,
+      hubDomain: null,
+      portalId: null,
+      refreshToken: null,
+      scopes: null,
+    },
+  })
+  cachedTokens = null
+  connectedPortalId = null
+
+  return jsonResponse({ message: 'HubSpot disconnected', success: true })
+}
@@ -0,0 +1,75 @@
+import type { Where } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type { HubSpotFormsApiVersion } from './hubspotClient.js'
+import type { HubSpotRateLimitConfig } from './rateLimiter.js'
+
+export type PayloadHubspotPortalConfig = {
+  /**
+   * Private app access token of the portal.
+   */
+  apiKey: string
+  /**
+   * Forms API of the portal, overriding the plugin's `formsApi`.
+   */
+  formsApi?: HubSpotFormsApiVersion
+  /**
+   * HubSpot portal (hub) ID, stored on each tracked form as `portal`.
+   */
+  id: string
+  /**
+   * Name shown in the admin panel. Defaults to the portal ID.
+   */
+  label?: string
+  /**
+   * Request budgets of the portal, overriding the plugin's `rateLimit`.
+   */
+  rateLimit?: Partial<HubSpotRateLimitConfig>
+}
+
+// Portal as listed in the admin panel, without its credentials
+export type HubSpotPortalOption = {
+  id: string
+  label: string
+}
+
+export const hasPortals = (pluginOptions: PayloadHubspotConfig): boolean =>
+  Boolean(pluginOptions.portals?.length)
+
+/**
+ * The configured portal with this ID, or the first one when no ID is given. Undefined for
+ * unknown IDs and when `portals` is not set.
+ */
+export const getPortalConfig = (
+  pluginOptions: PayloadHubspotConfig,
+  portal?: null | string,
+): PayloadHubspotPortalConfig | undefined => {
+  const portals = pluginOptions.portals || []
+  return portal ? portals.find((config) => config.id === String(portal)) : portals[0]
+}
+
+// Portal ID a form belongs to, `portal` is the form's own portal when several are configured
+export const getPortalId = (
+  pluginOptions: PayloadHubspotConfig,
+  portal?: null | string,
+): string | undefined =>
+  hasPortals(pluginOptions)
+    ? getPortalConfig(pluginOptions, portal)?.id
+    : pluginOptions.portalId || process.env.HUBSPOT_PORTAL_ID
+
+export const getPortalOptions = (pluginOptions: PayloadHubspotConfig): HubSpotPortalOption[] =>
+  (pluginOptions.portals || []).map(({ id, label }) => ({ id, label: label || id }))
+
+/**
+ * Restrict a `hubspot-forms` query to the forms of one portal. Forms tracked before `portals`
+ * was configured have no portal and belong to the first one.
+ */
+export const portalWhere = (pluginOptions: PayloadHubspotConfig, portal?: string): Where => {
+  if (!hasPortals(pluginOptions) || !portal) {
+    return {}
+  }
+
+  return portal === getPortalConfig(pluginOptions)?.id
+    ? { or: [{ portal: { equals: portal } }, { portal: { exists: false } }] }
+    : { portal: { equals: portal } }
+}
@@ -0,0 +1,207 @@
+import { HubSpotRateLimitError } from './hubspotErrors.js'
+
+export type HubSpotRateLimitConfig = {
+  /**
+   * Requests allowed per `burstInterval`. HubSpot allows 100 per 10 seconds for private apps on
+   * Free and Starter portals, and up to 190 on Professional and Enterprise.
+   * @default 100
+   */
+  burst: number
+  /**
+   * Length of the burst window in milliseconds.
+   * @default 10000
+   */
+  burstInterval: number
+  /**
+   * Requests sent to HubSpot at the same time.
+   * @default 5
+   */
+  concurrency: number
+  /**
+   * Requests allowed per day, once used up requests fail until midnight UTC.
+   * @default 250000
+   */
+  daily: number
+}
+
+export const DEFAULT_RATE_LIMIT: HubSpotRateLimitConfig = {
+  burst: 100,
+  burstInterval: 10 * 1000, // 10 seconds
+  concurrency: 5,
+  daily: 250000,
+}
+
+// Headers HubSpot sends with every API response
+const REMAINING_HEADER = 'X-HubSpot-RateLimit-Remaining'
+const INTERVAL_HEADER = 'X-HubSpot-RateLimit-Interval-Milliseconds'
+const DAILY_HEADER = 'X-HubSpot-RateLimit-Daily'
+const DAILY_REMAINING_HEADER = 'X-HubSpot-RateLimit-Daily-Remaining'
+
+type Waiter = {
+  reject: (error: Error) => void
+  resolve: (release: () => void) => void
+}
+
+const toNumber = (value: null | string): number | undefined => {
+  const number = value === null ? NaN : Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+const getDay = (): string => new Date().toISOString().slice(0, 10)
+
+const getTimeUntilTomorrow = (): number => {
+  const tomorrow = new Date()
+  tomorrow.setUTCHours(24, 0, 0, 0)
+  return tomorrow.getTime() - Date.now()
+}
+
+/**
+ * Token bucket shared by every request to one portal. Requests wait for a token of the burst
+ * budget and a free concurrency slot, and the budgets follow the rate limit headers HubSpot
+ * returns so several instances sharing a portal slow down together.
+ */
+export class HubSpotRateLimiter {
+  private active = 0
+  private config: HubSpotRateLimitConfig
+  private dailyUsed = 0
+  private day = getDay()
+  private pausedUntil = 0
+  private queue: Waiter[] = []
+  private refilledAt = Date.now()
+  private timer?: ReturnType<typeof setTimeout>
+  private tokens: number
+
+  constructor(config: Partial<HubSpotRateLimitConfig> = {}) {
+    this.config = { ...DEFAULT_RATE_LIMIT, ...config }
+    this.tokens = this.config.burst
+  }
+
+  // Hand out tokens to waiting requests, or wake up once the next token is available
+  private drain(): void {
+    this.refill()
+
+    while (this.queue.length > 0 && this.active < this.config.concurrency) {
+      if (this.dailyUsed >= this.config.daily) {
+        const retryAfter = getTimeUntilTomorrow()
+        for (const waiter of this.queue.splice(0)) {
+          waiter.reject(
+            new HubSpotRateLimitError('HubSpot daily request budget used up', retryAfter),
+          )
+        }
+        return
+      }
+
+      const wait = Math.max(
+        this.pausedUntil - Date.now(),
+        this.tokens < 1 ? ((1 - this.tokens) * this.config.burstInterval) / this.config.burst : 0,
+      )
+      if (wait > 0) {
+        this.schedule(wait)
+        return
+      }
+
+      this.tokens -= 1
+      this.dailyUsed++
+      this.active++
+
+      let released = false
+      this.queue.shift()?.resolve(() => {
+        if (!released) {
+          released = true
+          this.active--
+          this.drain()
+        }
+      })
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now()
+
+    if (this.day !== getDay()) {
+      this.day = getDay()
+      this.dailyUsed = 0
+    }
+
+    this.tokens = Math.min(
+      this.config.burst,
+      this.tokens + ((now - this.refilledAt) * this.config.burst) / this.config.burstInterval,
+    )
+    this.refilledAt = now
+  }
+
+  private schedule(wait: number): void {
+    if (this.timer) {
+      return
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.drain()
+    }, wait)
+    // Waiting requests keep the process busy, an idle timer shouldn't
+    if (typeof this.timer === 'object' && 'unref' in this.timer) {
+      this.timer.unref()
+    }
+  }
+
+  /**
+   * Wait for a token and a concurrency slot. Call the returned function once the response has
+   * been received to free the slot.
+   */
+  acquire(): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ reject, resolve })
+      this.drain()
+    })
+  }
+
+  // Hold back every request for this long, e.g. after a 429 with Retry-After
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+  }
+
+  // Budgets left according to HubSpot, which also counts requests made by other instances
+  update(headers: Headers): void {
+    const remaining = toNumber(headers.get(REMAINING_HEADER))
+    if (remaining !== undefined) {
+      this.refill()
+      this.tokens = Math.min(this.tokens, remaining)
+
+      const interval = toNumber(headers.get(INTERVAL_HEADER))
+      if (remaining <= 0 && interval) {
+        this.pause(interval)
+      }
+    }
+
+    const dailyRemaining = toNumber(headers.get(DAILY_REMAINING_HEADER))
+    if (dailyRemaining !== undefined) {
+      const daily = toNumber(headers.get(DAILY_HEADER)) ?? this.config.daily
+      this.dailyUsed = Math.max(this.dailyUsed, daily - dailyRemaining)
+    }
+  }
+}
+
+// One limiter per portal for the whole process, with the budgets it was created with
+const limiters = new Map<string, { config: string; limiter: HubSpotRateLimiter }>()
+
+/**
+ * Limiter of a portal, shared by its clients. A changed `config` replaces the limiter, which
+ * starts with a full budget until HubSpot's rate limit headers report what is left.
+ */
+export const getRateLimiter = (
+  key: string,
+  config?: Partial<HubSpotRateLimitConfig>,
+): HubSpotRateLimiter => {
+  const resolvedConfig = JSON.stringify({ ...DEFAULT_RATE_LIMIT, ...config })
+  const cached = limiters.get(key)
+
+  if (cached?.config === resolvedConfig) {
+    return cached.limiter
+  }
+
+  const limiter = new HubSpotRateLimiter(config)
+  limiters.set(key, { config: resolvedConfig, limiter })
+
+  return limiter
+}
@@ -0,0 +1,207 @@
+import type { JsonObject, Payload, PayloadRequest, TypeWithID } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type { AnalyticsSyncFormResult, AnalyticsSyncScope } from './syncFormAnalytics.js'
+
+import { SYNC_RUNS_SLUG } from '../collections/syncRuns.js'
+import { queueAnalyticsRefresh } from '../tasks/refreshAnalyticsTask.js'
+import { DEFAULT_SYNC_QUEUE } from '../tasks/syncAnalyticsTask.js'
+import { getUserTenants } from './tenants.js'
+
+const PROGRESS_POLL_INTERVAL = 1000 // How often a progress stream checks the job
+const PROGRESS_STREAM_TIMEOUT = 10 * 60 * 1000 // Progress streams end after 10 minutes
+const REFRESH_JOB_STALE_AFTER = 30 * 60 * 1000 // Running jobs without progress for 30 minutes died
+
+// A dashboard refresh, stored as a `hubspot-sync-runs` row so any instance can report on it
+export type AnalyticsRefreshJob = {
+  error?: string
+  failed: number
+  finishedAt?: string
+  id: number | string
+  processed: number
+  remaining: number
+  results: AnalyticsSyncFormResult[]
+  startedAt: string
+  status: 'failed' | 'partial' | 'running' | 'succeeded'
+}
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+const jsonResponse = (body: unknown, status: number = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+// A job whose runner stopped, e.g. on a restart mid-refresh, would otherwise stay running forever
+const isStale = (run: JsonObject): boolean =>
+  run.status === 'running' &&
+  typeof run.updatedAt === 'string' &&
+  Date.now() - new Date(run.updatedAt).getTime() > REFRESH_JOB_STALE_AFTER
+
+const toRefreshJob = (run: JsonObject & TypeWithID): AnalyticsRefreshJob => ({
+  id: run.id,
+  error: isStale(run) ? 'The refresh stopped before finishing' : run.error || undefined,
+  failed: run.failed || 0,
+  finishedAt: run.finishedAt || undefined,
+  processed: run.processed || 0,
+  remaining: run.remaining || 0,
+  results: Array.isArray(run.results) ? run.results : [],
+  startedAt: run.startedAt,
+  status: isStale(run) ? 'failed' : run.status,
+})
+
+/**
+ * Start refreshing the analytics of one form, or of every form in scope, without waiting for it.
+ * The refresh runs as a job on the sync queue, and each form's outcome is added to the refresh
+ * job as soon as it finishes.
+ */
+export const startAnalyticsRefresh = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+  formId?: string,
+  scope: AnalyticsSyncScope = {},
+): Promise<AnalyticsRefreshJob> => {
+  const tenants = scope.tenant === undefined ? undefined : [scope.tenant].flat()
+
+  const run = await payload.create({
+    collection: SYNC_RUNS_SLUG,
+    data: {
+      results: [],
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      tenants,
+      trigger: 'refresh',
+    },
+  })
+
+  // Users without tenants have no forms to refresh
+  if (tenants?.length === 0) {
+    const done = await payload.update({
+      id: run.id,
+      collection: SYNC_RUNS_SLUG,
+      data: { finishedAt: new Date().toISOString(), status: 'succeeded' },
+    })
+    return toRefreshJob(done)
+  }
+
+  try {
+    const jobID = await queueAnalyticsRefresh(
+      payload,
+      pluginOptions.sync?.queue || DEFAULT_SYNC_QUEUE,
+      { formId, portal: scope.portal, run: run.id, tenants },
+    )
+
+    // Runs after the response, the queue's runner picks the job up if this instance stops
+    payload.jobs.runByID({ id: jobID }).catch((error: unknown) => {
+      payload.logger.error({ err: error, msg: `Refresh job ${run.id} failed` })
+    })
+  } catch (error) {
+    const failed = await payload.update({
+      id: run.id,
+      collection: SYNC_RUNS_SLUG,
+      data: {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        finishedAt: new Date().toISOString(),
+        status: 'failed',
+      },
+    })
+    return toRefreshJob(failed)
+  }
+
+  return toRefreshJob(run)
+}
+
+// Users limited to tenants only follow the refreshes of their own tenants
+const canAccessJob = (
+  pluginOptions: PayloadHubspotConfig,
+  req: PayloadRequest,
+  run: JsonObject,
+): boolean => {
+  const userTenants = getUserTenants(pluginOptions, req.user)
+  if (!pluginOptions.tenants || !userTenants) {
+    return true
+  }
+
+  const jobTenants: string[] = Array.isArray(run.tenants) ? run.tenants.map(String) : []
+  return jobTenants.length > 0 && jobTenants.every((tenant) => userTenants.includes(tenant))
+}
+
+/**
+ * Progress of a refresh job. Returns the job as JSON for polling, or streams a `form` event per
+ * finished form followed by a `done` event when the request accepts `text/event-stream`.
+ */
+export const refreshJobHandler = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<Response> => {
+  const jobId = req.routeParams?.jobId as string | undefined
+
+  const findJob = async (): Promise<AnalyticsRefreshJob | null> => {
+    try {
+      const run = await req.payload.findByID({
+        id: jobId as string,
+        collection: SYNC_RUNS_SLUG,
+        depth: 0,
+      })
+      return run?.trigger === 'refresh' && canAccessJob(pluginOptions, req, run)
+        ? toRefreshJob(run)
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  const job = jobId ? await findJob() : null
+  if (!job) {
+    return jsonResponse({ error: 'Refresh job not found' }, 404)
+  }
+
+  if (!req.headers.get('accept')?.includes('text/event-stream')) {
+    return jsonResponse(job)
+  }
+
+  const encoder = new TextEncoder()
+  let isCancelled = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    cancel() {
+      isCancelled = true
+    },
+    async start(controller) {
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+
+      const deadline = Date.now() + PROGRESS_STREAM_TIMEOUT
+      let current = job
+      let sent = 0
+
+      while (!isCancelled) {
+        for (const result of current.results.slice(sent)) {
+          send('form', result)
+        }
+        sent = current.results.length
+
+        if (current.status !== 'running' || Date.now() > deadline) {
+          const { results: _results, ...summary } = current
+          send('done', summary)
+          break
+        }
+
+        await delay(PROGRESS_POLL_INTERVAL)
+        current = (await findJob()) || current
+      }
+
+      if (!isCancelled) {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Cache-Control': 'no-cache',
+      'Content-Type': 'text/event-stream',
+    },
+  })
+}
@@ -1,18 +1,18 @@
-import type { Payload } from 'payload'
+import type { JsonObject, Payload, TypeWithID } from 'payload'
 
 import type { PayloadHubspotConfig } from '../index.js'
+import type { HubSpotForm, HubSpotFormStats } from './hubspotClient.js'
 
-import { getHubSpotHeaders } from './hubspotApi.js'
+import { FORM_ANALYTICS_SNAPSHOTS_SLUG } from '../collections/formAnalyticsSnapshots.js'
+import { getFormFieldGroups } from './formFields.js'
+import { getHubSpotClient, toFormStats } from './hubspotClient.js'
+import { portalWhere } from './portals.js'
+import { tenantWhere } from './tenants.js'
 
 // Cache duration for analytics (24 hours)
 const ANALYTICS_CACHE_DURATION = 24 * 60 * 60 * 1000
 
-// Rate limiting configuration for analytics sync
-const ANALYTICS_RATE_LIMIT_DELAY = 3000 // 3 seconds between requests
-const MAX_FORMS_PER_SYNC = 20 // Limit forms processed per sync to avoid timeouts
-
-// Helper function to add delay between requests
-const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+export const MAX_FORMS_PER_SYNC = 20 // Limit forms processed per sync to avoid timeouts
 
 // Logging helper
 const debugLog = (message: string): void => {
@@ -27,68 +27,93 @@ const errorLog = (message: string, error?: unknown): void => {
   console.error(`[HubSpot Analytics Sync] ${message}`, error)
 }
 
-// Fetch form analytics with retry logic
-const fetchFormAnalytics = async (
-  formGuid: string,
-  pluginOptions: PayloadHubspotConfig,
-  attempt: number = 0,
-): Promise<{ totals?: Record<string, number> }> => {
-  const MAX_RETRIES = 3
-  const BASE_RETRY_DELAY = 2000
-
-  try {
-    const analyticsResponse = await fetch(
-      `https://api.hubapi.com/analytics/v2/reports/forms/total?f=${formGuid}`,
-      { headers: getHubSpotHeaders(pluginOptions) },
-    )
+/**
+ * Update the latest-value cache on the form, along with its name and fields from HubSpot, and
+ * append a dated snapshot row
+ */
+const saveFormAnalytics = async (
+  payload: Payload,
+  form: JsonObject & TypeWithID,
+  hubspotForm: HubSpotForm,
+  stats: HubSpotFormStats,
+  date: Date,
+): Promise<void> => {
+  await payload.update({
+    id: form.id,
+    collection: 'hubspot-forms',
+    data: {
+      name: hubspotForm.name,
+      analytics: {
+        ...stats,
+        lastUpdated: date.toISOString(),
+      },
+      fieldGroups: getFormFieldGroups(hubspotForm),
+    },
+  })
+
+  await payload.create({
+    collection: FORM_ANALYTICS_SNAPSHOTS_SLUG,
+    data: {
+      ...stats,
+      date: date.toISOString(),
+      form: form.id,
+      formId: form.formId,
+    },
+  })
+}
 
-    // Handle rate limiting with exponential backoff
-    if (analyticsResponse.status === 429) {
-      if (attempt < MAX_RETRIES) {
-        const backoffDelay = BASE_RETRY_DELAY * Math.pow(2, attempt)
-        debugLog(`Rate limit hit for form ${formGuid}. Retrying in ${backoffDelay}ms`)
-        await delay(backoffDelay)
-        return fetchFormAnalytics(formGuid, pluginOptions, attempt + 1)
-      } else {
-        throw new Error(`Rate limit exceeded after ${MAX_RETRIES} retries`)
-      }
-    }
+// Forms a sync is limited to, all tracked forms by default
+export type AnalyticsSyncScope = {
+  portal?: string
+  tenant?: string | string[] // One tenant, or the forms of several
+}
 
-    if (!analyticsResponse.ok) {
-      const errorText = await analyticsResponse.text()
-      throw new Error(`Analytics API failed with status ${analyticsResponse.status}: ${errorText}`)
-    }
+export type AnalyticsSyncResult = {
+  failed: number
+  processed: number
+  remaining: number // Stale forms left for the next run
+}
 
-    return await analyticsResponse.json()
-  } catch (error) {
-    if (attempt < MAX_RETRIES && error instanceof Error && error.message.includes('fetch')) {
-      const backoffDelay = BASE_RETRY_DELAY * Math.pow(2, attempt)
-      debugLog(`Network error for form ${formGuid}. Retrying in ${backoffDelay}ms`)
-      await delay(backoffDelay)
-      return fetchFormAnalytics(formGuid, pluginOptions, attempt + 1)
-    }
-    throw error
-  }
+// Outcome for one form, reported as soon as the form is done
+export type AnalyticsSyncFormResult = {
+  analytics?: { lastUpdated: string } & HubSpotFormStats
+  error?: string
+  formId: string
+  status: 'failed' | 'succeeded'
 }
 
+export type AnalyticsSyncOptions = {
+  onForm?: (result: AnalyticsSyncFormResult) => void
+} & AnalyticsSyncScope
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error'
+
 export const syncFormAnalytics = async (
   payload: Payload,
   pluginOptions: PayloadHubspotConfig,
   forceRefresh = false,
-): Promise<void> => {
+  limit = MAX_FORMS_PER_SYNC,
+  { onForm, ...scope }: AnalyticsSyncOptions = {},
+): Promise<AnalyticsSyncResult> => {
+  const result: AnalyticsSyncResult = { failed: 0, processed: 0, remaining: 0 }
+
   try {
     debugLog('Starting analytics sync for manually added forms...')
 
     // Get all manually added forms from database
     const { docs: forms } = await payload.find({
       collection: 'hubspot-forms',
-      limit: 1000,
+      pagination: false,
       sort: 'name',
+      where: {
+        and: [portalWhere(pluginOptions, scope.portal), tenantWhere(pluginOptions, scope.tenant)],
+      },
     })
 
     if (forms.length === 0) {
       debugLog('No forms found in database')
-      return
+      return result
     }
 
     // Filter forms that need analytics update
@@ -109,61 +134,44 @@ export const syncFormAnalytics = async (
 
     if (formsToUpdate.length === 0) {
       debugLog('All forms have fresh analytics data')
-      return
+      return result
     }
 
-    // Limit the number of forms to process to avoid timeouts
-    const formsToProcess = formsToUpdate.slice(0, MAX_FORMS_PER_SYNC)
+    // Limit the number of forms to process to avoid timeouts, the rest is picked up by the next run
+    const formsToProcess = formsToUpdate.slice(0, limit)
+    result.remaining = formsToUpdate.length - formsToProcess.length
 
     debugLog(
       `Processing analytics for ${formsToProcess.length} forms (${formsToUpdate.length - formsToProcess.length} remaining)`,
     )
 
-    // Process forms with rate limiting
-    for (let i = 0; i < formsToProcess.length; i++) {
-      const form = formsToProcess[i]
-
+    // Process forms concurrently in batches, HubSpot requests are paced by each portal's rate limiter
+    const syncForm = async (form: JsonObject & TypeWithID): Promise<void> => {
       try {
-        // Add delay between requests (except for the first one)
-        if (i > 0) {
-          await delay(ANALYTICS_RATE_LIMIT_DELAY)
-        }
-
-        debugLog(
-          `Fetching analytics for form ${i + 1}/${formsToProcess.length}: ${form.name} (${form.formId})`,
-        )
-
-        // Get analytics from HubSpot
-        const analytics = await fetchFormAnalytics(form.formId, pluginOptions)
-
-        // Extract meaningful stats from analytics
-        const totals = analytics.totals || {}
-        const analyticsData = {
-          clickThroughRate: totals.clickThroughPerFormView || 0,
-          conversionRate:
-            (totals.submissionsPerFormView || 0) > 1
-              ? undefined
-              : totals.submissionsPerFormView || 0,
-          interactions: totals.interactions || 0,
-          lastUpdated: now.toISOString(),
-          nonContactSubmissions: totals.nonContactSubmissions || 0,
-          submissionRate: totals.submissionsPerClickThrough || 0,
-          submissions: totals.submissions || 0,
-          views: totals.formViews || 0,
-        }
-
-        // Update form in database with analytics
-        await payload.update({
-          id: form.id,
-          collection: 'hubspot-forms',
-          data: {
-            analytics: analyticsData,
-          },
+        debugLog(`Fetching analytics for form: ${form.name} (${form.formId})`)
+
+        // Get the form definition and analytics from the form's portal, refreshing the cache
+        const client = getHubSpotClient(pluginOptions, payload, form.portal, { refresh: true })
+        const [hubspotForm, analytics] = await Promise.all([
+          client.getForm(form.formId),
+          client.getFormAnalytics(form.formId),
+        ])
+
+        // Update form in database with its fields and analytics, and record a snapshot
+        const stats = toFormStats(analytics)
+        await saveFormAnalytics(payload, form, hubspotForm, stats, now)
+        result.processed++
+        onForm?.({
+          analytics: { ...stats, lastUpdated: now.toISOString() },
+          formId: form.formId,
+          status: 'succeeded',
         })
 
         debugLog(`Successfully updated analytics for form: ${form.name}`)
       } catch (error) {
         errorLog(`Error fetching analytics for form ${form.formId}:`, error)
+        result.failed++
+        onForm?.({ error: toErrorMessage(error), formId: form.formId, status: 'failed' })
 
         // Update with error state but keep existing data if available
         await payload.update({
@@ -179,64 +187,81 @@ export const syncFormAnalytics = async (
       }
     }
 
+    for (let i = 0; i < formsToProcess.length; i += MAX_FORMS_PER_SYNC) {
+      await Promise.all(formsToProcess.slice(i, i + MAX_FORMS_PER_SYNC).map(syncForm))
+    }
+
     debugLog(`Completed analytics sync for ${formsToProcess.length} forms`)
+    return result
   } catch (error) {
     errorLog('Error during analytics sync:', error)
+    throw error
   }
 }
 
+/**
+ * Refresh the analytics of one form, or of every form in scope, reporting each form through
+ * `onForm` as it finishes.
+ */
 export const refreshFormAnalytics = async (
   payload: Payload,
   pluginOptions: PayloadHubspotConfig,
   formId?: string,
-): Promise<void> => {
+  options: AnalyticsSyncOptions = {},
+): Promise<AnalyticsSyncResult> => {
   try {
-    if (formId) {
-      // Refresh specific form
-      const { docs } = await payload.find({
-        collection: 'hubspot-forms',
-        where: {
-          formId: {
-            equals: formId,
+    if (!formId) {
+      // Refresh all forms, in batches as the refresh runs in the background
+      return await syncFormAnalytics(
+        payload,
+        pluginOptions,
+        true,
+        Number.POSITIVE_INFINITY,
+        options,
+      )
+    }
+
+    // Refresh specific form
+    const { docs } = await payload.find({
+      collection: 'hubspot-forms',
+      where: {
+        and: [
+          {
+            formId: {
+              equals: formId,
+            },
           },
-        },
-      })
+          tenantWhere(pluginOptions, options.tenant),
+        ],
+      },
+    })
 
-      if (docs.length === 0) {
-        throw new Error(`Form with ID ${formId} not found`)
-      }
+    if (docs.length === 0) {
+      throw new Error(`Form with ID ${formId} not found`)
+    }
 
-      const form = docs[0]
-      debugLog(`Refreshing analytics for specific form: ${form.name}`)
-
-      const analytics = await fetchFormAnalytics(formId, pluginOptions)
-      const totals = analytics.totals || {}
-
-      const analyticsData = {
-        clickThroughRate: totals.clickThroughPerFormView || 0,
-        conversionRate:
-          (totals.submissionsPerFormView || 0) > 1 ? undefined : totals.submissionsPerFormView || 0,
-        interactions: totals.interactions || 0,
-        lastUpdated: new Date().toISOString(),
-        nonContactSubmissions: totals.nonContactSubmissions || 0,
-        submissionRate: totals.submissionsPerClickThrough || 0,
-        submissions: totals.submissions || 0,
-        views: totals.formViews || 0,
-      }
+    const form = docs[0]
+    debugLog(`Refreshing analytics for specific form: ${form.name}`)
 
-      await payload.update({
-        id: form.id,
-        collection: 'hubspot-forms',
-        data: {
-          analytics: analyticsData,
-        },
-      })
+    try {
+      const client = getHubSpotClient(pluginOptions, payload, form.portal, { refresh: true })
+      const hubspotForm = await client.getForm(formId)
+      const stats = toFormStats(await client.getFormAnalytics(formId))
+      const now = new Date()
 
-      debugLog(`Successfully refreshed analytics for form: ${form.name}`)
-    } else {
-      // Refresh all forms
-      await syncFormAnalytics(payload, pluginOptions, true)
+      await saveFormAnalytics(payload, form, hubspotForm, stats, now)
+      options.onForm?.({
+        analytics: { ...stats, lastUpdated: now.toISOString() },
+        formId,
+        status: 'succeeded',
+      })
+    } catch (error) {
+      options.onForm?.({ error: toErrorMessage(error), formId, status: 'failed' })
+      throw error
     }
+
+    debugLog(`Successfully refreshed analytics for form: ${form.name}`)
+    return { failed: 0, processed: 1, remaining: 0 }
   } catch (error) {
     errorLog('Error refreshing form analytics:', error)
     throw error
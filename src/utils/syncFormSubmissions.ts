@@ -0,0 +1,163 @@
+import type { JsonObject, Payload, TypeWithID } from 'payload'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type { HubSpotClient, HubSpotFormSubmission } from './hubspotClient.js'
+
+import { FORM_SUBMISSIONS_SLUG } from '../collections/formSubmissions.js'
+import { getHubSpotClient } from './hubspotClient.js'
+import { portalWhere } from './portals.js'
+
+const FORMS_PAGE_SIZE = 100 // Tracked forms read per page
+
+// Logging helper
+const debugLog = (message: string): void => {
+  if (process.env.HUBSPOT_DEBUG === 'true') {
+    // eslint-disable-next-line no-console
+    console.log(`[HubSpot Submissions Sync] ${message}`)
+  }
+}
+
+const errorLog = (message: string, error?: unknown): void => {
+  // eslint-disable-next-line no-console
+  console.error(`[HubSpot Submissions Sync] ${message}`, error)
+}
+
+// Page from the newest submission back to the form's cursor, the submittedAt of the newest synced one
+const fetchNewSubmissions = async (
+  client: HubSpotClient,
+  formGuid: string,
+  cursor: number,
+): Promise<HubSpotFormSubmission[]> => {
+  const submissions: HubSpotFormSubmission[] = []
+  let after: string | undefined
+  let reachedCursor = false
+
+  do {
+    const page = await client.getFormSubmissions(formGuid, after)
+
+    for (const submission of page.results) {
+      // Submissions sharing the cursor timestamp are refetched and skipped as duplicates
+      if (submission.submittedAt < cursor) {
+        reachedCursor = true
+        break
+      }
+      submissions.push(submission)
+    }
+
+    after = page.paging?.next?.after
+  } while (after && !reachedCursor)
+
+  return submissions
+}
+
+const syncSubmissionsForForm = async (
+  payload: Payload,
+  client: HubSpotClient,
+  form: JsonObject & TypeWithID,
+): Promise<number> => {
+  const cursor = Number(form.submissionsCursor) || 0
+  const submissions = await fetchNewSubmissions(client, form.formId, cursor)
+
+  if (submissions.length === 0) {
+    return 0
+  }
+
+  const { docs: existing } = await payload.find({
+    collection: FORM_SUBMISSIONS_SLUG,
+    depth: 0,
+    limit: submissions.length,
+    pagination: false,
+    where: {
+      conversionId: {
+        in: submissions.map((submission) => submission.conversionId),
+      },
+    },
+  })
+  const existingIds = new Set(existing.map((doc) => doc.conversionId))
+
+  let created = 0
+
+  // Oldest first, so an interrupted sync never skips submissions older than the saved cursor
+  for (const submission of [...submissions].reverse()) {
+    if (existingIds.has(submission.conversionId)) {
+      continue
+    }
+
+    await payload.create({
+      collection: FORM_SUBMISSIONS_SLUG,
+      data: {
+        conversionId: submission.conversionId,
+        email: submission.values.find((value) => value.name === 'email')?.value,
+        form: form.id,
+        formId: form.formId,
+        pageUrl: submission.pageUrl,
+        submittedAt: new Date(submission.submittedAt).toISOString(),
+        values: submission.values.map(({ name, value }) => ({ name, value })),
+      },
+    })
+    created++
+  }
+
+  // A form's first sync can fetch its whole history, too many submissions to spread into Math.max
+  const submissionsCursor = submissions.reduce(
+    (newest, submission) => Math.max(newest, submission.submittedAt),
+    cursor,
+  )
+
+  await payload.update({
+    id: form.id,
+    collection: 'hubspot-forms',
+    data: { submissionsCursor },
+  })
+
+  return created
+}
+
+export type SubmissionsSyncResult = {
+  created: number
+  createdByForm: Record<string, number> // New submissions per hubspot-forms ID, if any
+  failed: number // Forms whose submissions could not be synced
+}
+
+// Pull submissions received since the last sync for every tracked form, or the forms of one portal
+export const syncFormSubmissions = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+  portal?: string,
+): Promise<SubmissionsSyncResult> => {
+  const result: SubmissionsSyncResult = { created: 0, createdByForm: {}, failed: 0 }
+
+  let page = 1
+  let hasNextPage = true
+
+  while (hasNextPage) {
+    const { docs: forms, ...pagination } = await payload.find({
+      collection: 'hubspot-forms',
+      limit: FORMS_PAGE_SIZE,
+      page,
+      sort: 'name',
+      where: portalWhere(pluginOptions, portal),
+    })
+
+    for (const form of forms) {
+      try {
+        const client = getHubSpotClient(pluginOptions, payload, form.portal)
+        const created = await syncSubmissionsForForm(payload, client, form)
+        result.created += created
+        if (created > 0) {
+          result.createdByForm[form.id] = created
+        }
+
+        debugLog(`Synced ${created} new submissions for form: ${form.name}`)
+      } catch (error) {
+        errorLog(`Error syncing submissions for form ${form.formId}:`, error)
+        result.failed++
+      }
+    }
+
+    hasNextPage = pagination.hasNextPage
+    page++
+  }
+
+  return result
+}
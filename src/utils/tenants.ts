@@ -0,0 +1,239 @@
+import type {
+  Access,
+  CollectionSlug,
+  Payload,
+  PayloadRequest,
+  TextFieldSingleValidation,
+  TypedUser,
+  Where,
+} from 'payload'
+
+import { parseCookies, text } from 'payload/shared'
+
+import type { PayloadHubspotConfig } from '../index.js'
+import type { HubSpotAccess } from './access.js'
+
+import { getPortalConfig, hasPortals } from './portals.js'
+
+// Cookie holding the tenant picked in the multi-tenant plugin's tenant selector
+export const TENANT_COOKIE = 'payload-tenant'
+
+const DEFAULT_TENANTS_COLLECTION = 'tenants'
+const DEFAULT_TENANT_FIELD = 'tenant'
+const DEFAULT_TENANT_PORTAL_FIELD = 'hubspotPortal'
+
+export type PayloadHubspotTenantsConfig = {
+  /**
+   * Add the tenant field to `hubspot-forms`. Disable when `hubspot-forms` is listed in the
+   * multi-tenant plugin's `collections`, which adds its own.
+   * @default true
+   */
+  addField?: boolean
+  /**
+   * Slug of the tenants collection.
+   * @default 'tenants'
+   */
+  collection?: CollectionSlug
+  /**
+   * Name of the tenant field on `hubspot-forms`.
+   * @default 'tenant'
+   */
+  field?: string
+  /**
+   * Field on tenant documents holding the tenant's HubSpot portal, one of `portals`. Added to the
+   * tenants collection when `portals` is set.
+   * @default 'hubspotPortal'
+   */
+  portalField?: string
+  /**
+   * Users who see the forms of every tenant. Defaults to users without a `tenants` array, the
+   * field the multi-tenant plugin adds to users.
+   */
+  userHasAccessToAllTenants?: (user: TypedUser) => boolean
+}
+
+type TenantValue = { id?: number | string } | number | string
+
+export const getTenantsCollection = (pluginOptions: PayloadHubspotConfig): CollectionSlug =>
+  pluginOptions.tenants?.collection || (DEFAULT_TENANTS_COLLECTION as CollectionSlug)
+
+export const getTenantField = (pluginOptions: PayloadHubspotConfig): string =>
+  pluginOptions.tenants?.field || DEFAULT_TENANT_FIELD
+
+export const getTenantPortalField = (pluginOptions: PayloadHubspotConfig): string =>
+  pluginOptions.tenants?.portalField || DEFAULT_TENANT_PORTAL_FIELD
+
+// Relationship values are IDs at depth 0 and documents once populated
+export const toTenantID = (value: TenantValue | undefined): string | undefined => {
+  const id = value && typeof value === 'object' ? value.id : value
+  return id === undefined || id === null ? undefined : String(id)
+}
+
+/**
+ * Tenants a user belongs to, read from the `tenants` array the multi-tenant plugin adds to
+ * users. Undefined when the user sees every tenant.
+ */
+export const getUserTenants = (
+  pluginOptions: PayloadHubspotConfig,
+  user?: null | TypedUser,
+): string[] | undefined => {
+  const { userHasAccessToAllTenants } = pluginOptions.tenants || {}
+  const tenants = (user as { tenants?: unknown } | null | undefined)?.tenants
+
+  if (!user || (userHasAccessToAllTenants && userHasAccessToAllTenants(user))) {
+    return undefined
+  }
+
+  if (!Array.isArray(tenants)) {
+    return userHasAccessToAllTenants ? [] : undefined
+  }
+
+  return tenants
+    .map((row: { tenant?: TenantValue }) => toTenantID(row?.tenant))
+    .filter((id): id is string => Boolean(id))
+}
+
+/**
+ * Tenants a user may see forms of: the selected tenant, otherwise all tenants of the user.
+ * Undefined means every tenant, null that the selected tenant is not one of the user's.
+ */
+export const resolveTenant = (
+  pluginOptions: PayloadHubspotConfig,
+  user?: null | TypedUser,
+  selected?: null | string,
+): null | string | string[] | undefined => {
+  if (!pluginOptions.tenants) {
+    return undefined
+  }
+
+  const userTenants = getUserTenants(pluginOptions, user)
+
+  if (!selected) {
+    return userTenants
+  }
+
+  return !userTenants || userTenants.includes(selected) ? selected : null
+}
+
+// Tenants a request may see forms of, picked with ?tenant= or in the multi-tenant plugin's selector
+export const getRequestTenant = (
+  pluginOptions: PayloadHubspotConfig,
+  req: Pick<PayloadRequest, 'headers' | 'searchParams' | 'user'>,
+): null | string | string[] | undefined =>
+  resolveTenant(
+    pluginOptions,
+    req.user,
+    req.searchParams?.get('tenant') || parseCookies(req.headers).get(TENANT_COOKIE),
+  )
+
+/**
+ * Restrict a `hubspot-forms` query to one tenant or a list of tenants. `formPath` is the
+ * relationship to `hubspot-forms` when querying a collection that belongs to forms.
+ */
+export const tenantWhere = (
+  pluginOptions: PayloadHubspotConfig,
+  tenant?: null | string | string[],
+  formPath?: string,
+): Where => {
+  if (!pluginOptions.tenants || tenant === undefined || tenant === null) {
+    return {}
+  }
+
+  const field = formPath
+    ? `${formPath}.${getTenantField(pluginOptions)}`
+    : getTenantField(pluginOptions)
+  return Array.isArray(tenant) ? { [field]: { in: tenant } } : { [field]: { equals: tenant } }
+}
+
+/**
+ * Collection access scoped to the user's tenants: denied when `access` denies it, otherwise a
+ * query matching the forms of the user's tenants, or every form for users who see all tenants.
+ * Collections of form data, like submissions, pass the relationship to their form as `formPath`.
+ */
+export const tenantAccess = (
+  pluginOptions: PayloadHubspotConfig,
+  access: HubSpotAccess,
+  formPath?: string,
+): Access => {
+  if (!pluginOptions.tenants) {
+    return access
+  }
+
+  return async ({ req }) => {
+    if (!(await access({ req }))) {
+      return false
+    }
+
+    const tenant = resolveTenant(pluginOptions, req.user)
+    return tenant === undefined ? true : tenantWhere(pluginOptions, tenant, formPath)
+  }
+}
+
+/**
+ * Check that a user may assign a form to the tenant, i.e. it is one of the user's tenants.
+ * Every tenant is allowed for users who see all tenants.
+ */
+export const canAssignTenant = (
+  pluginOptions: PayloadHubspotConfig,
+  user: null | TypedUser | undefined,
+  tenant: TenantValue | undefined,
+): boolean => {
+  const userTenants = getUserTenants(pluginOptions, user)
+  const tenantID = toTenantID(tenant)
+  return !userTenants || (tenantID !== undefined && userTenants.includes(tenantID))
+}
+
+/**
+ * Validate a tracked form's GUID is unique within its tenant, so several tenants can track the
+ * same HubSpot form. Backed by a compound unique index on the form ID and tenant.
+ */
+export const validateTenantFormId =
+  (pluginOptions: PayloadHubspotConfig): TextFieldSingleValidation =>
+  async (value, options) => {
+    const result = text(value, options)
+    if (result !== true || !value || !options.req?.payload) {
+      return result
+    }
+
+    const field = getTenantField(pluginOptions)
+    const tenant = toTenantID((options.data as Record<string, TenantValue> | undefined)?.[field])
+    const { totalDocs } = await options.req.payload.count({
+      collection: 'hubspot-forms',
+      req: options.req,
+      where: {
+        and: [
+          { formId: { equals: value } },
+          { [field]: { equals: tenant ?? null } },
+          ...(options.id === undefined ? [] : [{ id: { not_equals: options.id } }]),
+        ],
+      },
+    })
+
+    return totalDocs > 0 ? 'This form is already tracked for this tenant.' : true
+  }
+
+/**
+ * HubSpot portal a tenant is mapped to, so its forms use that portal's credentials. Undefined
+ * when the tenant has none, or for a list of tenants.
+ */
+export const getTenantPortal = async (
+  payload: Payload,
+  pluginOptions: PayloadHubspotConfig,
+  tenant?: null | string | string[],
+): Promise<string | undefined> => {
+  if (!pluginOptions.tenants || !hasPortals(pluginOptions) || typeof tenant !== 'string') {
+    return undefined
+  }
+
+  try {
+    const doc = await payload.findByID({
+      id: tenant,
+      collection: getTenantsCollection(pluginOptions),
+      depth: 0,
+    })
+    const portal = doc?.[getTenantPortalField(pluginOptions) as keyof typeof doc]
+    return typeof portal === 'string' ? getPortalConfig(pluginOptions, portal)?.id : undefined
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,241 @@
+import type { Payload, PayloadRequest } from 'payload'
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+import type { PayloadHubspotConfig } from '../index.js'
+
+import { queuePortalAnalyticsRefresh } from '../tasks/refreshAnalyticsTask.js'
+import { DEFAULT_SYNC_QUEUE } from '../tasks/syncAnalyticsTask.js'
+import { queueSubmissionsSync } from '../tasks/syncSubmissionsTask.js'
+import { getPortalOptions, hasPortals } from './portals.js'
+
+// Requests signed longer ago than this are rejected as replays
+const DEFAULT_WEBHOOK_MAX_AGE = 5 * 60 * 1000 // 5 minutes
+
+// Contact property HubSpot increments on every form submission
+const CONVERSION_COUNT_PROPERTY = 'num_conversion_events'
+
+// An event as delivered by HubSpot webhook subscriptions, several are sent per request
+export type HubSpotWebhookEvent = {
+  appId?: number
+  attemptNumber?: number
+  changeSource?: string
+  eventId: number
+  objectId: number
+  occurredAt: number
+  portalId: number
+  propertyName?: string
+  propertyValue?: string
+  subscriptionId?: number
+  subscriptionType: string
+}
+
+export type HubSpotWebhookEventHandler = (
+  event: HubSpotWebhookEvent,
+  payload: Payload,
+) => Promise<void> | void
+
+export type PayloadHubspotWebhooksConfig = {
+  /**
+   * Client secret of the HubSpot app sending the webhooks, used to verify request signatures.
+   * Defaults to `oauth.clientSecret` or `HUBSPOT_CLIENT_SECRET`.
+   */
+  clientSecret?: string
+  /**
+   * Maximum age of a webhook request in milliseconds, older requests are rejected as replays.
+   * @default 300000 (5 minutes)
+   */
+  maxAge?: number
+  /**
+   * Called for every verified event, after the plugin's own handling.
+   */
+  onHubspotEvent?: HubSpotWebhookEventHandler
+  /**
+   * Public URL of the webhook endpoint as configured in HubSpot, part of the signed content.
+   * Set when Payload runs behind a proxy that changes the request URL.
+   */
+  url?: string
+}
+
+export type HubSpotSignatureInput = {
+  body: string
+  clientSecret: string
+  maxAge?: number
+  method: string
+  now?: number
+  signature: null | string
+  timestamp: null | string
+  url: string
+}
+
+// Characters HubSpot decodes in the URI before signing it
+const SIGNATURE_URI_DECODES: Record<string, string> = {
+  '%2A': '*',
+  '%2C': ',',
+  '%2F': '/',
+  '%3A': ':',
+  '%3B': ';',
+  '%3F': '?',
+  '%21': '!',
+  '%24': '$',
+  '%27': "'",
+  '%28': '(',
+  '%29': ')',
+  '%40': '@',
+}
+
+const toSignatureUri = (url: string): string =>
+  url.replace(
+    /%(?:21|24|27|28|29|2A|2C|2F|3A|3B|3F|40)/gi,
+    (match) => SIGNATURE_URI_DECODES[match.toUpperCase()],
+  )
+
+/**
+ * Verify a v3 HubSpot request signature, an HMAC-SHA256 of the method, URI, body and timestamp
+ * keyed with the app's client secret. Requests older than `maxAge` fail verification.
+ */
+export const verifyHubSpotSignature = ({
+  body,
+  clientSecret,
+  maxAge = DEFAULT_WEBHOOK_MAX_AGE,
+  method,
+  now = Date.now(),
+  signature,
+  timestamp,
+  url,
+}: HubSpotSignatureInput): boolean => {
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+    return false
+  }
+
+  if (Math.abs(now - Number(timestamp)) > maxAge) {
+    return false
+  }
+
+  const expected = createHmac('sha256', clientSecret)
+    .update(`${method.toUpperCase()}${toSignatureUri(url)}${body}${timestamp}`)
+    .digest()
+  const received = Buffer.from(signature, 'base64')
+
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+const jsonResponse = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { 'Content-Type': 'application/json' },
+    status,
+  })
+
+export const isFormSubmissionEvent = (event: HubSpotWebhookEvent): boolean =>
+  event.subscriptionType === 'contact.propertyChange' &&
+  event.propertyName === CONVERSION_COUNT_PROPERTY
+
+// Contact events that can change the views, submissions or conversion rates of a portal's forms
+export const isAnalyticsEvent = (event: HubSpotWebhookEvent): boolean =>
+  event.subscriptionType === 'contact.creation' ||
+  event.subscriptionType === 'contact.propertyChange'
+
+export const webhookHandler = async (
+  req: PayloadRequest,
+  pluginOptions: PayloadHubspotConfig,
+): Promise<Response> => {
+  const webhooks = pluginOptions.webhooks || {}
+  const clientSecret =
+    webhooks.clientSecret || pluginOptions.oauth?.clientSecret || process.env.HUBSPOT_CLIENT_SECRET
+
+  if (!clientSecret) {
+    return jsonResponse({ error: 'HubSpot client secret not configured' }, 500)
+  }
+
+  const body = (await req.text?.()) || ''
+  const isVerified = verifyHubSpotSignature({
+    body,
+    clientSecret,
+    maxAge: webhooks.maxAge,
+    method: req.method || 'POST',
+    signature: req.headers.get('x-hubspot-signature-v3'),
+    timestamp: req.headers.get('x-hubspot-request-timestamp'),
+    url: webhooks.url || req.url || '',
+  })
+
+  if (!isVerified) {
+    return jsonResponse({ error: 'Invalid signature' }, 401)
+  }
+
+  let events: HubSpotWebhookEvent[]
+  try {
+    const parsed = JSON.parse(body)
+    events = Array.isArray(parsed) ? parsed : [parsed]
+  } catch {
+    return jsonResponse({ error: 'Expected a JSON array of events' }, 400)
+  }
+
+  // Events from other portals installed on the same app are ignored
+  const portalIds = hasPortals(pluginOptions)
+    ? getPortalOptions(pluginOptions).map((portal) => portal.id)
+    : [pluginOptions.portalId || process.env.HUBSPOT_PORTAL_ID].filter(Boolean)
+  const portalEvents = events.filter(
+    (event) => portalIds.length === 0 || portalIds.includes(String(event.portalId)),
+  )
+
+  // One sync per portal covers every submission event in the request. HubSpot retries requests
+  // that take longer than a few seconds, so the sync runs as a job after the response
+  const submissionPortals = pluginOptions.submissions
+    ? new Set(portalEvents.filter(isFormSubmissionEvent).map((event) => String(event.portalId)))
+    : new Set<string>()
+  for (const portal of submissionPortals) {
+    try {
+      const jobID = await queueSubmissionsSync(
+        req.payload,
+        pluginOptions.sync?.queue || DEFAULT_SYNC_QUEUE,
+        hasPortals(pluginOptions) ? portal : undefined,
+      )
+
+      if (jobID !== undefined) {
+        req.payload.jobs.runByID({ id: jobID }).catch((error: unknown) => {
+          req.payload.logger.error({ err: error, msg: 'Failed to sync HubSpot form submissions' })
+        })
+      }
+    } catch (error) {
+      req.payload.logger.error({ err: error, msg: 'Failed to queue HubSpot form submissions sync' })
+    }
+  }
+
+  // The analytics of every form of the portal are refreshed once per request, submissions
+  // enabled or not. HubSpot's events don't name the form, and the refresh replaces the cache
+  const analyticsPortals = new Set(
+    portalEvents.filter(isAnalyticsEvent).map((event) => String(event.portalId)),
+  )
+  for (const portal of analyticsPortals) {
+    try {
+      const jobID = await queuePortalAnalyticsRefresh(
+        req.payload,
+        pluginOptions.sync?.queue || DEFAULT_SYNC_QUEUE,
+        hasPortals(pluginOptions) ? portal : undefined,
+      )
+
+      if (jobID !== undefined) {
+        req.payload.jobs.runByID({ id: jobID }).catch((error: unknown) => {
+          req.payload.logger.error({ err: error, msg: 'Failed to refresh HubSpot form analytics' })
+        })
+      }
+    } catch (error) {
+      req.payload.logger.error({ err: error, msg: 'Failed to queue HubSpot analytics refresh' })
+    }
+  }
+
+  if (webhooks.onHubspotEvent) {
+    for (const event of portalEvents) {
+      try {
+        await webhooks.onHubspotEvent(event, req.payload)
+      } catch (error) {
+        req.payload.logger.error({
+          err: error,
+          msg: `HubSpot webhook handler failed for event ${event.eventId}`,
+        })
+      }
+    }
+  }
+
+  return jsonResponse({ received: portalEvents.length })
+}